@@ -1,83 +1,756 @@
-import React, { useState, useEffect } from 'react';
-import { Calendar, LayoutDashboard, FileBarChart, Plus, Sparkles } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Calendar, LayoutDashboard, FileBarChart, Plus, Sparkles, Settings as SettingsIcon, Headphones, Users, LogOut, Undo2, X, ListOrdered } from 'lucide-react';
 import BookingForm from './components/BookingForm';
 import BookingList from './components/BookingList';
 import CalendarView from './components/CalendarView';
 import Reports from './components/Reports';
 import AskAI from './components/AskAI';
-import { Booking, BookingStatus, ViewMode } from './types';
-import { generateSessionSummary } from './services/geminiService';
+import Settings from './components/Settings';
+import StaffSchedule from './components/StaffSchedule';
+import ClientDirectory from './components/ClientDirectory';
+import BackupRestore from './components/BackupRestore';
+import OfflineStatus from './components/OfflineStatus';
+import SyncSettings, { SyncStartMode } from './components/SyncSettings';
+import LoginScreen from './components/LoginScreen';
+import UserAccounts from './components/UserAccounts';
+import RateCardSettings from './components/RateCardSettings';
+import InvoiceRegister from './components/InvoiceRegister';
+import HoldsPanel from './components/HoldsPanel';
+import WaitlistPanel from './components/WaitlistPanel';
+import { SessionContext } from './components/SessionContext';
+import { ActivityEntry, Booking, BookingStatus, Client, InvoiceRecord, Payment, RateCard, Room, SeriesScope, StaffMember, StudioCalendar, SyncCollection, UserAccount, ViewMode, WaitlistEntry } from './types';
+import { ExtractedBookingData, generateSessionSummary } from './services/geminiService';
+import { DEFAULT_ROOMS, findOverlap, findStaffConflict, getBookingsOnDate, recordReschedule } from './services/schedulingService';
+import { getSeriesTargets } from './services/recurrenceService';
+import { linkBookingsToClients, mergeClients } from './services/clientService';
+import { DEFAULT_STUDIO_CALENDAR, findRuleViolations } from './services/studioCalendarService';
+import { DEFAULT_RATE_CARD } from './services/pricingService';
+import { RATE_CARD_KEY, STUDIO_CALENDAR_KEY, StudioData, StudioStore, diffCollection, stampChanges, syncCollection } from './services/repository';
+import { openIndexedDbStore } from './services/indexedDbStore';
+import { BackupLedgers } from './services/backupService';
+import { loadStudioData } from './services/migrations';
+import { AI_QUEUE_KEY, QueuedAiRequest, runQueuedRequest } from './services/aiQueueService';
+import { WAITLIST_KEY, WaitlistMatch, findFreedSlotMatches, findWaitlistMatches, getActiveWaitlist } from './services/waitlistService';
+import { canUndo, createActivityEntries, describeActivity } from './services/activityService';
+import { BOOKING_STATUSES, blocksSlot, canTransition, describeSlotHolder, getExpiringHolds, holdsSlot, isHoldLapsed, isOpen, releaseLapsedHolds } from './services/bookingStatusService';
+import { USERS_KEY, getSessionUserId, setSessionUserId } from './services/authService';
+import { Permission, ROLE_LABELS, can, canChangeStatus, canCompleteBooking, canOpenView, canSaveBookingChange, canSaveOverrides, getHomeView, getVisibleBookings } from './services/permissions';
+import { InvoiceIssuer, NumberAllocator, allocateDocumentNumber, allocateNumber } from './services/invoiceRegistryService';
+import { PaymentRecorder, allocateReceiptNumber } from './services/paymentService';
+import { RemoteUpdate, SYNC_CONNECTION_KEY, SYNC_STATE_KEY, SyncConflict, SyncConnection, SyncState, applyRemoteUpdates, completeSyncRound, createSyncState, getApplicableUpdates, markAllChanged, markChanged, recordKey, runSyncRound } from './services/syncService';
+
+const SYNC_INTERVAL_MS = 30000;
+const UNDO_BAR_MS = 15000;
+const HOLD_CHECK_MS = 60 * 1000;
+// How far ahead the dashboard warns about holds running out
+const HOLD_WARNING_MS = 48 * 60 * 60 * 1000;
 
 const App: React.FC = () => {
   const [bookings, setBookings] = useState<Booking[]>([]);
+  const [rooms, setRooms] = useState<Room[]>(DEFAULT_ROOMS);
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [clients, setClients] = useState<Client[]>([]);
+  const [studioCalendar, setStudioCalendar] = useState<StudioCalendar>(DEFAULT_STUDIO_CALENDAR);
+  const [rateCard, setRateCard] = useState<RateCard>(DEFAULT_RATE_CARD);
   const [viewMode, setViewMode] = useState<ViewMode>(ViewMode.DASHBOARD);
   const [showAddModal, setShowAddModal] = useState(false);
+  const [editingBooking, setEditingBooking] = useState<Booking | null>(null);
+  const [draftValues, setDraftValues] = useState<Partial<Booking> | undefined>(undefined);
+  const [aiDraft, setAiDraft] = useState<ExtractedBookingData | undefined>(undefined);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [aiQueue, setAiQueue] = useState<QueuedAiRequest[]>([]);
+  const processingQueueRef = useRef(false);
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
+  // Waiting clients who fit the slot the latest cancellation freed
+  const [waitlistMatches, setWaitlistMatches] = useState<WaitlistMatch[]>([]);
+  // The waitlist entry being booked, taken off the list once the booking is saved
+  const [bookingFromWaitlistId, setBookingFromWaitlistId] = useState<string | null>(null);
+
+  const [syncConnection, setSyncConnection] = useState<SyncConnection | null>(null);
+  const [syncState, setSyncState] = useState<SyncState>(createSyncState);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [syncRequest, setSyncRequest] = useState(0);
+  const syncStateRef = useRef(syncState);
+  // Records just taken from the sync server, so they aren't queued to be sent back
+  const remoteAppliedRef = useRef({ records: new WeakSet<object>(), deleted: new Set<string>() });
+  const [accounts, setAccounts] = useState<UserAccount[]>([]);
+  const [currentUser, setCurrentUser] = useState<UserAccount | null>(null);
+  const [activity, setActivity] = useState<ActivityEntry[]>([]);
+  const [invoices, setInvoices] = useState<InvoiceRecord[]>([]);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  // Set by local booking edits so the next save logs them; maps booking ids to undone entries
+  const pendingActivityRef = useRef<Record<string, string> | null>(null);
+  const [undoBatch, setUndoBatch] = useState<ActivityEntry[]>([]);
+  const [undoError, setUndoError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [now, setNow] = useState(() => Date.now());
   const [summary, setSummary] = useState<string | null>(null);
 
-  // Load from LocalStorage on mount
+  const storeRef = useRef<StudioStore | null>(null);
+  // Last saved version of each collection, so saves only write what changed
+  const savedRef = useRef<StudioData | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
+
+  // Load from IndexedDB on mount, migrating older data first
   useEffect(() => {
-    const saved = localStorage.getItem('scube_bookings');
-    if (saved) {
-      setBookings(JSON.parse(saved));
-    }
-    setLoading(false);
+    openIndexedDbStore()
+      .then(async store => {
+        const data = await loadStudioData(store);
+        storeRef.current = store;
+        savedRef.current = data;
+        setBookings(data.bookings);
+        setClients(data.clients);
+        setRooms(data.rooms);
+        setStaff(data.staff);
+        setStudioCalendar(data.studioCalendar);
+        setRateCard(data.rateCard);
+        setAiQueue((await store.meta.get<QueuedAiRequest[]>(AI_QUEUE_KEY)) || []);
+        setWaitlist((await store.meta.get<WaitlistEntry[]>(WAITLIST_KEY)) || []);
+        setSyncConnection((await store.meta.get<SyncConnection | null>(SYNC_CONNECTION_KEY)) || null);
+        setSyncState((await store.meta.get<SyncState>(SYNC_STATE_KEY)) || createSyncState());
+        setActivity((await store.activity.getAll()).sort((a, b) => a.at - b.at));
+        setInvoices(await store.invoices.getAll());
+        setPayments(await store.payments.getAll());
+        const storedAccounts = (await store.meta.get<UserAccount[]>(USERS_KEY)) || [];
+        // A reload keeps the tab's login, unless the account was disabled meanwhile
+        const sessionUser = storedAccounts.find(a => a.id === getSessionUserId() && a.active) || null;
+        setAccounts(storedAccounts);
+        setCurrentUser(sessionUser);
+        setViewMode(getHomeView(sessionUser));
+        setLoading(false);
+      })
+      .catch(e => {
+        console.error('Failed to open studio data:', e);
+        setStorageError(e instanceof Error ? e.message : 'Could not open saved data.');
+      });
   }, []);
 
-  // Save to LocalStorage on change
+  const reportSaveError = (e: unknown) => {
+    console.error('Failed to save studio data:', e);
+    setStorageError('Some changes could not be saved. Please reload before making more changes.');
+  };
+
+  // Queues local edits for the sync server
+  const trackForSync = <T extends { id: string }>(collection: SyncCollection, previous: T[], next: T[]) => {
+    if (!syncConnection) return;
+    const { changed, removed } = diffCollection(previous, next);
+    const { records, deleted } = remoteAppliedRef.current;
+    const ids = [
+      ...changed.filter(item => !records.has(item)).map(item => item.id),
+      ...removed.filter(id => !deleted.delete(recordKey(collection, id)))
+    ];
+    if (ids.length > 0) setSyncState(prev => markChanged(prev, collection, ids));
+  };
+
+  // Appends entries for local edits; bookings just taken from the sync server aren't logged
+  const logActivity = (previous: Booking[], next: Booking[]) => {
+    const undone = pendingActivityRef.current;
+    if (!undone) return;
+    pendingActivityRef.current = null;
+    const { records } = remoteAppliedRef.current;
+    const entries = createActivityEntries(previous, next.filter(b => !records.has(b)), currentUser, undone);
+    if (entries.length === 0) return;
+    setActivity(prev => [...prev, ...entries]);
+    storeRef.current?.activity.putMany(entries).catch(reportSaveError);
+    const undoable = entries.filter(e => e.action !== 'CREATED' && e.action !== 'EXPIRED' && e.action !== 'UNDONE');
+    setUndoBatch(undoable);
+    setUndoError(null);
+  };
+
+  // Save changed records on change
   useEffect(() => {
-    if (!loading) {
-      localStorage.setItem('scube_bookings', JSON.stringify(bookings));
+    if (!loading && storeRef.current && savedRef.current) {
+      logActivity(savedRef.current.bookings, bookings);
+      trackForSync('bookings', savedRef.current.bookings, bookings);
+      syncCollection(storeRef.current.bookings, savedRef.current.bookings, bookings).catch(reportSaveError);
+      savedRef.current.bookings = bookings;
     }
   }, [bookings, loading]);
 
+  useEffect(() => {
+    if (!loading && storeRef.current && savedRef.current) {
+      trackForSync('rooms', savedRef.current.rooms, rooms);
+      syncCollection(storeRef.current.rooms, savedRef.current.rooms, rooms).catch(reportSaveError);
+      savedRef.current.rooms = rooms;
+    }
+  }, [rooms, loading]);
+
+  useEffect(() => {
+    if (!loading && storeRef.current && savedRef.current) {
+      trackForSync('staff', savedRef.current.staff, staff);
+      syncCollection(storeRef.current.staff, savedRef.current.staff, staff).catch(reportSaveError);
+      savedRef.current.staff = staff;
+    }
+  }, [staff, loading]);
+
+  useEffect(() => {
+    if (!loading && storeRef.current && savedRef.current) {
+      trackForSync('clients', savedRef.current.clients, clients);
+      syncCollection(storeRef.current.clients, savedRef.current.clients, clients).catch(reportSaveError);
+      savedRef.current.clients = clients;
+    }
+  }, [clients, loading]);
+
+  useEffect(() => {
+    if (!loading && storeRef.current) {
+      storeRef.current.meta.set(STUDIO_CALENDAR_KEY, studioCalendar).catch(reportSaveError);
+    }
+  }, [studioCalendar, loading]);
+
+  useEffect(() => {
+    if (!loading && storeRef.current) {
+      storeRef.current.meta.set(RATE_CARD_KEY, rateCard).catch(reportSaveError);
+    }
+  }, [rateCard, loading]);
+
+  useEffect(() => {
+    if (!loading && storeRef.current) {
+      storeRef.current.meta.set(AI_QUEUE_KEY, aiQueue).catch(reportSaveError);
+    }
+  }, [aiQueue, loading]);
+
+  useEffect(() => {
+    if (!loading && storeRef.current) {
+      storeRef.current.meta.set(WAITLIST_KEY, waitlist).catch(reportSaveError);
+    }
+  }, [waitlist, loading]);
+
+  useEffect(() => {
+    syncStateRef.current = syncState;
+    if (!loading && storeRef.current) {
+      storeRef.current.meta.set(SYNC_STATE_KEY, syncState).catch(reportSaveError);
+    }
+  }, [syncState, loading]);
+
+  useEffect(() => {
+    if (!loading && storeRef.current) {
+      storeRef.current.meta.set(USERS_KEY, accounts).catch(reportSaveError);
+    }
+  }, [accounts, loading]);
+
+  // Sync on a timer, and shortly after local edits
+  useEffect(() => {
+    if (!syncConnection || !isOnline) return;
+    setSyncRequest(n => n + 1);
+    const timer = setInterval(() => setSyncRequest(n => n + 1), SYNC_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [syncConnection, isOnline]);
+
+  useEffect(() => {
+    if (Object.keys(syncState.outbox).length === 0) return;
+    const timer = setTimeout(() => setSyncRequest(n => n + 1), 2000);
+    return () => clearTimeout(timer);
+  }, [syncState.outbox]);
+
+  useEffect(() => {
+    if (loading || !syncConnection || !isOnline || syncRequest === 0 || isSyncing) return;
+    setIsSyncing(true);
+    runSyncRound(syncConnection, { bookings, clients, rooms, staff, invoices, payments }, syncState)
+      .then(result => {
+        applySyncUpdates(getApplicableUpdates(syncStateRef.current, result), true);
+        setSyncState(prev => completeSyncRound(prev, result));
+        setSyncError(null);
+      })
+      .catch(e => {
+        console.error('Sync failed:', e);
+        setSyncError(e instanceof Error ? `Sync failed: ${e.message}` : 'Sync failed.');
+      })
+      .finally(() => setIsSyncing(false));
+  }, [syncRequest]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), HOLD_CHECK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Holds past their deadline are released as soon as the app notices
+  useEffect(() => {
+    if (!loading && bookings.some(b => isHoldLapsed(b, now))) {
+      offerFreedSlots(bookings, releaseLapsedHolds(bookings, now));
+      updateBookings(prev => releaseLapsedHolds(prev, now));
+    }
+  }, [now, bookings, loading]);
+
+  // The undo bar only offers the latest change for a short while
+  useEffect(() => {
+    if (undoBatch.length === 0) return;
+    const timer = setTimeout(() => setUndoBatch([]), UNDO_BAR_MS);
+    return () => clearTimeout(timer);
+  }, [undoBatch]);
+
+  useEffect(() => {
+    const goOnline = () => setIsOnline(true);
+    const goOffline = () => setIsOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, []);
+
+  // Work through queued AI requests one at a time whenever we're online
+  useEffect(() => {
+    const next = aiQueue.find(r => r.status === 'PENDING');
+    if (!isOnline || !next || processingQueueRef.current) return;
+    processingQueueRef.current = true;
+    runQueuedRequest(next).then(processed => {
+      processingQueueRef.current = false;
+      // Still pending means the connection dropped; wait for the next online event
+      if (processed !== next) setAiQueue(prev => prev.map(r => (r.id === processed.id ? processed : r)));
+    });
+  }, [aiQueue, isOnline]);
+
   // AI Summary effect
   useEffect(() => {
-      if (viewMode === ViewMode.DASHBOARD && bookings.length > 0) {
+      if (viewMode === ViewMode.DASHBOARD && currentUser && bookings.length > 0 && isOnline) {
           // Only summarize today/tomorrow for dashboard
           const today = new Date().toISOString().split('T')[0];
           const relevant = bookings.filter(b => b.date >= today && b.status === BookingStatus.CONFIRMED);
           generateSessionSummary(relevant).then(setSummary);
       }
-  }, [viewMode, bookings]);
+  }, [viewMode, currentUser, bookings, isOnline]);
 
+  // Every booking change goes through here so changed records get a fresh updatedAt
+  // and land in the activity log
+  const updateBookings = (update: (prev: Booking[]) => Booking[], undone: Record<string, string> = {}) => {
+    pendingActivityRef.current = { ...pendingActivityRef.current, ...undone };
+    setBookings(prev => stampChanges(prev, update(prev)));
+  };
+
+  // Slots freed without a single cancellation, such as a whole series or lapsed holds
+  const offerFreedSlots = (before: Booking[], after: Booking[]) => {
+    const today = new Date().toISOString().split('T')[0];
+    const matches = findFreedSlotMatches(getActiveWaitlist(waitlist, today), before, after);
+    if (matches.length > 0) setWaitlistMatches(matches);
+  };
+
+  // Room and staff clashes; statuses that don't hold a slot never clash
+  const describeClash = (candidate: Booking, others: Booking[]): string | null => {
+    const conflict = findOverlap(candidate, others);
+    if (conflict) return `the room is ${describeSlotHolder(conflict)} at ${conflict.startTime} on ${conflict.date}`;
+    const staffConflict = findStaffConflict(candidate, others);
+    if (staffConflict) return `the engineer is on ${staffConflict.booking.clientName}'s session at ${staffConflict.booking.startTime}`;
+    return null;
+  };
+
+  // Puts bookings back as they were before the given changes, if nothing has touched them since
+  const handleUndo = (entries: ActivityEntry[]): string | null => {
+    const targets = entries.filter(e => canUndo(e, activity, bookings));
+    if (targets.length === 0) return '⚠ These bookings have changed since, so this can no longer be undone.';
+    const restored = targets.map(e => ({ ...e.before! }));
+    const current = (id: string) => bookings.find(b => b.id === id)!;
+    if (!restored.every(b => canSaveBookingChange(currentUser, current(b.id), b))) {
+      return "⚠ Your login can't make this change.";
+    }
+
+    const restoredIds = restored.map(b => b.id);
+    const others = bookings.filter(b => !restoredIds.includes(b.id));
+    for (const candidate of restored) {
+      const clash = describeClash(candidate, others);
+      if (clash) return `⚠ Can't undo: ${clash}.`;
+    }
+
+    const byId = new Map(restored.map(b => [b.id, b]));
+    updateBookings(
+      prev => prev.map(b => byId.get(b.id) || b),
+      Object.fromEntries(targets.map(e => [e.bookingId, e.id]))
+    );
+    return null;
+  };
+
+  const handleUndoLast = () => {
+    const error = handleUndo(undoBatch);
+    setUndoError(error);
+    if (!error) setUndoBatch([]);
+  };
+
+  const allowed = (permission: Permission) => can(currentUser, permission);
+
+  const handleLogin = (account: UserAccount) => {
+    setSessionUserId(account.id);
+    setCurrentUser(account);
+    setViewMode(getHomeView(account));
+  };
+
+  const handleCreateOwner = (account: UserAccount) => {
+    setAccounts([account]);
+    handleLogin(account);
+  };
+
+  const handleLogout = () => {
+    setSessionUserId(null);
+    setCurrentUser(null);
+    setUndoBatch([]);
+    setWaitlistMatches([]);
+    handleCloseForm();
+  };
+
+  const handleUpdateAccounts = (updated: UserAccount[]) => {
+    const self = updated.find(a => a.id === currentUser?.id) || null;
+    setAccounts(updated);
+    setCurrentUser(self);
+    if (!canOpenView(self, viewMode)) setViewMode(getHomeView(self));
+  };
+
+  // The views hide what a role can't do; these checks also cover every other way in
   const handleAddBooking = (newBooking: Booking) => {
-    setBookings(prev => [...prev, newBooking]);
+    if (!allowed('bookings.create') || !canSaveOverrides(currentUser, undefined, newBooking)) return;
+    updateBookings(prev => [...prev, newBooking]);
+    if (bookingFromWaitlistId) handleRemoveFromWaitlist(bookingFromWaitlistId);
   };
 
-  const handleStatusChange = (id: string, status: BookingStatus) => {
-    setBookings(prev => prev.map(b => 
-      b.id === id ? { ...b, status } : b
+  const handleStatusChange = (id: string, status: BookingStatus): string | null => {
+    const booking = bookings.find(b => b.id === id);
+    if (!booking || !canChangeStatus(currentUser, booking, status)) return null;
+    if (!canTransition(booking.status, status)) {
+      return `⚠ A ${BOOKING_STATUSES[booking.status].label.toLowerCase()} booking can't be changed to ${BOOKING_STATUSES[status].label.toLowerCase()}.`;
+    }
+    // Taking back a freed slot needs it to still be free
+    const changed = { ...booking, status };
+    const others = bookings.filter(b => b.id !== id);
+    if (!holdsSlot(booking) && holdsSlot(changed)) {
+      const clash = describeClash(changed, others);
+      if (clash) return `⚠ The slot has been taken since: ${clash}.`;
+    }
+    // A cancellation that frees the slot is offered to waiting clients who fit it
+    if (holdsSlot(booking) && !holdsSlot(changed)) {
+      const today = new Date().toISOString().split('T')[0];
+      setWaitlistMatches(findWaitlistMatches(getActiveWaitlist(waitlist, today), changed, [...others, changed]));
+    }
+    // Checking in on the day records when the session really started, for billing
+    const checkedInAt = status === BookingStatus.IN_PROGRESS && booking.date === new Date().toISOString().split('T')[0]
+      ? { actualStartTime: new Date().toTimeString().slice(0, 5) }
+      : {};
+    updateBookings(prev => prev.map(b => 
+      b.id === id ? { ...b, status, ...checkedInAt } : b
     ));
+    return null;
+  };
+
+  const handleAddToWaitlist = (entry: WaitlistEntry) => {
+    if (!allowed('bookings.create')) return;
+    setWaitlist(prev => [...prev, entry]);
+  };
+
+  const handleRemoveFromWaitlist = (id: string) => {
+    setWaitlist(prev => prev.filter(e => e.id !== id));
+    setWaitlistMatches(prev => prev.filter(m => m.entry.id !== id));
+  };
+
+  const handleWaitlistOffered = (id: string) => {
+    setWaitlist(prev => prev.map(e => (e.id === id ? { ...e, offeredAt: Date.now() } : e)));
+  };
+
+  // Opens the booking form for the waiting client, in the freed slot when there is one
+  const handleBookFromWaitlist = (entry: WaitlistEntry, slot?: WaitlistMatch['slot']) => {
+    handleCreateBooking({
+      clientId: entry.clientId,
+      clientName: entry.clientName,
+      phoneNumber: entry.phoneNumber,
+      type: entry.type,
+      date: slot?.date || entry.date,
+      startTime: slot?.startTime || entry.earliest,
+      durationHours: entry.durationHours,
+      roomId: slot?.roomId || entry.roomId
+    });
+    setBookingFromWaitlistId(entry.id);
   };
 
-  const handleComplete = (id: string, endTime: string) => {
-    setBookings(prev => prev.map(b => 
-      b.id === id ? { ...b, status: BookingStatus.COMPLETED, actualEndTime: endTime } : b
+  const handleComplete = (id: string, endTime: string, endDate: string, startTime: string) => {
+    const booking = bookings.find(b => b.id === id);
+    if (!booking || !canCompleteBooking(currentUser, booking) || !canTransition(booking.status, BookingStatus.COMPLETED)) return;
+    updateBookings(prev => prev.map(b => 
+      b.id === id ? { ...b, status: BookingStatus.COMPLETED, actualStartTime: startTime, actualEndTime: endTime, actualEndDate: endDate } : b
     ));
   };
 
   const handleUpdateBooking = (updatedBooking: Booking) => {
-    setBookings(prev => prev.map(b => 
-      b.id === updatedBooking.id ? updatedBooking : b
+    const existing = bookings.find(b => b.id === updatedBooking.id);
+    if (!existing || !canSaveBookingChange(currentUser, existing, updatedBooking)) return;
+    updateBookings(prev => prev.map(b => 
+      b.id === updatedBooking.id ? recordReschedule(b, updatedBooking) : b
+    ));
+  };
+
+  // Issued invoices and credit notes are only ever added to the register
+  const addInvoices = (records: InvoiceRecord[]) => {
+    if (records.length === 0) return;
+    setInvoices(prev => [...prev, ...records]);
+    storeRef.current?.invoices.putMany(records).catch(reportSaveError);
+    if (syncConnection) setSyncState(prev => markChanged(prev, 'invoices', records.map(r => r.id)));
+  };
+
+  const handleAllocateNumber: NumberAllocator = (prefix, at, issued) => allocateNumber(syncConnection, prefix, at, issued);
+
+  // Everything that could refuse an invoice is checked before its number is reserved. The
+  // booking then takes only the new invoice details, on top of whatever it holds by now.
+  const handleIssueInvoice: InvoiceIssuer = async (bookingId, type, at, build) => {
+    if (!allowed('invoices.issue')) return { error: "⚠ Your login can't issue invoices." };
+    if (!bookings.some(b => b.id === bookingId)) return { error: '⚠ This booking has been removed. Nothing was issued.' };
+    const numbering = await allocateDocumentNumber(handleAllocateNumber, invoices, type, at).catch(e => {
+      console.error('Failed to reserve an invoice number:', e);
+      return null;
+    });
+    if (!numbering) return { error: "⚠ Couldn't get a number from the sync server, so nothing was issued. Check the connection and try again." };
+    const record = build(numbering);
+    addInvoices([record]);
+    updateBookings(prev => prev.map(b => {
+      if (b.id !== bookingId) return b;
+      if (record.type === 'INVOICE') return { ...b, invoiceDetails: { ...record.details, invoiceId: record.id, invoiceNumber: record.number } };
+      return b.invoiceDetails?.invoiceId === record.cancelsId ? { ...b, invoiceDetails: undefined } : b;
+    }));
+    return { record };
+  };
+
+  // The ledger is append-only too: money given back is recorded as a refund
+  const addPayments = (entries: Payment[]) => {
+    if (entries.length === 0) return;
+    setPayments(prev => [...prev, ...entries]);
+    storeRef.current?.payments.putMany(entries).catch(reportSaveError);
+    if (syncConnection) setSyncState(prev => markChanged(prev, 'payments', entries.map(p => p.id)));
+  };
+
+  const handleRecordPayment: PaymentRecorder = async (bookingId, build) => {
+    if (!allowed('payments.record')) return { error: "⚠ Your login can't record payments." };
+    if (!bookings.some(b => b.id === bookingId)) return { error: '⚠ This booking has been removed. Nothing was recorded.' };
+    const numbering = await allocateReceiptNumber(handleAllocateNumber, payments).catch(e => {
+      console.error('Failed to reserve a receipt number:', e);
+      return null;
+    });
+    if (!numbering) return { error: "⚠ Couldn't get a receipt number from the sync server, so nothing was recorded. Check the connection and try again." };
+    const payment = build(numbering);
+    addPayments([payment]);
+    return { record: payment };
+  };
+
+  const handleEditBooking = (booking: Booking) => {
+    setEditingBooking(booking);
+    setShowAddModal(true);
+  };
+
+  const handleCreateBooking = (values: Partial<Booking>) => {
+    setDraftValues(values);
+    setShowAddModal(true);
+  };
+
+  const handleCloseForm = () => {
+    setShowAddModal(false);
+    setEditingBooking(null);
+    setDraftValues(undefined);
+    setAiDraft(undefined);
+    setBookingFromWaitlistId(null);
+  };
+
+  // Remote updates are remembered so they aren't queued as local edits
+  const applySyncUpdates = (updates: RemoteUpdate[], fromServer: boolean) => {
+    if (updates.length === 0) return;
+    if (fromServer) {
+      const { records, deleted } = remoteAppliedRef.current;
+      updates
+        .filter(u => !u.requeue)
+        .forEach(u => (u.record ? records.add(u.record) : deleted.add(recordKey(u.collection, u.id))));
+    }
+    const of = (collection: SyncCollection) => updates.filter(u => u.collection === collection);
+    setBookings(prev => applyRemoteUpdates(prev, of('bookings')));
+    setClients(prev => applyRemoteUpdates(prev, of('clients')));
+    setRooms(prev => applyRemoteUpdates(prev, of('rooms')));
+    setStaff(prev => applyRemoteUpdates(prev, of('staff')));
+    // The register and the ledger only grow, so removals are never applied to them
+    const issued = of('invoices').filter(u => u.record);
+    if (issued.length > 0) {
+      setInvoices(prev => applyRemoteUpdates(prev, issued));
+      storeRef.current?.invoices.putMany(issued.map(u => u.record as InvoiceRecord)).catch(reportSaveError);
+    }
+    const received = of('payments').filter(u => u.record);
+    if (received.length > 0) {
+      setPayments(prev => applyRemoteUpdates(prev, received));
+      storeRef.current?.payments.putMany(received.map(u => u.record as Payment)).catch(reportSaveError);
+    }
+  };
+
+  const handleConnectSync = (serverUrl: string, token: string, mode: SyncStartMode) => {
+    const connection: SyncConnection = { serverUrl, token, deviceId: crypto.randomUUID() };
+    if (mode === 'UPLOAD') {
+      setSyncState(markAllChanged(createSyncState(), { bookings, clients, rooms, staff, invoices, payments }));
+    } else {
+      // Clear this device without queuing the deletes; the first round downloads everything.
+      // Issued invoices and payments are kept and uploaded, since the register and ledger are never cleared
+      const { deleted } = remoteAppliedRef.current;
+      const clear = (collection: SyncCollection, items: { id: string }[]) => items.forEach(i => deleted.add(recordKey(collection, i.id)));
+      clear('bookings', bookings);
+      clear('clients', clients);
+      clear('rooms', rooms);
+      clear('staff', staff);
+      setBookings([]);
+      setClients([]);
+      setRooms([]);
+      setStaff([]);
+      setSyncState(markChanged(markChanged(createSyncState(), 'invoices', invoices.map(r => r.id)), 'payments', payments.map(p => p.id)));
+    }
+    setSyncConnection(connection);
+    setSyncError(null);
+    storeRef.current?.meta.set(SYNC_CONNECTION_KEY, connection).catch(reportSaveError);
+  };
+
+  const handleDisconnectSync = () => {
+    setSyncConnection(null);
+    setSyncState(createSyncState());
+    setSyncError(null);
+    storeRef.current?.meta.set(SYNC_CONNECTION_KEY, null).catch(reportSaveError);
+  };
+
+  // The chosen copy is saved as a new local edit, so it goes to the other devices too
+  const handleResolveSyncConflict = (conflict: SyncConflict, use: 'LOCAL' | 'OTHER') => {
+    const record = use === 'LOCAL' ? conflict.local : conflict.other;
+    applySyncUpdates([{ collection: conflict.collection, id: conflict.recordId, record: record && { ...record } }], false);
+    handleDismissSyncConflict(conflict.id);
+  };
+
+  const handleDismissSyncConflict = (id: string) => {
+    setSyncState(prev => ({ ...prev, conflicts: prev.conflicts.filter(c => c.id !== id) }));
+  };
+
+  const handleQueueAiRequest = (request: QueuedAiRequest) => {
+    setAiQueue(prev => [...prev, request]);
+  };
+
+  const handleDismissAiRequest = (id: string) => {
+    setAiQueue(prev => prev.filter(r => r.id !== id));
+  };
+
+  const handleOpenAiDraft = (request: QueuedAiRequest) => {
+    setEditingBooking(null);
+    setAiDraft(request.result);
+    setShowAddModal(true);
+    handleDismissAiRequest(request.id);
+  };
+
+  // Month view drops keep the start time; timeline drops also pick the time and room
+  const handleRescheduleBooking = (id: string, date: string, startTime?: string, roomId?: string): string | null => {
+    const booking = bookings.find(b => b.id === id);
+    if (!booking || !allowed('bookings.edit')) return null;
+    if (!isOpen(booking.status)) return `⚠ Only upcoming sessions can be moved.`;
+
+    const candidate = { 
+      ...booking, 
+      date, 
+      startTime: startTime || booking.startTime, 
+      roomId: roomId || booking.roomId 
+    };
+    const clash = describeClash(candidate, bookings.filter(b => b.id !== id));
+    if (clash) return `⚠ Can't move: ${clash}.`;
+    const violations = findRuleViolations(candidate, studioCalendar);
+    if (violations.length > 0) {
+      return `⚠ Can't move: ${violations[0]}.${allowed('bookings.override') ? ' Edit the booking to override.' : ''}`;
+    }
+
+    handleUpdateBooking(candidate);
+    return null;
+  };
+
+  const handleUpdateSeries = (booking: Booking, scope: SeriesScope, changes: Partial<Booking>): string | null => {
+    if (!allowed('bookings.edit')) return "⚠ Your login can't change bookings.";
+    const targets = getSeriesTargets(booking, scope, bookings);
+    const targetIds = targets.map(t => t.id);
+
+    if (blocksSlot(changes.status)) {
+      const others = bookings.filter(b => !targetIds.includes(b.id));
+      const clashes = targets.filter(t => {
+        const candidate = { ...t, ...changes };
+        return findOverlap(candidate, others) || findStaffConflict(candidate, others) ||
+          findRuleViolations(candidate, studioCalendar).length > 0;
+      });
+      if (clashes.length > 0) {
+        return `⚠ Clashes on ${clashes.map(c => c.date).join(', ')}. Nothing was changed.`;
+      }
+    }
+
+    const next = bookings.map(b => targetIds.includes(b.id) ? recordReschedule(b, { ...b, ...changes }) : b);
+    offerFreedSlots(bookings, next);
+    updateBookings(() => next);
+    return null;
+  };
+
+  const handleAddClient = (client: Client) => {
+    if (!allowed('clients.manage')) return;
+    setClients(prev => [...prev, client]);
+  };
+
+  const handleUpdateClient = (updatedClient: Client) => {
+    if (!allowed('clients.manage')) return;
+    setClients(prev => prev.map(c => c.id === updatedClient.id ? updatedClient : c));
+    updateBookings(prev => prev.map(b => 
+      b.clientId === updatedClient.id && b.clientName !== updatedClient.name ? { ...b, clientName: updatedClient.name } : b
     ));
   };
 
+  const handleMergeClients = (primaryId: string, duplicateIds: string[]) => {
+    if (!allowed('clients.manage')) return;
+    const merged = mergeClients(primaryId, duplicateIds, clients, bookings);
+    setClients(merged.clients);
+    updateBookings(() => merged.bookings);
+  };
+
+  // Imported rows only carry a name and phone, so match them to the client directory
+  const handleImportBookings = (imported: Booking[]) => {
+    if (!allowed('data.import')) return;
+    const linked = linkBookingsToClients(imported, clients);
+    setClients(linked.clients);
+    updateBookings(prev => [...prev, ...linked.bookings]);
+  };
+
+  // Restored data replaces state; the repository sync then writes only the differences.
+  // Issued invoices and payments are only ever added to.
+  const handleRestore = (data: StudioData, ledgers: BackupLedgers) => {
+    if (!allowed('settings.manage')) return;
+    addInvoices(ledgers.invoices);
+    addPayments(ledgers.payments);
+    setBookings(data.bookings);
+    setClients(data.clients);
+    setRooms(data.rooms);
+    setStaff(data.staff);
+    setStudioCalendar(data.studioCalendar);
+    setRateCard(data.rateCard);
+  };
+
   const getTodaysBookings = () => {
     const today = new Date().toISOString().split('T')[0];
-    return bookings
-      .filter(b => b.date === today)
-      .sort((a, b) => a.startTime.localeCompare(b.startTime));
+    return getBookingsOnDate(bookings, today)
+      .filter(b => b.status !== BookingStatus.RESCHEDULED)
+      .sort((a, b) => (a.date + a.startTime).localeCompare(b.date + b.startTime));
   };
 
   const getUpcomingBookings = () => {
     const today = new Date().toISOString().split('T')[0];
     return bookings
-      .filter(b => b.date >= today)
+      .filter(b => b.date >= today && b.status !== BookingStatus.RESCHEDULED)
       .sort((a, b) => (a.date + a.startTime).localeCompare(b.date + b.startTime));
   };
 
+  // Sessions the client asked to move that haven't been given a new slot yet
+  const getBookingsNeedingSlot = () =>
+    bookings
+      .filter(b => b.status === BookingStatus.RESCHEDULED)
+      .sort((a, b) => (a.date + a.startTime).localeCompare(b.date + b.startTime));
+
+  if (loading) {
+    return storageError ? (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <div className="p-3 rounded-lg text-sm bg-red-500/20 border border-red-500/50 text-red-200">⚠ {storageError}</div>
+      </div>
+    ) : null;
+  }
+
+  if (!currentUser) {
+    return <LoginScreen accounts={accounts} onLogin={handleLogin} onCreateOwner={handleCreateOwner} />;
+  }
+
+  const visibleBookings = getVisibleBookings(currentUser, bookings);
+
   return (
+    <SessionContext.Provider value={currentUser}>
     <div className="min-h-screen pb-20 md:pb-0 font-sans selection:bg-purple-500/30">
       
       {/* Navbar */}
@@ -90,37 +763,94 @@ const App: React.FC = () => {
             S CUBE <span className="text-purple-400">STUDIOZ</span>
           </span>
         </div>
-        <button 
-          onClick={() => setShowAddModal(true)}
-          className="bg-purple-600 hover:bg-purple-500 text-white px-4 py-2 rounded-full flex items-center gap-2 text-sm font-medium transition-all shadow-[0_0_15px_rgba(124,58,237,0.5)]"
-        >
-          <Plus size={18} /> <span className="hidden md:inline">New Booking</span>
-        </button>
+        <div className="flex items-center gap-3">
+          <OfflineStatus
+            isOnline={isOnline}
+            queue={allowed('bookings.create') ? aiQueue : []}
+            onOpenDraft={handleOpenAiDraft}
+            onDismiss={handleDismissAiRequest}
+          />
+          {allowed('bookings.create') && (
+            <button 
+              onClick={() => setShowAddModal(true)}
+              className="bg-purple-600 hover:bg-purple-500 text-white px-4 py-2 rounded-full flex items-center gap-2 text-sm font-medium transition-all shadow-[0_0_15px_rgba(124,58,237,0.5)]"
+            >
+              <Plus size={18} /> <span className="hidden md:inline">New Booking</span>
+            </button>
+          )}
+          <div className="hidden md:block text-right leading-tight">
+            <p className="text-sm text-white">{currentUser.name}</p>
+            <p className="text-[10px] text-gray-400 uppercase">{ROLE_LABELS[currentUser.role]}</p>
+          </div>
+          <button
+            onClick={handleLogout}
+            className="p-2 rounded-full bg-white/5 hover:bg-white/10 border border-white/10 text-gray-300 transition-colors"
+            title={`Log out ${currentUser.name}`}
+          >
+            <LogOut size={18} />
+          </button>
+        </div>
       </nav>
 
       {/* Main Layout */}
       <main className="pt-24 px-4 md:px-8 max-w-7xl mx-auto">
         
+        {storageError && (
+          <div className="mb-6 p-3 rounded-lg text-sm bg-red-500/20 border border-red-500/50 text-red-200">
+            ⚠ {storageError}
+          </div>
+        )}
+
         {/* View Navigation (Tabs) */}
         <div className="flex gap-4 mb-8 overflow-x-auto scrollbar-hide pb-2">
-          <button 
-            onClick={() => setViewMode(ViewMode.DASHBOARD)}
-            className={`flex items-center gap-2 px-5 py-2.5 rounded-xl transition-all whitespace-nowrap ${viewMode === ViewMode.DASHBOARD ? 'bg-white text-black font-bold' : 'glass-panel text-gray-300 hover:text-white'}`}
-          >
-            <LayoutDashboard size={18} /> Dashboard
-          </button>
-          <button 
-             onClick={() => setViewMode(ViewMode.CALENDAR)}
-             className={`flex items-center gap-2 px-5 py-2.5 rounded-xl transition-all whitespace-nowrap ${viewMode === ViewMode.CALENDAR ? 'bg-white text-black font-bold' : 'glass-panel text-gray-300 hover:text-white'}`}
-          >
-            <Calendar size={18} /> Calendar
-          </button>
-          <button 
-             onClick={() => setViewMode(ViewMode.REPORTS)}
-             className={`flex items-center gap-2 px-5 py-2.5 rounded-xl transition-all whitespace-nowrap ${viewMode === ViewMode.REPORTS ? 'bg-white text-black font-bold' : 'glass-panel text-gray-300 hover:text-white'}`}
-          >
-            <FileBarChart size={18} /> Reports
-          </button>
+          {canOpenView(currentUser, ViewMode.DASHBOARD) && (
+            <button 
+              onClick={() => setViewMode(ViewMode.DASHBOARD)}
+              className={`flex items-center gap-2 px-5 py-2.5 rounded-xl transition-all whitespace-nowrap ${viewMode === ViewMode.DASHBOARD ? 'bg-white text-black font-bold' : 'glass-panel text-gray-300 hover:text-white'}`}
+            >
+              <LayoutDashboard size={18} /> Dashboard
+            </button>
+          )}
+          {canOpenView(currentUser, ViewMode.CALENDAR) && (
+            <button 
+               onClick={() => setViewMode(ViewMode.CALENDAR)}
+               className={`flex items-center gap-2 px-5 py-2.5 rounded-xl transition-all whitespace-nowrap ${viewMode === ViewMode.CALENDAR ? 'bg-white text-black font-bold' : 'glass-panel text-gray-300 hover:text-white'}`}
+            >
+              <Calendar size={18} /> Calendar
+            </button>
+          )}
+          {canOpenView(currentUser, ViewMode.REPORTS) && (
+            <button 
+               onClick={() => setViewMode(ViewMode.REPORTS)}
+               className={`flex items-center gap-2 px-5 py-2.5 rounded-xl transition-all whitespace-nowrap ${viewMode === ViewMode.REPORTS ? 'bg-white text-black font-bold' : 'glass-panel text-gray-300 hover:text-white'}`}
+            >
+              <FileBarChart size={18} /> Reports
+            </button>
+          )}
+          {canOpenView(currentUser, ViewMode.CLIENTS) && (
+            <button 
+               onClick={() => setViewMode(ViewMode.CLIENTS)}
+               className={`flex items-center gap-2 px-5 py-2.5 rounded-xl transition-all whitespace-nowrap ${viewMode === ViewMode.CLIENTS ? 'bg-white text-black font-bold' : 'glass-panel text-gray-300 hover:text-white'}`}
+            >
+              <Users size={18} /> Clients
+            </button>
+          )}
+          {canOpenView(currentUser, ViewMode.STAFF) && (
+            <button 
+               onClick={() => setViewMode(ViewMode.STAFF)}
+               className={`flex items-center gap-2 px-5 py-2.5 rounded-xl transition-all whitespace-nowrap ${viewMode === ViewMode.STAFF ? 'bg-white text-black font-bold' : 'glass-panel text-gray-300 hover:text-white'}`}
+            >
+              <Headphones size={18} /> Staff
+            </button>
+          )}
+          {canOpenView(currentUser, ViewMode.SETTINGS) && (
+            <button 
+               onClick={() => setViewMode(ViewMode.SETTINGS)}
+               className={`flex items-center gap-2 px-5 py-2.5 rounded-xl transition-all whitespace-nowrap ${viewMode === ViewMode.SETTINGS ? 'bg-white text-black font-bold' : 'glass-panel text-gray-300 hover:text-white'}`}
+            >
+              <SettingsIcon size={18} /> Settings
+            </button>
+          )}
         </div>
 
         {/* Content Area */}
@@ -138,26 +868,87 @@ const App: React.FC = () => {
                   </div>
               )}
 
+              <HoldsPanel
+                holds={getExpiringHolds(bookings, HOLD_WARNING_MS, now)}
+                rooms={rooms}
+                now={now}
+                onStatusChange={handleStatusChange}
+              />
+
+              <WaitlistPanel
+                entries={getActiveWaitlist(waitlist, new Date().toISOString().split('T')[0])}
+                matches={waitlistMatches}
+                rooms={rooms}
+                onOffer={handleWaitlistOffered}
+                onBook={handleBookFromWaitlist}
+                onRemove={handleRemoveFromWaitlist}
+              />
+
               <div>
                 <h2 className="text-2xl font-bold text-white mb-4 flex items-center gap-2">
                   Today's Sessions <span className="text-sm font-normal text-gray-500 bg-white/5 px-2 py-1 rounded ml-2">{new Date().toISOString().split('T')[0]}</span>
                 </h2>
                 <BookingList 
                   bookings={getTodaysBookings()} 
+                  rooms={rooms}
+                  staff={staff}
                   onStatusChange={handleStatusChange} 
                   onComplete={handleComplete}
-                  onUpdateBooking={handleUpdateBooking}
+                  onIssueInvoice={handleIssueInvoice}
+                  rateCard={rateCard}
+                  clients={clients}
+                  invoices={invoices}
+                  payments={payments}
+                  onRecordPayment={handleRecordPayment}
+                  onUpdateSeries={handleUpdateSeries}
+                  onEditBooking={handleEditBooking}
+                  activity={activity}
+                  onUndo={handleUndo}
                 />
               </div>
               
+              {getBookingsNeedingSlot().length > 0 && (
+                <div>
+                  <h2 className="text-2xl font-bold text-white mb-4">Needs a New Slot</h2>
+                  <BookingList 
+                    bookings={getBookingsNeedingSlot()} 
+                    rooms={rooms}
+                    staff={staff}
+                    onStatusChange={handleStatusChange} 
+                    onComplete={handleComplete}
+                    onIssueInvoice={handleIssueInvoice}
+                    rateCard={rateCard}
+                    clients={clients}
+                    invoices={invoices}
+                    payments={payments}
+                    onRecordPayment={handleRecordPayment}
+                    onUpdateSeries={handleUpdateSeries}
+                    onEditBooking={handleEditBooking}
+                    activity={activity}
+                    onUndo={handleUndo}
+                  />
+                </div>
+              )}
+
               <div>
                 <h2 className="text-2xl font-bold text-white mb-4">Upcoming</h2>
                 <div className="opacity-80">
                   <BookingList 
                     bookings={getUpcomingBookings().filter(b => b.date !== new Date().toISOString().split('T')[0]).slice(0, 5)} 
+                    rooms={rooms}
+                    staff={staff}
                     onStatusChange={handleStatusChange} 
                     onComplete={handleComplete}
-                    onUpdateBooking={handleUpdateBooking}
+                    onIssueInvoice={handleIssueInvoice}
+                    rateCard={rateCard}
+                    clients={clients}
+                    invoices={invoices}
+                    payments={payments}
+                    onRecordPayment={handleRecordPayment}
+                    onUpdateSeries={handleUpdateSeries}
+                    onEditBooking={handleEditBooking}
+                    activity={activity}
+                    onUndo={handleUndo}
                   />
                 </div>
               </div>
@@ -167,45 +958,190 @@ const App: React.FC = () => {
           {viewMode === ViewMode.CALENDAR && (
             <CalendarView 
               bookings={bookings} 
+              rooms={rooms}
+              staff={staff}
+              onStatusChange={handleStatusChange}
+              onComplete={handleComplete}
+              onIssueInvoice={handleIssueInvoice}
+              rateCard={rateCard}
+              clients={clients}
+              invoices={invoices}
+              payments={payments}
+              onRecordPayment={handleRecordPayment}
+              onUpdateSeries={handleUpdateSeries}
+              onEditBooking={handleEditBooking}
+              studioCalendar={studioCalendar}
+              onRescheduleBooking={allowed('bookings.edit') ? handleRescheduleBooking : undefined}
+              onCreateBooking={allowed('bookings.create') ? handleCreateBooking : undefined}
+              activity={activity}
+              onUndo={handleUndo}
+            />
+          )}
+
+          {viewMode === ViewMode.CLIENTS && (
+            <ClientDirectory 
+              clients={clients}
+              bookings={bookings}
+              rooms={rooms}
+              staff={staff}
+              onUpdateClient={handleUpdateClient}
+              onMergeClients={handleMergeClients}
+              payments={payments}
+            />
+          )}
+
+          {viewMode === ViewMode.STAFF && (
+            <StaffSchedule 
+              bookings={visibleBookings} 
+              rooms={rooms}
+              staff={staff}
               onStatusChange={handleStatusChange}
               onComplete={handleComplete}
             />
           )}
 
           {viewMode === ViewMode.REPORTS && (
-            <Reports bookings={bookings} />
+            <div className="space-y-6">
+              <Reports bookings={bookings} rooms={rooms} staff={staff} onImportBookings={handleImportBookings} />
+              {allowed('revenue.view') && <InvoiceRegister invoices={invoices} />}
+            </div>
+          )}
+
+          {viewMode === ViewMode.SETTINGS && (
+            <Settings 
+              bookings={bookings} 
+              rooms={rooms} 
+              onUpdateRooms={setRooms} 
+              staff={staff}
+              onUpdateStaff={setStaff}
+              studioCalendar={studioCalendar}
+              onUpdateStudioCalendar={setStudioCalendar}
+            />
+          )}
+
+          {viewMode === ViewMode.SETTINGS && (
+            <div className="mt-6 space-y-6">
+              <SyncSettings
+                connection={syncConnection}
+                state={syncState}
+                isOnline={isOnline}
+                isSyncing={isSyncing}
+                syncError={syncError}
+                onConnect={handleConnectSync}
+                onDisconnect={handleDisconnectSync}
+                onSyncNow={() => setSyncRequest(n => n + 1)}
+                onResolveConflict={handleResolveSyncConflict}
+                onDismissConflict={handleDismissSyncConflict}
+              />
+              {allowed('invoices.issue') && (
+                <RateCardSettings
+                  rateCard={rateCard}
+                  clients={clients}
+                  onUpdateRateCard={setRateCard}
+                />
+              )}
+              <BackupRestore 
+                data={{ bookings, clients, rooms, staff, studioCalendar, rateCard, invoices, payments }}
+                onRestore={handleRestore}
+              />
+              {allowed('users.manage') && (
+                <UserAccounts
+                  accounts={accounts}
+                  staff={staff}
+                  currentUserId={currentUser.id}
+                  onUpdateAccounts={handleUpdateAccounts}
+                />
+              )}
+            </div>
           )}
         </div>
       </main>
 
       {/* AI Assistant Floating Button */}
-      <AskAI bookings={bookings} />
+      {allowed('bookings.viewAll') && (
+        <AskAI bookings={bookings} rooms={rooms} staff={staff} studioCalendar={studioCalendar} />
+      )}
+
+      {/* Waitlist Banner */}
+      {waitlistMatches.length > 0 && viewMode !== ViewMode.DASHBOARD && canOpenView(currentUser, ViewMode.DASHBOARD) && (
+        <div className="fixed top-20 left-1/2 -translate-x-1/2 z-50 bg-slate-900/95 border border-green-500/40 rounded-xl px-4 py-3 shadow-2xl flex items-center gap-3 text-sm animate-fadeIn max-w-[90vw]">
+          <span className="text-gray-200 truncate">
+            {waitlistMatches.length === 1
+              ? `${waitlistMatches[0].entry.clientName} is waiting for this slot`
+              : `${waitlistMatches.length} waiting clients fit this slot`}
+          </span>
+          <button onClick={() => setViewMode(ViewMode.DASHBOARD)} className="flex items-center gap-1 text-green-300 hover:text-green-200 font-semibold">
+            <ListOrdered size={14} /> View waitlist
+          </button>
+          <button onClick={() => setWaitlistMatches([])} className="text-gray-500 hover:text-white" title="Dismiss">
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
+      {/* Undo Bar */}
+      {undoBatch.length > 0 && allowed('activity.view') && (
+        <div className="fixed bottom-20 md:bottom-6 left-1/2 -translate-x-1/2 z-50 bg-slate-900/95 border border-white/10 rounded-xl px-4 py-3 shadow-2xl flex items-center gap-3 text-sm animate-fadeIn max-w-[90vw]">
+          <span className="text-gray-200 truncate">
+            {undoError || (undoBatch.length === 1
+              ? `${undoBatch[0].after.clientName}: ${describeActivity(undoBatch[0], allowed('revenue.view'))}`
+              : `${undoBatch.length} bookings changed`)}
+          </span>
+          {!undoError && (
+            <button onClick={handleUndoLast} className="flex items-center gap-1 text-amber-300 hover:text-amber-200 font-semibold">
+              <Undo2 size={14} /> Undo
+            </button>
+          )}
+          <button onClick={() => setUndoBatch([])} className="text-gray-500 hover:text-white" title="Dismiss">
+            <X size={14} />
+          </button>
+        </div>
+      )}
 
       {/* Mobile Navigation Bottom Bar */}
-      <div className="md:hidden fixed bottom-0 left-0 right-0 h-16 bg-black/80 backdrop-blur-xl border-t border-white/10 flex items-center justify-around px-4 z-40">
-        <button onClick={() => setViewMode(ViewMode.DASHBOARD)} className={`flex flex-col items-center gap-1 ${viewMode === ViewMode.DASHBOARD ? 'text-purple-400' : 'text-gray-500'}`}>
-          <LayoutDashboard size={20} />
-          <span className="text-[10px]">Home</span>
-        </button>
-        <button onClick={() => setShowAddModal(true)} className="flex flex-col items-center justify-center -mt-6 bg-purple-600 rounded-full w-12 h-12 text-white shadow-lg shadow-purple-600/40 border-4 border-black">
-          <Plus size={24} />
-        </button>
-        <button onClick={() => setViewMode(ViewMode.REPORTS)} className={`flex flex-col items-center gap-1 ${viewMode === ViewMode.REPORTS ? 'text-purple-400' : 'text-gray-500'}`}>
-          <FileBarChart size={20} />
-          <span className="text-[10px]">Report</span>
-        </button>
-      </div>
+      {allowed('bookings.viewAll') && (
+        <div className="md:hidden fixed bottom-0 left-0 right-0 h-16 bg-black/80 backdrop-blur-xl border-t border-white/10 flex items-center justify-around px-4 z-40">
+          <button onClick={() => setViewMode(ViewMode.DASHBOARD)} className={`flex flex-col items-center gap-1 ${viewMode === ViewMode.DASHBOARD ? 'text-purple-400' : 'text-gray-500'}`}>
+            <LayoutDashboard size={20} />
+            <span className="text-[10px]">Home</span>
+          </button>
+          {allowed('bookings.create') && (
+            <button onClick={() => setShowAddModal(true)} className="flex flex-col items-center justify-center -mt-6 bg-purple-600 rounded-full w-12 h-12 text-white shadow-lg shadow-purple-600/40 border-4 border-black">
+              <Plus size={24} />
+            </button>
+          )}
+          {canOpenView(currentUser, ViewMode.REPORTS) && (
+            <button onClick={() => setViewMode(ViewMode.REPORTS)} className={`flex flex-col items-center gap-1 ${viewMode === ViewMode.REPORTS ? 'text-purple-400' : 'text-gray-500'}`}>
+              <FileBarChart size={20} />
+              <span className="text-[10px]">Report</span>
+            </button>
+          )}
+        </div>
+      )}
 
       {/* Modals */}
       {showAddModal && (
         <BookingForm 
           existingBookings={bookings} 
+          rooms={rooms}
+          staff={staff}
+          clients={clients}
+          studioCalendar={studioCalendar}
+          onAddClient={handleAddClient}
           onAddBooking={handleAddBooking} 
-          onClose={() => setShowAddModal(false)} 
+          onUpdateBooking={handleUpdateBooking}
+          editingBooking={editingBooking}
+          initialValues={draftValues}
+          aiDraft={aiDraft}
+          isOnline={isOnline}
+          onQueueAiRequest={handleQueueAiRequest}
+          onAddToWaitlist={allowed('bookings.create') ? handleAddToWaitlist : undefined}
+          onClose={handleCloseForm} 
         />
       )}
 
     </div>
+    </SessionContext.Provider>
   );
 };
 
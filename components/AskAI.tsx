@@ -1,10 +1,13 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { MessageSquare, Mic, Send, X, Bot, Loader2, Square } from 'lucide-react';
-import { Booking } from '../types';
+import { Booking, Room, StaffMember, StudioCalendar } from '../types';
 import { askStudioAssistant } from '../services/geminiService';
 
 interface AskAIProps {
   bookings: Booking[];
+  rooms: Room[];
+  staff: StaffMember[];
+  studioCalendar: StudioCalendar;
 }
 
 interface Message {
@@ -14,7 +17,7 @@ interface Message {
   timestamp: number;
 }
 
-const AskAI: React.FC<AskAIProps> = ({ bookings }) => {
+const AskAI: React.FC<AskAIProps> = ({ bookings, rooms, staff, studioCalendar }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [inputText, setInputText] = useState('');
   const [messages, setMessages] = useState<Message[]>([
@@ -55,7 +58,7 @@ const AskAI: React.FC<AskAIProps> = ({ bookings }) => {
     setInputText('');
     setIsProcessing(true);
 
-    const response = await askStudioAssistant(userMsg.text, null, bookings);
+    const response = await askStudioAssistant(userMsg.text, null, bookings, rooms, staff, studioCalendar);
 
     setMessages(prev => [...prev, {
       id: (Date.now() + 1).toString(),
@@ -116,7 +119,7 @@ const AskAI: React.FC<AskAIProps> = ({ bookings }) => {
       reader.readAsDataURL(audioBlob);
       reader.onloadend = async () => {
         const base64String = (reader.result as string).split(',')[1];
-        const response = await askStudioAssistant(null, base64String, bookings);
+        const response = await askStudioAssistant(null, base64String, bookings, rooms, staff, studioCalendar);
         
         setMessages(prev => [...prev, {
           id: (Date.now() + 1).toString(),
@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import { Archive, Download, Upload, AlertCircle, GitMerge, RotateCcw } from 'lucide-react';
+import { Booking, Client, Room, StaffMember } from '../types';
+import { StudioData } from '../services/repository';
+import { BackupData, BackupFile, BackupLedgers, ConflictResolution, MergeConflict, applyMerge, downloadBackup, parseBackup, planLedgerRestore, planMerge } from '../services/backupService';
+
+interface BackupRestoreProps {
+  data: BackupData;
+  onRestore: (data: StudioData, ledgers: BackupLedgers) => void;
+}
+
+// One-line summary so the two sides of a conflict can be compared
+const describeRecord = (conflict: MergeConflict, record: { id: string }): string => {
+  switch (conflict.collection) {
+    case 'bookings': {
+      const b = record as Booking;
+      return `${b.clientName} • ${b.date} ${b.startTime} • ${b.durationHours}h • ${b.status}${b.invoiceDetails ? ` • Rs. ${b.invoiceDetails.totalAmount}` : ''}`;
+    }
+    case 'clients': {
+      const c = record as Client;
+      return `${c.name} • ${c.phoneNumbers.join(', ') || 'no phone'}`;
+    }
+    case 'rooms':
+      return (record as Room).name;
+    case 'staff': {
+      const s = record as StaffMember;
+      return `${s.name} • ${s.role}${s.active ? '' : ' (inactive)'}`;
+    }
+  }
+};
+
+const BackupRestore: React.FC<BackupRestoreProps> = ({ data, onRestore }) => {
+  const [backup, setBackup] = useState<BackupFile | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [mode, setMode] = useState<'CHOOSE' | 'MERGE'>('CHOOSE');
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+  const [message, setMessage] = useState<string | null>(null);
+
+  const plan = backup && mode === 'MERGE' ? planMerge(data, backup.data) : null;
+  const ledgerPlan = backup && planLedgerRestore(data, backup.data);
+
+  const describeLedgers = (): string => {
+    if (!ledgerPlan) return '';
+    const invoices = ledgerPlan.added.invoices.length;
+    const payments = ledgerPlan.added.payments.length;
+    return (invoices > 0 ? ` Added ${invoices} invoice${invoices === 1 ? '' : 's'} to the register.` : '')
+      + (payments > 0 ? ` Added ${payments} payment${payments === 1 ? '' : 's'} to the ledger.` : '')
+      + (ledgerPlan.skipped > 0 ? ` Skipped ${ledgerPlan.skipped} whose number is already used here.` : '');
+  };
+
+  const reset = () => {
+    setBackup(null);
+    setErrors([]);
+    setMode('CHOOSE');
+    setResolutions({});
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    reset();
+    setMessage(null);
+    const result = parseBackup(await file.text());
+    setErrors(result.errors);
+    setBackup(result.backup || null);
+  };
+
+  const handleReplace = () => {
+    if (!backup) return;
+    if (!window.confirm('Replace ALL current bookings, clients, rooms, staff and studio hours with this backup? Issued invoices and recorded payments are kept. This cannot be undone.')) return;
+    onRestore(backup.data, ledgerPlan!.added);
+    setMessage(`Restored ${backup.data.bookings.length} bookings from the backup.${describeLedgers()}`);
+    reset();
+  };
+
+  const handleMerge = () => {
+    if (!backup || !plan) return;
+    const unresolved = plan.conflicts.filter(c => !resolutions[c.key]).length;
+    if (unresolved > 0) return;
+    onRestore(applyMerge(data, backup.data, resolutions), ledgerPlan!.added);
+    setMessage(`Merged: ${plan.added} added, ${plan.conflicts.filter(c => resolutions[c.key] === 'BACKUP').length} replaced from the backup.${describeLedgers()}`);
+    reset();
+  };
+
+  const resolveAll = (resolution: ConflictResolution) => {
+    if (!plan) return;
+    setResolutions(Object.fromEntries(plan.conflicts.map(c => [c.key, resolution])));
+  };
+
+  return (
+    <div className="glass-panel p-6 rounded-xl space-y-4">
+      <h3 className="text-lg font-semibold flex items-center gap-2">
+        <Archive size={20} className="text-purple-400" /> Backup & Restore
+      </h3>
+      <p className="text-sm text-gray-400">
+        Download everything (bookings, invoices, payments, clients, rooms, staff and studio hours) as a file you can keep somewhere safe.
+      </p>
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => downloadBackup(data)}
+          className="bg-purple-600 hover:bg-purple-500 text-white px-4 py-2 rounded-lg transition-colors flex items-center gap-2 text-sm font-semibold"
+        >
+          <Download size={16} /> Download Backup
+        </button>
+        <label className="bg-white/5 hover:bg-white/10 border border-white/10 text-white px-4 py-2 rounded-lg transition-colors flex items-center gap-2 text-sm font-semibold cursor-pointer">
+          <Upload size={16} /> Restore from File
+          <input type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+        </label>
+      </div>
+
+      {message && (
+        <div className="p-3 rounded-lg text-sm bg-green-500/10 border border-green-500/30 text-green-300">{message}</div>
+      )}
+
+      {errors.length > 0 && (
+        <div className="p-3 rounded-lg text-sm bg-red-500/20 border border-red-500/50 text-red-200 space-y-1">
+          <p className="flex items-center gap-2 font-semibold"><AlertCircle size={16} /> This backup can't be restored:</p>
+          {errors.map((err, i) => <p key={i} className="text-xs">{err}</p>)}
+        </div>
+      )}
+
+      {backup && mode === 'CHOOSE' && (
+        <div className="border border-white/10 rounded-lg p-4 space-y-3">
+          <p className="text-sm text-white">
+            Backup from {new Date(backup.exportedAt).toLocaleString()}: {backup.data.bookings.length} bookings, {backup.data.clients.length} clients, {backup.data.rooms.length} rooms, {backup.data.staff.length} staff, {backup.data.invoices.length} issued invoices, {backup.data.payments.length} payments.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={handleReplace}
+              className="px-4 py-2 rounded-lg text-sm bg-red-500/10 hover:bg-red-500/20 text-red-300 border border-red-500/30 transition-colors flex items-center gap-2"
+            >
+              <RotateCcw size={16} /> Replace All
+            </button>
+            <button
+              onClick={() => setMode('MERGE')}
+              className="px-4 py-2 rounded-lg text-sm bg-indigo-500/10 hover:bg-indigo-500/20 text-indigo-300 border border-indigo-500/30 transition-colors flex items-center gap-2"
+            >
+              <GitMerge size={16} /> Merge
+            </button>
+            <button onClick={reset} className="px-4 py-2 rounded-lg text-sm text-gray-400 hover:text-white transition-colors">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {backup && plan && (
+        <div className="border border-white/10 rounded-lg p-4 space-y-3">
+          <p className="text-sm text-white">
+            {plan.added} new, {plan.unchanged} unchanged, {plan.conflicts.length} conflicting.
+          </p>
+          {plan.conflicts.length > 0 && (
+            <>
+              <div className="flex gap-2 text-xs">
+                <button onClick={() => resolveAll('CURRENT')} className="px-3 py-1 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 text-gray-300">Keep all current</button>
+                <button onClick={() => resolveAll('BACKUP')} className="px-3 py-1 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 text-gray-300">Use all from backup</button>
+              </div>
+              <div className="space-y-2 max-h-80 overflow-y-auto">
+                {plan.conflicts.map(c => (
+                  <div key={c.key} className="text-xs border border-white/10 rounded-lg p-2 space-y-1">
+                    <p className="text-gray-500 uppercase tracking-wider">{c.collection}</p>
+                    {(['CURRENT', 'BACKUP'] as ConflictResolution[]).map(side => (
+                      <label key={side} className="flex items-start gap-2 cursor-pointer">
+                        <input
+                          type="radio"
+                          name={c.key}
+                          checked={resolutions[c.key] === side}
+                          onChange={() => setResolutions(prev => ({ ...prev, [c.key]: side }))}
+                          className="accent-purple-500 mt-0.5"
+                        />
+                        <span className={side === 'CURRENT' ? 'text-gray-300' : 'text-indigo-300'}>
+                          {side === 'CURRENT' ? 'Current' : 'Backup'}: {describeRecord(c, side === 'CURRENT' ? c.current : c.incoming)}
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={handleMerge}
+              disabled={plan.conflicts.some(c => !resolutions[c.key])}
+              className="px-4 py-2 rounded-lg text-sm bg-purple-600 hover:bg-purple-500 text-white font-semibold transition-colors disabled:opacity-50"
+            >
+              Apply Merge
+            </button>
+            <button onClick={reset} className="px-4 py-2 rounded-lg text-sm text-gray-400 hover:text-white transition-colors">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BackupRestore;
@@ -1,28 +1,82 @@
-import React, { useState, useRef } from 'react';
-import { Plus, Sparkles, Loader2, X, Mic, Square } from 'lucide-react';
-import { Booking, BookingStatus } from '../types';
-import { parseBookingRequest, parseVoiceBookingRequest } from '../services/geminiService';
+import React, { useState, useRef, useEffect } from 'react';
+import { Plus, Sparkles, Loader2, X, Mic, Square, Repeat, CheckCircle, AlertCircle, Save, WifiOff, Hourglass, ListPlus } from 'lucide-react';
+import { Booking, BookingStatus, Client, RecurrenceFrequency, RecurrenceRule, Room, StaffMember, StaffRole, StudioCalendar, WaitlistEntry } from '../types';
+import { ExtractedBookingData, parseBookingRequest, parseVoiceBookingRequest } from '../services/geminiService';
+import { createClient, findExactClient, matchClient, searchClients } from '../services/clientService';
+import { DEFAULT_ROOM_ID, DURATION_STEP_HOURS, SESSION_TYPES, findOverlap, findStaffConflict, getBookingEnd, getRoom, getStaffMember, isSameSlot, isValidDuration, toDateTimeInput } from '../services/schedulingService';
+import { describeSlotHolder } from '../services/bookingStatusService';
+import { MAX_OCCURRENCES, PlannedOccurrence, isClash, planSeries } from '../services/recurrenceService';
+import { FreeSlot, suggestAlternatives } from '../services/availabilityService';
+import { addOverride, findRuleViolations } from '../services/studioCalendarService';
+import { QueuedAiRequest, queueTextRequest, queueVoiceRequest } from '../services/aiQueueService';
+import { createWaitlistEntry } from '../services/waitlistService';
+import { useCan, useCurrentUser } from './SessionContext';
 
 interface BookingFormProps {
   onAddBooking: (booking: Booking) => void;
+  onUpdateBooking: (booking: Booking) => void;
+  editingBooking?: Booking | null; // Opens the form in edit mode
+  initialValues?: Partial<Booking>; // Pre-fills a new booking, e.g. from a timeline slot
+  aiDraft?: ExtractedBookingData; // Result of a queued AI Quick Fill request
+  isOnline: boolean;
+  onQueueAiRequest: (request: QueuedAiRequest) => void;
   existingBookings: Booking[];
+  rooms: Room[];
+  staff: StaffMember[];
+  clients: Client[];
+  studioCalendar: StudioCalendar;
+  onAddClient: (client: Client) => void;
+  onAddToWaitlist?: (entry: WaitlistEntry) => void; // Offered when the room is taken
   onClose: () => void;
 }
 
-const BookingForm: React.FC<BookingFormProps> = ({ onAddBooking, existingBookings, onClose }) => {
-  const [formData, setFormData] = useState<Partial<Booking>>({
+const BookingForm: React.FC<BookingFormProps> = ({ onAddBooking, onUpdateBooking, editingBooking, initialValues, aiDraft, isOnline, onQueueAiRequest, existingBookings, rooms, staff, clients, studioCalendar, onAddClient, onAddToWaitlist, onClose }) => {
+  const allowed = useCan();
+  const currentUser = useCurrentUser();
+  const [formData, setFormData] = useState<Partial<Booking>>(editingBooking ? { ...editingBooking } : {
     clientName: '',
     phoneNumber: '',
+    roomId: rooms[0]?.id || DEFAULT_ROOM_ID,
     date: new Date().toISOString().split('T')[0],
     startTime: '10:00',
     durationHours: 2,
     type: 'Vocal Recording',
     status: BookingStatus.CONFIRMED,
+    ...initialValues
   });
   
+  // New bookings, holds and bookings waiting for a new slot can be saved as a hold or confirmed
+  const canChooseHold = !editingBooking || editingBooking.status === BookingStatus.TENTATIVE || editingBooking.status === BookingStatus.RESCHEDULED;
+  const chosenStatus = formData.status === BookingStatus.TENTATIVE ? BookingStatus.TENTATIVE : BookingStatus.CONFIRMED;
+  const status = canChooseHold ? chosenStatus : editingBooking!.status;
+
+  // The booking being edited must not clash with its own current slot
+  const otherBookings = editingBooking ? existingBookings.filter(b => b.id !== editingBooking.id) : existingBookings;
+
+  const engineers = staff.filter(s => s.active && s.role === StaffRole.ENGINEER);
+  const assistants = staff.filter(s => s.active && s.id !== formData.engineerId);
+
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const suggestions = showSuggestions && !formData.clientId ? searchClients(formData.clientName || '', clients) : [];
+
+  // Recurrence State
+  const [repeat, setRepeat] = useState<{ frequency: RecurrenceFrequency | ''; endMode: 'COUNT' | 'UNTIL'; count: number; until: string }>({
+    frequency: '',
+    endMode: 'COUNT',
+    count: 8,
+    until: ''
+  });
+  const [seriesPlan, setSeriesPlan] = useState<PlannedOccurrence[] | null>(null);
+
   const [aiPrompt, setAiPrompt] = useState('');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [queuedNotice, setQueuedNotice] = useState(false);
+  const [alternatives, setAlternatives] = useState<FreeSlot[]>([]);
+  const [pendingOverride, setPendingOverride] = useState<{ booking: Booking; violations: string[] } | null>(null);
+  const [overrideReason, setOverrideReason] = useState('');
+  const [waitlistFor, setWaitlistFor] = useState<Booking | null>(null);
+  const [waitlistWindow, setWaitlistWindow] = useState({ earliest: '', latest: '' });
 
   // Voice Recording State
   const [isRecording, setIsRecording] = useState(false);
@@ -31,35 +85,81 @@ const BookingForm: React.FC<BookingFormProps> = ({ onAddBooking, existingBooking
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
-    setFormData(prev => ({ ...prev, [name]: value }));
+    setFormData(prev => ({ 
+      ...prev, 
+      [name]: value,
+      // Typing a different name unlinks the selected directory entry
+      ...(name === 'clientName' ? { clientId: undefined } : {})
+    }));
     setError(null);
   };
 
-  const checkOverlap = (newBooking: Partial<Booking>): boolean => {
-    if (!newBooking.date || !newBooking.startTime || !newBooking.durationHours) return false;
+  const handleSelectClient = (client: Client) => {
+    setFormData(prev => ({
+      ...prev,
+      clientId: client.id,
+      clientName: client.name,
+      phoneNumber: client.phoneNumbers[0] || prev.phoneNumber
+    }));
+    setShowSuggestions(false);
+    setError(null);
+  };
 
-    const newStart = parseInt(newBooking.startTime.replace(':', ''));
-    const startHour = Math.floor(newStart / 100);
-    const startMin = newStart % 100;
-    
-    const newStartTimeMinutes = startHour * 60 + startMin;
-    const newEndTimeMinutes = newStartTimeMinutes + (Number(newBooking.durationHours) * 60);
+  // AI output is matched against the directory so "ravi" books the existing Ravi Kumar
+  const applyExtracted = (extracted: ExtractedBookingData) => {
+    const client = matchClient(extracted.clientName, extracted.phoneNumber, clients);
+    setFormData(prev => ({
+      ...prev,
+      ...extracted,
+      clientId: client?.id,
+      clientName: client?.name || extracted.clientName || prev.clientName,
+      phoneNumber: extracted.phoneNumber || client?.phoneNumbers[0] || prev.phoneNumber,
+      // Ensure defaults if AI misses something
+      type: extracted.type || prev.type,
+      durationHours: extracted.durationHours || prev.durationHours
+    }));
+  };
 
-    return existingBookings.some(b => {
-      if (b.status === BookingStatus.CANCELLED) return false;
-      if (b.date !== newBooking.date) return false;
+  useEffect(() => {
+    if (aiDraft) applyExtracted(aiDraft);
+  }, []);
 
-      const bStartParts = b.startTime.split(':').map(Number);
-      const bStartMinutes = bStartParts[0] * 60 + bStartParts[1];
-      const bEndMinutes = bStartMinutes + (b.durationHours * 60);
+  // Offline requests are kept and answered later as drafts from the navbar
+  const queueRequest = (request: QueuedAiRequest) => {
+    onQueueAiRequest(request);
+    setQueuedNotice(true);
+    setError(null);
+  };
 
-      // Check if ranges overlap
-      return (newStartTimeMinutes < bEndMinutes && newEndTimeMinutes > bStartMinutes);
+  const saveBookings = (newBookings: Booking[]) => {
+    let client = clients.find(c => c.id === formData.clientId) 
+      || findExactClient(formData.clientName, formData.phoneNumber, clients);
+    if (!client) {
+      client = createClient(formData.clientName!, formData.phoneNumber);
+      onAddClient(client);
+    }
+
+    newBookings.forEach(b => {
+      const linked = { ...b, clientId: client!.id, clientName: client!.name };
+      if (editingBooking) onUpdateBooking(linked);
+      else onAddBooking(linked);
     });
+    onClose();
+  };
+
+  const handleAddToWaitlist = () => {
+    if (!waitlistFor || !onAddToWaitlist) return;
+    const client = clients.find(c => c.id === formData.clientId)
+      || findExactClient(formData.clientName, formData.phoneNumber, clients);
+    onAddToWaitlist(createWaitlistEntry({ ...waitlistFor, clientId: client?.id }, waitlistWindow.earliest, waitlistWindow.latest));
+    onClose();
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    setAlternatives([]);
+    setPendingOverride(null);
+    setWaitlistFor(null);
     
     // Validation: Phone number is now optional
     if (!formData.clientName || !formData.date || !formData.startTime) {
@@ -67,30 +167,115 @@ const BookingForm: React.FC<BookingFormProps> = ({ onAddBooking, existingBooking
       return;
     }
 
-    if (checkOverlap(formData)) {
-      setError("⚠ Overlap Detected! This slot is already booked.");
+    if (!isValidDuration(Number(formData.durationHours))) {
+      setError("Duration must be between 15 minutes and 24 hours, in 15 minute steps.");
+      return;
+    }
+
+    if (status === BookingStatus.TENTATIVE && formData.holdExpiresAt) {
+      if (formData.holdExpiresAt <= Date.now()) {
+        setError("The hold deadline has already passed.");
+        return;
+      }
+      if (formData.holdExpiresAt > new Date(`${formData.date}T${formData.startTime}`).getTime()) {
+        setError("The hold has to end before the session starts.");
+        return;
+      }
+    }
+
+    if (engineers.length > 0 && !formData.engineerId) {
+      setError("Please assign an engineer to this session.");
       return;
     }
 
     const newBooking: Booking = {
-      id: crypto.randomUUID(),
+      ...editingBooking,
+      id: editingBooking?.id || crypto.randomUUID(),
       clientName: formData.clientName,
       phoneNumber: formData.phoneNumber || '', // Optional
+      roomId: formData.roomId || DEFAULT_ROOM_ID,
+      engineerId: formData.engineerId || undefined,
+      assistantId: formData.assistantId || undefined,
       date: formData.date,
       startTime: formData.startTime,
       durationHours: Number(formData.durationHours),
       type: formData.type || 'General',
-      status: BookingStatus.CONFIRMED,
-      createdAt: Date.now(),
+      status,
+      holdExpiresAt: status === BookingStatus.TENTATIVE ? formData.holdExpiresAt : undefined,
+      createdAt: editingBooking?.createdAt || Date.now(),
       notes: formData.notes
     };
 
-    onAddBooking(newBooking);
-    onClose();
+    if (repeat.frequency && !editingBooking) {
+      const rule: RecurrenceRule = repeat.endMode === 'COUNT'
+        ? { frequency: repeat.frequency, count: Number(repeat.count) }
+        : { frequency: repeat.frequency, until: repeat.until };
+      if (repeat.endMode === 'UNTIL' && (!repeat.until || repeat.until < newBooking.date)) {
+        setError("Please pick an end date on or after the first session.");
+        return;
+      }
+
+      const plan = planSeries(newBooking, rule, existingBookings, studioCalendar);
+      if (plan.some(isClash)) {
+        // Let the user review the clashes before anything is saved
+        setSeriesPlan(plan);
+        return;
+      }
+      saveBookings(plan.map(p => p.booking));
+      return;
+    }
+
+    const conflict = findOverlap(newBooking, otherBookings);
+    if (conflict) {
+      const roomName = getRoom(rooms, conflict.roomId)?.name || 'this room';
+      setError(`⚠ Overlap Detected! ${roomName} is already ${describeSlotHolder(conflict)} at ${conflict.startTime}${conflict.date !== newBooking.date ? ` on ${conflict.date}` : ''}.`);
+      setAlternatives(suggestAlternatives(newBooking, otherBookings, rooms, studioCalendar));
+      if (onAddToWaitlist && !editingBooking) {
+        setWaitlistFor(newBooking);
+        setWaitlistWindow({ earliest: newBooking.startTime, latest: getBookingEnd(newBooking).time });
+      }
+      return;
+    }
+
+    const staffConflict = findStaffConflict(newBooking, otherBookings);
+    if (staffConflict) {
+      const staffName = getStaffMember(staff, staffConflict.staffId)?.name || 'This engineer';
+      const roomName = getRoom(rooms, staffConflict.booking.roomId)?.name || 'another room';
+      setError(`⚠ ${staffName} is already on ${staffConflict.booking.clientName}'s session in ${roomName} at ${staffConflict.booking.startTime}${staffConflict.booking.date !== newBooking.date ? ` on ${staffConflict.booking.date}` : ''}.`);
+      setAlternatives(suggestAlternatives(newBooking, otherBookings, rooms, studioCalendar));
+      return;
+    }
+
+    // Closed hours, holidays and blackouts can only be booked with an explicit override
+    const violations = editingBooking && isSameSlot(editingBooking, newBooking) ? [] : findRuleViolations(newBooking, studioCalendar);
+    if (violations.length > 0) {
+      setError(`⚠ ${violations.join('. ')}.${allowed('bookings.override') ? '' : ' Only the owner can book past these rules.'}`);
+      setAlternatives(suggestAlternatives(newBooking, otherBookings, rooms, studioCalendar));
+      if (allowed('bookings.override')) setPendingOverride({ booking: newBooking, violations });
+      return;
+    }
+
+    saveBookings([newBooking]);
+  };
+
+  const handleOverride = () => {
+    if (!pendingOverride || !overrideReason.trim() || !allowed('bookings.override')) return;
+    saveBookings([addOverride(pendingOverride.booking, pendingOverride.violations, overrideReason.trim(), currentUser)]);
+  };
+
+  const handlePickAlternative = (slot: FreeSlot) => {
+    setFormData(prev => ({ ...prev, date: slot.date, startTime: slot.startTime, roomId: slot.roomId }));
+    setAlternatives([]);
+    setError(null);
   };
 
   const handleAIFill = async () => {
     if (!aiPrompt.trim()) return;
+    if (!isOnline) {
+      queueRequest(queueTextRequest(aiPrompt.trim()));
+      setAiPrompt('');
+      return;
+    }
     setIsAnalyzing(true);
     setError(null);
 
@@ -98,13 +283,7 @@ const BookingForm: React.FC<BookingFormProps> = ({ onAddBooking, existingBooking
     
     setIsAnalyzing(false);
     if (extracted) {
-      setFormData(prev => ({
-        ...prev,
-        ...extracted,
-        // Ensure defaults if AI misses something
-        type: extracted.type || prev.type,
-        durationHours: extracted.durationHours || prev.durationHours
-      }));
+      applyExtracted(extracted);
     } else {
       setError("Could not understand the booking request. Please try again or fill manually.");
     }
@@ -154,16 +333,16 @@ const BookingForm: React.FC<BookingFormProps> = ({ onAddBooking, existingBooking
       reader.readAsDataURL(audioBlob);
       reader.onloadend = async () => {
         const base64String = (reader.result as string).split(',')[1];
+        if (!navigator.onLine) {
+          queueRequest(queueVoiceRequest(base64String, 'audio/webm'));
+          setIsAnalyzing(false);
+          return;
+        }
         // Use webm as it is the typical recording format
         const extracted = await parseVoiceBookingRequest(base64String, 'audio/webm');
         
         if (extracted) {
-          setFormData(prev => ({
-            ...prev,
-            ...extracted,
-            type: extracted.type || prev.type,
-            durationHours: extracted.durationHours || prev.durationHours
-          }));
+          applyExtracted(extracted);
         } else {
           setError("Could not understand the voice input.");
         }
@@ -177,7 +356,7 @@ const BookingForm: React.FC<BookingFormProps> = ({ onAddBooking, existingBooking
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
-      <div className="glass-panel w-full max-w-lg rounded-2xl p-6 relative animate-fadeIn">
+      <div className="glass-panel w-full max-w-lg max-h-[90vh] overflow-y-auto rounded-2xl p-6 relative animate-fadeIn">
         <button 
           onClick={onClose}
           className="absolute top-4 right-4 text-white/50 hover:text-white transition-colors"
@@ -186,7 +365,7 @@ const BookingForm: React.FC<BookingFormProps> = ({ onAddBooking, existingBooking
         </button>
 
         <h2 className="text-2xl font-display font-bold text-transparent bg-clip-text bg-gradient-to-r from-purple-400 to-pink-400 mb-6">
-          New Studio Session
+          {editingBooking ? 'Edit Session' : 'New Studio Session'}
         </h2>
 
         {/* AI Assistant Section */}
@@ -230,22 +409,49 @@ const BookingForm: React.FC<BookingFormProps> = ({ onAddBooking, existingBooking
               {isAnalyzing ? <Loader2 size={16} className="animate-spin" /> : 'Fill'}
             </button>
           </div>
-          <p className="text-[10px] text-gray-500 mt-2">
-            * Supports English and Tamil voice inputs.
-          </p>
+          {queuedNotice ? (
+            <p className="text-xs text-amber-300 mt-2 flex items-center gap-1">
+              <WifiOff size={12} /> You're offline. The request is queued and will show up as a draft in the top bar once you're back online.
+            </p>
+          ) : (
+            <p className="text-[10px] text-gray-500 mt-2">
+              * Supports English and Tamil voice inputs{isOnline ? '' : '. Offline requests are queued until you reconnect'}.
+            </p>
+          )}
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-4">
           <div className="grid grid-cols-2 gap-4">
-            <div>
-              <label className="block text-xs text-gray-400 mb-1">Client Name *</label>
+            <div className="relative">
+              <label className="block text-xs text-gray-400 mb-1">
+                Client Name * {formData.clientId && <span className="text-green-400">• in directory</span>}
+              </label>
               <input
                 name="clientName"
                 value={formData.clientName}
                 onChange={handleChange}
+                onFocus={() => setShowSuggestions(true)}
+                onBlur={() => setTimeout(() => setShowSuggestions(false), 150)}
+                autoComplete="off"
                 className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 focus:outline-none focus:border-purple-500 transition-colors"
                 required
               />
+              {suggestions.length > 0 && (
+                <div className="absolute z-10 left-0 right-0 mt-1 bg-slate-900 border border-white/10 rounded-lg shadow-xl overflow-hidden">
+                  {suggestions.map(c => (
+                    <button
+                      key={c.id}
+                      type="button"
+                      onMouseDown={(e) => e.preventDefault()}
+                      onClick={() => handleSelectClient(c)}
+                      className="w-full text-left px-3 py-2 hover:bg-white/10 transition-colors"
+                    >
+                      <span className="block text-sm text-white">{c.name}</span>
+                      {c.phoneNumbers[0] && <span className="block text-[10px] text-gray-500">{c.phoneNumbers[0]}</span>}
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
             <div>
               <label className="block text-xs text-gray-400 mb-1">Phone Number (Optional)</label>
@@ -259,6 +465,23 @@ const BookingForm: React.FC<BookingFormProps> = ({ onAddBooking, existingBooking
             </div>
           </div>
 
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Room *</label>
+            <div className="grid grid-cols-3 gap-2">
+              {rooms.map(room => (
+                <button
+                  key={room.id}
+                  type="button"
+                  onClick={() => { setFormData(prev => ({ ...prev, roomId: room.id })); setError(null); }}
+                  className={`px-2 py-2 rounded-lg border text-xs font-medium transition-colors flex items-center justify-center gap-2 ${formData.roomId === room.id ? 'bg-white/10 border-purple-500 text-white' : 'bg-white/5 border-white/10 text-gray-400 hover:text-white'}`}
+                >
+                  <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: room.color }} />
+                  <span className="truncate">{room.name}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
           <div className="grid grid-cols-2 gap-4">
             <div>
               <label className="block text-xs text-gray-400 mb-1">Date *</label>
@@ -276,6 +499,7 @@ const BookingForm: React.FC<BookingFormProps> = ({ onAddBooking, existingBooking
               <input
                 type="time"
                 name="startTime"
+                step={900}
                 value={formData.startTime}
                 onChange={handleChange}
                 className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 focus:outline-none focus:border-purple-500 transition-colors text-white [color-scheme:dark]"
@@ -286,12 +510,17 @@ const BookingForm: React.FC<BookingFormProps> = ({ onAddBooking, existingBooking
 
           <div className="grid grid-cols-2 gap-4">
             <div>
-              <label className="block text-xs text-gray-400 mb-1">Duration (Hours) *</label>
+              <label className="block text-xs text-gray-400 mb-1">
+                Duration (Hours) * {formData.date && formData.startTime && isValidDuration(Number(formData.durationHours)) && (
+                  <span className="text-gray-500">ends {getBookingEnd(formData as Booking).time}{getBookingEnd(formData as Booking).date !== formData.date ? ' next day' : ''}</span>
+                )}
+              </label>
               <input
                 type="number"
                 name="durationHours"
-                min="1"
-                max="12"
+                min={DURATION_STEP_HOURS}
+                max="24"
+                step={DURATION_STEP_HOURS}
                 value={formData.durationHours}
                 onChange={handleChange}
                 className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 focus:outline-none focus:border-purple-500 transition-colors"
@@ -306,19 +535,187 @@ const BookingForm: React.FC<BookingFormProps> = ({ onAddBooking, existingBooking
                 onChange={handleChange}
                 className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 focus:outline-none focus:border-purple-500 transition-colors text-white [&>option]:bg-slate-900"
               >
-                <option value="Vocal Recording">Vocal Recording</option>
-                <option value="Music Production">Music Production</option>
-                <option value="Mixing & Mastering">Mixing & Mastering</option>
-                <option value="Dubbing">Dubbing</option>
-                <option value="Jamming">Jamming</option>
-                <option value="Podcast">Podcast</option>
+                {SESSION_TYPES.map(t => (
+                  <option key={t} value={t}>{t}</option>
+                ))}
               </select>
             </div>
           </div>
 
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Engineer {engineers.length > 0 && '*'}</label>
+              <select
+                name="engineerId"
+                value={formData.engineerId || ''}
+                onChange={handleChange}
+                className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 focus:outline-none focus:border-purple-500 transition-colors text-white [&>option]:bg-slate-900"
+              >
+                <option value="">{engineers.length > 0 ? 'Select engineer' : 'Add staff in Settings'}</option>
+                {engineers.map(e => (
+                  <option key={e.id} value={e.id}>{e.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Assistant (Optional)</label>
+              <select
+                name="assistantId"
+                value={formData.assistantId || ''}
+                onChange={handleChange}
+                className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 focus:outline-none focus:border-purple-500 transition-colors text-white [&>option]:bg-slate-900"
+              >
+                <option value="">None</option>
+                {assistants.map(a => (
+                  <option key={a.id} value={a.id}>{a.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {canChooseHold && (
+            <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={formData.status === BookingStatus.TENTATIVE}
+                onChange={(e) => setFormData(prev => ({ ...prev, status: e.target.checked ? BookingStatus.TENTATIVE : BookingStatus.CONFIRMED }))}
+                className="accent-amber-500"
+              />
+              Tentative hold <span className="text-xs text-gray-500">(keeps the slot until the client confirms)</span>
+            </label>
+          )}
+
+          {canChooseHold && chosenStatus === BookingStatus.TENTATIVE && (
+            <div>
+              <label className="flex items-center gap-1 text-xs text-gray-400 mb-1"><Hourglass size={12} /> Hold until</label>
+              <input
+                type="datetime-local"
+                value={formData.holdExpiresAt ? toDateTimeInput(formData.holdExpiresAt) : ''}
+                onChange={(e) => setFormData(prev => ({ ...prev, holdExpiresAt: e.target.value ? new Date(e.target.value).getTime() : undefined }))}
+                className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 focus:outline-none focus:border-purple-500 transition-colors text-white [color-scheme:dark]"
+              />
+              <p className="text-xs text-gray-500 mt-1">Leave empty to hold until released by hand. Otherwise the slot frees up on its own at this time.</p>
+            </div>
+          )}
+
+          {/* Recurrence */}
+          {!editingBooking && (
+            <div className="bg-white/5 border border-white/10 rounded-xl p-3 space-y-3">
+              <div className="flex items-center gap-3">
+                <Repeat size={16} className="text-purple-300 shrink-0" />
+                <select
+                  value={repeat.frequency}
+                  onChange={(e) => { setRepeat(prev => ({ ...prev, frequency: e.target.value as RecurrenceFrequency | '' })); setError(null); }}
+                  className="flex-1 bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-purple-500 text-white [&>option]:bg-slate-900"
+                >
+                  <option value="">Does not repeat</option>
+                  <option value={RecurrenceFrequency.DAILY}>Daily</option>
+                  <option value={RecurrenceFrequency.WEEKLY}>Weekly</option>
+                  <option value={RecurrenceFrequency.MONTHLY}>Monthly</option>
+                </select>
+              </div>
+              {repeat.frequency && (
+                <div className="flex items-center gap-2 text-sm">
+                  <select
+                    value={repeat.endMode}
+                    onChange={(e) => setRepeat(prev => ({ ...prev, endMode: e.target.value as 'COUNT' | 'UNTIL' }))}
+                    className="bg-white/5 border border-white/10 rounded-lg px-3 py-2 focus:outline-none focus:border-purple-500 text-white [&>option]:bg-slate-900"
+                  >
+                    <option value="COUNT">Ends after</option>
+                    <option value="UNTIL">Ends on</option>
+                  </select>
+                  {repeat.endMode === 'COUNT' ? (
+                    <>
+                      <input
+                        type="number"
+                        min="2"
+                        max={MAX_OCCURRENCES}
+                        value={repeat.count}
+                        onChange={(e) => setRepeat(prev => ({ ...prev, count: Number(e.target.value) }))}
+                        className="w-20 bg-white/5 border border-white/10 rounded-lg px-3 py-2 focus:outline-none focus:border-purple-500"
+                      />
+                      <span className="text-gray-400">sessions</span>
+                    </>
+                  ) : (
+                    <input
+                      type="date"
+                      value={repeat.until}
+                      min={formData.date}
+                      onChange={(e) => setRepeat(prev => ({ ...prev, until: e.target.value }))}
+                      className="flex-1 bg-white/5 border border-white/10 rounded-lg px-3 py-2 focus:outline-none focus:border-purple-500 text-white [color-scheme:dark]"
+                    />
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
           {error && (
             <div className="p-3 bg-red-500/20 border border-red-500/50 rounded-lg text-red-200 text-sm text-center">
               {error}
+              {alternatives.length > 0 && (
+                <div className="mt-3 space-y-2">
+                  <p className="text-xs text-gray-300">Nearest free slots:</p>
+                  <div className="flex flex-wrap justify-center gap-2">
+                    {alternatives.map(slot => (
+                      <button
+                        key={`${slot.date}-${slot.startTime}-${slot.roomId}`}
+                        type="button"
+                        onClick={() => handlePickAlternative(slot)}
+                        className="text-xs px-3 py-1.5 rounded-lg border border-white/20 bg-black/40 text-white hover:bg-white/10 transition-colors"
+                      >
+                        {new Date(slot.date).toLocaleDateString('en-US', { weekday: 'short', day: 'numeric', month: 'short' })} • {slot.startTime} • {getRoom(rooms, slot.roomId)?.name}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {waitlistFor && (
+                <div className="mt-3 space-y-2">
+                  <p className="text-xs text-gray-300">Or put {waitlistFor.clientName} on the waitlist for {waitlistFor.date}, starting and ending between:</p>
+                  <div className="flex flex-wrap justify-center items-center gap-2">
+                    <input
+                      type="time"
+                      value={waitlistWindow.earliest}
+                      onChange={(e) => setWaitlistWindow(prev => ({ ...prev, earliest: e.target.value }))}
+                      className="bg-black/40 border border-white/20 rounded-lg px-2 py-1 text-xs text-white [color-scheme:dark]"
+                    />
+                    <span className="text-xs text-gray-400">and</span>
+                    <input
+                      type="time"
+                      value={waitlistWindow.latest}
+                      onChange={(e) => setWaitlistWindow(prev => ({ ...prev, latest: e.target.value }))}
+                      className="bg-black/40 border border-white/20 rounded-lg px-2 py-1 text-xs text-white [color-scheme:dark]"
+                    />
+                    <button
+                      type="button"
+                      onClick={handleAddToWaitlist}
+                      disabled={!waitlistWindow.earliest || !waitlistWindow.latest}
+                      className="flex items-center gap-1 text-xs px-3 py-1.5 rounded-lg border border-purple-500/40 bg-purple-500/10 text-purple-200 hover:bg-purple-500/20 transition-colors disabled:opacity-50"
+                    >
+                      <ListPlus size={14} /> Add to waitlist
+                    </button>
+                  </div>
+                </div>
+              )}
+              {pendingOverride && (
+                <div className="mt-3 flex gap-2">
+                  <input
+                    value={overrideReason}
+                    onChange={(e) => setOverrideReason(e.target.value)}
+                    placeholder="Reason for overriding"
+                    className="flex-1 bg-black/40 border border-white/20 rounded-lg px-3 py-1.5 text-xs text-white focus:outline-none focus:border-amber-500 placeholder-white/30"
+                  />
+                  <button
+                    type="button"
+                    onClick={handleOverride}
+                    disabled={!overrideReason.trim()}
+                    className="text-xs px-3 py-1.5 rounded-lg border border-amber-500/40 bg-amber-500/10 text-amber-200 hover:bg-amber-500/20 transition-colors disabled:opacity-50"
+                  >
+                    Book anyway
+                  </button>
+                </div>
+              )}
             </div>
           )}
 
@@ -326,9 +723,50 @@ const BookingForm: React.FC<BookingFormProps> = ({ onAddBooking, existingBooking
             type="submit"
             className="w-full bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-500 hover:to-indigo-500 text-white font-bold py-3 rounded-xl shadow-lg shadow-purple-500/25 transition-all transform hover:scale-[1.02] mt-4 flex items-center justify-center gap-2"
           >
-            <Plus size={20} /> Confirm Booking
+            {editingBooking ? <><Save size={20} /> Save Changes</> : <><Plus size={20} /> Confirm Booking</>}
           </button>
         </form>
+
+        {/* Series Clash Report */}
+        {seriesPlan && (
+          <div className="absolute inset-0 bg-[#0f0518] rounded-2xl p-6 overflow-y-auto animate-fadeIn">
+            <h3 className="text-xl font-bold text-white mb-1">Some dates clash</h3>
+            <p className="text-sm text-gray-400 mb-4">
+              {seriesPlan.filter(p => !isClash(p)).length} of {seriesPlan.length} sessions are free.
+            </p>
+            <div className="space-y-2 mb-6">
+              {seriesPlan.map(p => {
+                const clash = isClash(p);
+                return (
+                  <div key={p.booking.id} className={`flex items-start gap-2 text-sm p-2 rounded-lg ${clash ? 'bg-red-500/10 text-red-200' : 'text-gray-300'}`}>
+                    {clash ? <AlertCircle size={16} className="shrink-0 mt-0.5" /> : <CheckCircle size={16} className="shrink-0 mt-0.5 text-green-400" />}
+                    <span>
+                      {new Date(p.booking.date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })}
+                      {p.conflict && ` — ${getRoom(rooms, p.conflict.roomId)?.name || 'Room'} booked by ${p.conflict.clientName} at ${p.conflict.startTime}`}
+                      {!p.conflict && p.staffConflict && ` — engineer busy with ${p.staffConflict.clientName} at ${p.staffConflict.startTime}`}
+                      {!p.conflict && !p.staffConflict && p.violations && ` — ${p.violations.join('; ')}`}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setSeriesPlan(null)}
+                className="flex-1 bg-white/5 hover:bg-white/10 border border-white/10 text-white py-3 rounded-xl transition-colors"
+              >
+                Back
+              </button>
+              <button
+                onClick={() => saveBookings(seriesPlan.filter(p => !isClash(p)).map(p => p.booking))}
+                disabled={seriesPlan.every(isClash)}
+                className="flex-1 bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-500 hover:to-indigo-500 text-white font-bold py-3 rounded-xl transition-colors disabled:opacity-50"
+              >
+                Book free dates only
+              </button>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
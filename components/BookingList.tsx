@@ -1,141 +1,117 @@
 import React, { useState } from 'react';
-import { CheckCircle, Trash2, Clock, Phone, Music, AlertCircle, X, Save, FileText, Download, Share2 } from 'lucide-react';
-import { Booking, BookingStatus } from '../types';
-import jsPDF from 'jspdf';
+import { CheckCircle, Trash2, Clock, Phone, Music, AlertCircle, X, Save, FileText, DoorOpen, Headphones, Repeat, Pencil, MoveRight, ShieldAlert, CalendarPlus, History as HistoryIcon, Undo2, LogIn, UserX, CalendarClock, BadgeCheck, Hourglass, Wallet } from 'lucide-react';
+import { ActivityEntry, Booking, BookingStatus, Client, InvoiceRecord, Payment, RateCard, Room, SeriesScope, StaffMember } from '../types';
+import { DURATION_STEP_HOURS, SESSION_TYPES, formatDuration, getBookingEnd, getRoom, getStaffMember, isValidDuration, resolveActualEndDate } from '../services/schedulingService';
+import { downloadIcs } from '../services/icsService';
+import { canChangeStatus } from '../services/permissions';
+import { BOOKING_STATUSES, canTransition, formatHoldDeadline, isOpen } from '../services/bookingStatusService';
+import { canUndo, describeActivity, getBookingActivity } from '../services/activityService';
+import { PAYMENT_STATUSES, PaymentRecorder, getBookingBalance, getPaymentStatus } from '../services/paymentService';
+import { formatAmount } from '../services/invoiceService';
+import { InvoiceIssuer } from '../services/invoiceRegistryService';
+import { useCan, useCurrentUser } from './SessionContext';
+import InvoiceEditor from './InvoiceEditor';
+import PaymentsPanel from './PaymentsPanel';
 
 interface BookingListProps {
   bookings: Booking[];
-  onStatusChange: (id: string, status: BookingStatus) => void;
-  onComplete: (id: string, endTime: string) => void;
-  onUpdateBooking?: (booking: Booking) => void; // Added for invoice update
+  rooms: Room[];
+  staff: StaffMember[];
+  onStatusChange: (id: string, status: BookingStatus) => string | null; // Returns an error when the change isn't allowed
+  onComplete: (id: string, endTime: string, endDate: string, startTime: string) => void;
+  onIssueInvoice?: InvoiceIssuer; // Registers an invoice or credit note; gives back an error when nothing was issued
+  onUpdateSeries?: (booking: Booking, scope: SeriesScope, changes: Partial<Booking>) => string | null; // Returns an error when a change clashes
+  onEditBooking?: (booking: Booking) => void;
+  draggable?: boolean; // Lets the calendar reschedule cards by drag-and-drop
+  activity?: ActivityEntry[]; // Shows a History button when given
+  onUndo?: (entries: ActivityEntry[]) => string | null; // Returns an error when the change can't be reverted
+  rateCard?: RateCard; // Prices invoices; needed for the Invoice button
+  clients?: Client[]; // Fills in the GSTIN on invoices
+  invoices?: InvoiceRecord[];
+  payments?: Payment[]; // Shows payment badges and a Payments button when given
+  onRecordPayment?: PaymentRecorder;
 }
 
-const BookingList: React.FC<BookingListProps> = ({ bookings, onStatusChange, onComplete, onUpdateBooking }) => {
+const BookingList: React.FC<BookingListProps> = ({ bookings, rooms, staff, onStatusChange, onComplete, onIssueInvoice, onUpdateSeries, onEditBooking, draggable, activity, onUndo, rateCard, clients, invoices, payments, onRecordPayment }) => {
+  const currentUser = useCurrentUser();
+  const allowed = useCan();
   const [completingId, setCompletingId] = useState<string | null>(null);
   const [completionTime, setCompletionTime] = useState<string>('');
+  const [completionStart, setCompletionStart] = useState<string>('');
   
+  // Series State
+  const [seriesAction, setSeriesAction] = useState<{ id: string; mode: 'CANCEL' | 'EDIT' } | null>(null);
+  const [seriesScope, setSeriesScope] = useState<SeriesScope>(SeriesScope.THIS);
+  const [seriesEdit, setSeriesEdit] = useState<{ startTime: string; durationHours: number; type: string }>({ startTime: '', durationHours: 1, type: '' });
+  const [seriesError, setSeriesError] = useState<string | null>(null);
+
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [undoError, setUndoError] = useState<string | null>(null);
+
   // Invoice State
   const [invoicingId, setInvoicingId] = useState<string | null>(null);
-  const [invoiceRate, setInvoiceRate] = useState<number>(1000);
-
-  const getStatusColor = (status: BookingStatus) => {
-    switch (status) {
-      case BookingStatus.CONFIRMED: return 'bg-blue-500/20 text-blue-300 border-blue-500/30';
-      case BookingStatus.COMPLETED: return 'bg-green-500/20 text-green-300 border-green-500/30';
-      case BookingStatus.CANCELLED: return 'bg-red-500/20 text-red-300 border-red-500/30';
-      default: return 'bg-gray-500/20 text-gray-300';
-    }
+  const [paymentsId, setPaymentsId] = useState<string | null>(null);
+
+  const today = new Date().toISOString().split('T')[0];
+  const [statusError, setStatusError] = useState<{ id: string; text: string } | null>(null);
+
+  // Moves the state machine allows that this login may also make
+  const canMoveTo = (booking: Booking, status: BookingStatus) =>
+    canTransition(booking.status, status) && canChangeStatus(currentUser, booking, status);
+
+  const changeStatus = (booking: Booking, status: BookingStatus) => {
+    const error = onStatusChange(booking.id, status);
+    setStatusError(error ? { id: booking.id, text: error } : null);
   };
 
   const initiateCompletion = (booking: Booking) => {
-    const startParts = booking.startTime.split(':').map(Number);
-    const endHour = (startParts[0] + booking.durationHours) % 24;
-    const defaultEnd = `${endHour.toString().padStart(2, '0')}:${startParts[1].toString().padStart(2, '0')}`;
-    
-    setCompletionTime(defaultEnd);
+    setCompletionTime(getBookingEnd(booking).time);
+    setCompletionStart(booking.actualStartTime || booking.startTime);
     setCompletingId(booking.id);
   };
 
   const confirmCompletion = () => {
-    if (completingId && completionTime) {
-      onComplete(completingId, completionTime);
+    const booking = bookings.find(b => b.id === completingId);
+    if (booking && completionTime && completionStart) {
+      onComplete(booking.id, completionTime, resolveActualEndDate({ ...booking, startTime: completionStart }, completionTime), completionStart);
       setCompletingId(null);
     }
   };
 
-  // Invoice Logic
-  const handleCreateInvoice = (booking: Booking) => {
-    setInvoicingId(booking.id);
-    // Default rate or existing rate
-    setInvoiceRate(booking.invoiceDetails?.ratePerHour || 1000);
+  // Series Logic
+  const openSeriesAction = (booking: Booking, mode: 'CANCEL' | 'EDIT') => {
+    setSeriesAction({ id: booking.id, mode });
+    setSeriesScope(SeriesScope.THIS);
+    setSeriesEdit({ startTime: booking.startTime, durationHours: booking.durationHours, type: booking.type });
+    setSeriesError(null);
   };
 
-  const generateAndDownloadPDF = (booking: Booking, rate: number, total: number) => {
-    const doc = new jsPDF();
-    
-    // Header
-    doc.setFillColor(15, 5, 24); // Dark background
-    doc.rect(0, 0, 210, 40, 'F');
-    
-    doc.setFont("helvetica", "bold");
-    doc.setFontSize(22);
-    doc.setTextColor(255, 255, 255);
-    doc.text("S CUBE STUDIOZ", 20, 20);
-    doc.setFontSize(10);
-    doc.text("Professional Recording Studio", 20, 28);
-
-    // Invoice Info
-    doc.setTextColor(0, 0, 0);
-    doc.setFontSize(16);
-    doc.text("INVOICE", 20, 60);
-    
-    doc.setFontSize(10);
-    doc.text(`Invoice Date: ${new Date().toLocaleDateString()}`, 20, 70);
-    doc.text(`Booking Ref: #${booking.id.slice(0, 8).toUpperCase()}`, 20, 75);
-
-    // Client Details
-    doc.setFont("helvetica", "bold");
-    doc.text("Bill To:", 20, 90);
-    doc.setFont("helvetica", "normal");
-    doc.text(booking.clientName, 20, 95);
-    if(booking.phoneNumber) doc.text(booking.phoneNumber, 20, 100);
-
-    // Table Header
-    let y = 120;
-    doc.setFillColor(240, 240, 240);
-    doc.rect(20, y-5, 170, 10, 'F');
-    doc.setFont("helvetica", "bold");
-    doc.text("Description", 25, y);
-    doc.text("Rate/Hr", 120, y);
-    doc.text("Hours", 150, y);
-    doc.text("Amount", 180, y, { align: 'right' });
-
-    // Table Content
-    y += 15;
-    doc.setFont("helvetica", "normal");
-    doc.text(`${booking.type} Session`, 25, y);
-    doc.text(`${rate}`, 120, y);
-    doc.text(`${booking.durationHours}`, 150, y);
-    doc.text(`${total}`, 180, y, { align: 'right' });
-
-    // Total
-    y += 20;
-    doc.setDrawColor(200, 200, 200);
-    doc.line(20, y, 190, y);
-    y += 10;
-    doc.setFont("helvetica", "bold");
-    doc.setFontSize(14);
-    doc.text("Total Amount:", 120, y);
-    doc.text(`Rs. ${total}`, 180, y, { align: 'right' });
-
-    // Footer
-    doc.setFontSize(8);
-    doc.setTextColor(100, 100, 100);
-    doc.text("Thank you for choosing S CUBE STUDIOZ!", 105, 280, { align: 'center' });
-
-    doc.save(`Invoice_${booking.clientName.replace(/\s+/g, '_')}_${booking.date}.pdf`);
-
-    // Save invoice details to booking if callback exists
-    if(onUpdateBooking) {
-        onUpdateBooking({
-            ...booking,
-            invoiceDetails: {
-                ratePerHour: rate,
-                totalAmount: total,
-                generatedAt: Date.now()
-            }
-        });
+  const applySeriesAction = (booking: Booking) => {
+    if (!onUpdateSeries || !seriesAction) return;
+    if (seriesAction.mode === 'EDIT' && !isValidDuration(Number(seriesEdit.durationHours))) {
+      setSeriesError("Duration must be in 15 minute steps.");
+      return;
     }
-  };
+    const changes: Partial<Booking> = seriesAction.mode === 'CANCEL'
+      ? { status: BookingStatus.CANCELLED }
+      : { startTime: seriesEdit.startTime, durationHours: Number(seriesEdit.durationHours), type: seriesEdit.type };
 
-  const shareOnWhatsApp = (booking: Booking, total: number) => {
-    if (!booking.phoneNumber) {
-        alert("Client phone number is missing!");
-        return;
+    const result = onUpdateSeries(booking, seriesScope, changes);
+    if (result) {
+      setSeriesError(result);
+      return;
     }
-    const message = `Hello ${booking.clientName},\nHere is your invoice for the ${booking.type} session at S CUBE STUDIOZ.\n\nDate: ${booking.date}\nDuration: ${booking.durationHours} hrs\nTotal Amount: Rs. ${total}\n\nThank you!`;
-    const url = `https://wa.me/${booking.phoneNumber.replace(/[^0-9]/g, '')}?text=${encodeURIComponent(message)}`;
-    window.open(url, '_blank');
+    setSeriesAction(null);
+  };
+
+  const toggleHistory = (id: string) => {
+    setHistoryId(historyId === id ? null : id);
+    setUndoError(null);
+  };
+
+  const handleUndo = (entry: ActivityEntry) => {
+    if (!onUndo) return;
+    setUndoError(onUndo([entry]));
   };
 
   if (bookings.length === 0) {
@@ -149,10 +125,18 @@ const BookingList: React.FC<BookingListProps> = ({ bookings, onStatusChange, onC
 
   return (
     <div className="space-y-4">
-      {bookings.map((booking) => (
+      {bookings.map((booking) => {
+        const room = getRoom(rooms, booking.roomId);
+        const engineer = getStaffMember(staff, booking.engineerId);
+        const bookingEnd = getBookingEnd(booking);
+        const balance = payments && allowed('payments.record') ? getBookingBalance(booking, payments) : null;
+        const paymentStatus = balance && getPaymentStatus(balance);
+        return (
         <div 
           key={booking.id} 
-          className={`glass-panel p-4 rounded-xl transition-all hover:border-purple-500/40 group relative overflow-hidden ${booking.status === BookingStatus.CANCELLED ? 'opacity-60 grayscale-[0.5]' : ''}`}
+          draggable={draggable && isOpen(booking.status)}
+          onDragStart={(e) => e.dataTransfer.setData('text/plain', booking.id)}
+          className={`glass-panel p-4 rounded-xl transition-all hover:border-purple-500/40 group relative overflow-hidden ${booking.status === BookingStatus.CANCELLED || booking.status === BookingStatus.NO_SHOW ? 'opacity-60 grayscale-[0.5]' : ''} ${booking.status === BookingStatus.TENTATIVE ? 'border-dashed border-amber-500/40' : ''}`}
         >
           <div className="absolute top-0 left-0 w-1 h-full bg-gradient-to-b from-purple-500 to-indigo-600 opacity-0 group-hover:opacity-100 transition-opacity" />
           
@@ -161,18 +145,66 @@ const BookingList: React.FC<BookingListProps> = ({ bookings, onStatusChange, onC
             <div className="flex-1">
               <div className="flex items-center gap-3 mb-1">
                 <h3 className="text-lg font-semibold text-white">{booking.clientName}</h3>
-                <span className={`text-xs px-2 py-1 rounded-full border ${getStatusColor(booking.status)} font-medium`}>
-                  {booking.status}
+                <span className={`text-xs px-2 py-1 rounded-full border ${BOOKING_STATUSES[booking.status].badgeClass} font-medium`}>
+                  {BOOKING_STATUSES[booking.status].label}
                 </span>
+                {balance && paymentStatus && (
+                  <span
+                    className={`text-xs px-2 py-1 rounded-full border ${PAYMENT_STATUSES[paymentStatus].badgeClass} font-medium`}
+                    title={`Paid Rs. ${formatAmount(balance.paid)}${balance.billed ? ` of Rs. ${formatAmount(balance.billed)}` : ''}`}
+                  >
+                    {PAYMENT_STATUSES[paymentStatus].label}
+                    {paymentStatus === 'PART_PAID' && ` • Rs. ${formatAmount(balance.outstanding)} due`}
+                  </span>
+                )}
               </div>
               <div className="flex flex-wrap gap-4 text-sm text-gray-400">
-                <span className="flex items-center gap-1"><Clock size={14} /> {booking.date} • {booking.startTime} ({booking.durationHours}h)</span>
+                <span className="flex items-center gap-1">
+                  <Clock size={14} /> {booking.date} • {booking.startTime}–{bookingEnd.time}
+                  {bookingEnd.date !== booking.date && <span className="text-amber-300 text-xs">+1</span>}
+                  {' '}({formatDuration(booking.durationHours)})
+                </span>
                 {booking.phoneNumber && (
                     <span className="flex items-center gap-1"><Phone size={14} /> {booking.phoneNumber}</span>
                 )}
                 <span className="flex items-center gap-1 text-purple-300"><Music size={14} /> {booking.type}</span>
+                {booking.seriesId && (
+                    <span className="flex items-center gap-1 text-indigo-300" title="Recurring booking"><Repeat size={14} /> Series</span>
+                )}
+                {booking.status === BookingStatus.TENTATIVE && booking.holdExpiresAt && (
+                    <span className="flex items-center gap-1 text-amber-300" title="Released automatically unless confirmed by then">
+                      <Hourglass size={14} /> Hold until {formatHoldDeadline(booking.holdExpiresAt)}
+                    </span>
+                )}
+                {booking.rescheduleHistory && booking.rescheduleHistory.length > 0 && (
+                    <span 
+                      className="flex items-center gap-1 text-amber-300" 
+                      title={`Originally ${booking.rescheduleHistory[0].date} at ${booking.rescheduleHistory[0].startTime}`}
+                    >
+                      <MoveRight size={14} /> Moved {booking.rescheduleHistory.length}×
+                    </span>
+                )}
+                {booking.overrides && booking.overrides.length > 0 && (
+                    <span 
+                      className="flex items-center gap-1 text-amber-300" 
+                      title={booking.overrides.map(o => `${o.violations.join('; ')} — ${o.reason}`).join('\n')}
+                    >
+                      <ShieldAlert size={14} /> Override
+                    </span>
+                )}
+                {room && (
+                    <span className="flex items-center gap-1" style={{ color: room.color }}><DoorOpen size={14} /> {room.name}</span>
+                )}
+                {engineer && (
+                    <span className="flex items-center gap-1"><Headphones size={14} /> {engineer.name}</span>
+                )}
+                {booking.status === BookingStatus.IN_PROGRESS && booking.actualStartTime && (
+                    <span className="flex items-center gap-1 text-cyan-300">Started: {booking.actualStartTime}</span>
+                )}
                 {booking.actualEndTime && (
-                    <span className="flex items-center gap-1 text-green-400">Ended: {booking.actualEndTime}</span>
+                    <span className="flex items-center gap-1 text-green-400">
+                      Ended: {booking.actualEndTime}{booking.actualEndDate && booking.actualEndDate !== booking.date ? ` (${booking.actualEndDate})` : ''}
+                    </span>
                 )}
               </div>
             </div>
@@ -181,7 +213,14 @@ const BookingList: React.FC<BookingListProps> = ({ bookings, onStatusChange, onC
             <div className="flex flex-col items-end gap-2 w-full md:w-auto">
                {completingId === booking.id ? (
                  <div className="flex items-center gap-2 bg-black/40 p-1 rounded-lg border border-purple-500/50 animate-fadeIn">
-                   <span className="text-xs text-gray-300 pl-2">End Time:</span>
+                   <span className="text-xs text-gray-300 pl-2">Start:</span>
+                   <input 
+                     type="time" 
+                     value={completionStart}
+                     onChange={(e) => setCompletionStart(e.target.value)}
+                     className="bg-white/10 border border-white/10 rounded px-2 py-1 text-sm text-white w-24 [color-scheme:dark]"
+                   />
+                   <span className="text-xs text-gray-300">End:</span>
                    <input 
                      type="time" 
                      value={completionTime}
@@ -204,30 +243,122 @@ const BookingList: React.FC<BookingListProps> = ({ bookings, onStatusChange, onC
                    </button>
                  </div>
                ) : (
-                 <div className="flex items-center gap-2">
-                   {booking.status === BookingStatus.CONFIRMED && (
-                     <>
-                       <button 
-                         onClick={() => initiateCompletion(booking)}
-                         className="flex items-center gap-1 bg-green-500/10 hover:bg-green-500/20 text-green-400 border border-green-500/30 px-3 py-2 rounded-lg transition-colors text-sm"
-                         title="Mark Completed"
-                       >
-                         <CheckCircle size={16} /> <span className="hidden md:inline">Complete</span>
-                       </button>
-                       
-                       <button 
-                         onClick={() => onStatusChange(booking.id, BookingStatus.CANCELLED)}
-                         className="flex items-center gap-1 bg-red-500/10 hover:bg-red-500/20 text-red-400 border border-red-500/30 px-3 py-2 rounded-lg transition-colors text-sm"
-                         title="Cancel Booking"
-                       >
-                         <Trash2 size={16} /> <span className="hidden md:inline">Cancel</span>
-                       </button>
-                     </>
+                 <div className="flex flex-wrap justify-end items-center gap-2">
+                   {canMoveTo(booking, BookingStatus.CONFIRMED) && booking.status === BookingStatus.TENTATIVE && (
+                     <button 
+                       onClick={() => changeStatus(booking, BookingStatus.CONFIRMED)}
+                       className="flex items-center gap-1 bg-blue-500/10 hover:bg-blue-500/20 text-blue-300 border border-blue-500/30 px-3 py-2 rounded-lg transition-colors text-sm"
+                       title="Confirm Hold"
+                     >
+                       <BadgeCheck size={16} /> <span className="hidden md:inline">Confirm</span>
+                     </button>
+                   )}
+
+                   {canMoveTo(booking, BookingStatus.IN_PROGRESS) && booking.date <= today && (
+                     <button 
+                       onClick={() => changeStatus(booking, BookingStatus.IN_PROGRESS)}
+                       className="flex items-center gap-1 bg-cyan-500/10 hover:bg-cyan-500/20 text-cyan-300 border border-cyan-500/30 px-3 py-2 rounded-lg transition-colors text-sm"
+                       title="Check In"
+                     >
+                       <LogIn size={16} /> <span className="hidden md:inline">Check In</span>
+                     </button>
+                   )}
+
+                   {canMoveTo(booking, BookingStatus.COMPLETED) && (
+                     <button 
+                       onClick={() => initiateCompletion(booking)}
+                       className="flex items-center gap-1 bg-green-500/10 hover:bg-green-500/20 text-green-400 border border-green-500/30 px-3 py-2 rounded-lg transition-colors text-sm"
+                       title="Mark Completed"
+                     >
+                       <CheckCircle size={16} /> <span className="hidden md:inline">Complete</span>
+                     </button>
+                   )}
+
+                   {(isOpen(booking.status) || booking.status === BookingStatus.RESCHEDULED) && onEditBooking && allowed('bookings.edit') && (
+                     <button 
+                       onClick={() => onEditBooking(booking)}
+                       className="flex items-center gap-1 bg-white/5 hover:bg-white/10 text-gray-300 border border-white/10 px-3 py-2 rounded-lg transition-colors text-sm"
+                       title={booking.status === BookingStatus.RESCHEDULED ? 'Pick a New Slot' : 'Edit Booking'}
+                     >
+                       <Pencil size={16} /> <span className="hidden md:inline">{booking.status === BookingStatus.RESCHEDULED ? 'New Slot' : 'Edit'}</span>
+                     </button>
                    )}
 
-                    {booking.status === BookingStatus.COMPLETED && (
+                   {isOpen(booking.status) && booking.seriesId && onUpdateSeries && allowed('bookings.edit') && (
+                     <button 
+                       onClick={() => openSeriesAction(booking, 'EDIT')}
+                       className="flex items-center gap-1 bg-indigo-500/10 hover:bg-indigo-500/20 text-indigo-300 border border-indigo-500/30 px-3 py-2 rounded-lg transition-colors text-sm"
+                       title="Edit Series"
+                     >
+                       <Repeat size={16} /> <span className="hidden md:inline">Series</span>
+                     </button>
+                   )}
+
+                   {canMoveTo(booking, BookingStatus.NO_SHOW) && booking.date <= today && (
+                     <button 
+                       onClick={() => changeStatus(booking, BookingStatus.NO_SHOW)}
+                       className="flex items-center gap-1 bg-orange-500/10 hover:bg-orange-500/20 text-orange-300 border border-orange-500/30 px-3 py-2 rounded-lg transition-colors text-sm"
+                       title="Client didn't turn up"
+                     >
+                       <UserX size={16} /> <span className="hidden md:inline">No-show</span>
+                     </button>
+                   )}
+
+                   {canMoveTo(booking, BookingStatus.RESCHEDULED) && (
+                     <button 
+                       onClick={() => changeStatus(booking, BookingStatus.RESCHEDULED)}
+                       className="flex items-center gap-1 bg-violet-500/10 hover:bg-violet-500/20 text-violet-300 border border-violet-500/30 px-3 py-2 rounded-lg transition-colors text-sm"
+                       title="Free the slot until the client picks a new one"
+                     >
+                       <CalendarClock size={16} /> <span className="hidden md:inline">Reschedule</span>
+                     </button>
+                   )}
+
+                   {canMoveTo(booking, BookingStatus.CANCELLED) && (
+                     <button 
+                       onClick={() => booking.seriesId && onUpdateSeries && isOpen(booking.status)
+                         ? openSeriesAction(booking, 'CANCEL') 
+                         : changeStatus(booking, BookingStatus.CANCELLED)}
+                       className="flex items-center gap-1 bg-red-500/10 hover:bg-red-500/20 text-red-400 border border-red-500/30 px-3 py-2 rounded-lg transition-colors text-sm"
+                       title="Cancel Booking"
+                     >
+                       <Trash2 size={16} /> <span className="hidden md:inline">Cancel</span>
+                     </button>
+                   )}
+
+                    {booking.status !== BookingStatus.COMPLETED && (
                         <button 
-                            onClick={() => handleCreateInvoice(booking)}
+                            onClick={() => downloadIcs([booking], rooms, staff, `${booking.clientName}_${booking.date}`)}
+                            className="flex items-center gap-1 bg-white/5 hover:bg-white/10 text-gray-300 border border-white/10 px-3 py-2 rounded-lg transition-colors text-sm"
+                            title={BOOKING_STATUSES[booking.status].display === 'HIDDEN' ? 'Send cancellation to calendar (.ics)' : 'Add to calendar (.ics)'}
+                        >
+                            <CalendarPlus size={16} />
+                        </button>
+                    )}
+
+                    {activity && allowed('activity.view') && (
+                        <button 
+                            onClick={() => toggleHistory(booking.id)}
+                            className={`flex items-center gap-1 border px-3 py-2 rounded-lg transition-colors text-sm ${historyId === booking.id ? 'bg-white/15 text-white border-white/20' : 'bg-white/5 hover:bg-white/10 text-gray-300 border-white/10'}`}
+                            title="History"
+                        >
+                            <HistoryIcon size={16} />
+                        </button>
+                    )}
+
+                    {balance && onRecordPayment && (
+                        <button 
+                            onClick={() => setPaymentsId(paymentsId === booking.id ? null : booking.id)}
+                            className={`flex items-center gap-1 border px-3 py-2 rounded-lg transition-colors text-sm ${paymentsId === booking.id ? 'bg-white/15 text-white border-white/20' : 'bg-white/5 hover:bg-white/10 text-gray-300 border-white/10'}`}
+                            title="Payments"
+                        >
+                            <Wallet size={16} />
+                        </button>
+                    )}
+
+                    {booking.status === BookingStatus.COMPLETED && rateCard && onIssueInvoice && allowed('invoices.issue') && (
+                        <button 
+                            onClick={() => setInvoicingId(booking.id)}
                             className="flex items-center gap-1 bg-indigo-500/10 hover:bg-indigo-500/20 text-indigo-400 border border-indigo-500/30 px-3 py-2 rounded-lg transition-colors text-sm"
                         >
                             <FileText size={16} /> Invoice
@@ -238,60 +369,133 @@ const BookingList: React.FC<BookingListProps> = ({ bookings, onStatusChange, onC
             </div>
           </div>
 
-          {/* Invoice Generator Section */}
-          {invoicingId === booking.id && (
-              <div className="mt-4 pt-4 border-t border-white/10 animate-fadeIn">
-                  <div className="flex flex-col md:flex-row gap-4 items-center justify-between">
-                      <div className="w-full md:w-auto flex flex-col gap-1">
-                          <label className="text-xs text-gray-400">Hourly Rate: Rs. {invoiceRate}</label>
-                          <div className="flex items-center gap-2">
-                              <span className="text-xs text-gray-500">300</span>
-                              <input 
-                                  type="range" 
-                                  min="300" 
-                                  max="5000" 
-                                  step="100" 
-                                  value={invoiceRate}
-                                  onChange={(e) => setInvoiceRate(Number(e.target.value))}
-                                  className="w-full md:w-48 accent-purple-500 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
-                              />
-                              <span className="text-xs text-gray-500">5000</span>
-                          </div>
+          {statusError?.id === booking.id && (
+              <p className="mt-3 text-xs text-red-300 text-right">{statusError.text}</p>
+          )}
+
+          {/* Series Action Section */}
+          {seriesAction?.id === booking.id && (
+              <div className="mt-4 pt-4 border-t border-white/10 animate-fadeIn space-y-3">
+                  <p className="text-xs text-gray-400 flex items-center gap-1">
+                      <Repeat size={12} /> {seriesAction.mode === 'CANCEL' ? 'Cancel' : 'Edit'} recurring session
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                      {[
+                        { scope: SeriesScope.THIS, label: 'This session' },
+                        { scope: SeriesScope.FOLLOWING, label: 'This and later' },
+                        { scope: SeriesScope.ALL, label: 'Whole series' }
+                      ].map(option => (
+                        <button
+                          key={option.scope}
+                          onClick={() => setSeriesScope(option.scope)}
+                          className={`px-3 py-1.5 rounded-full text-xs font-medium border transition-colors ${seriesScope === option.scope ? 'bg-white text-black border-white' : 'bg-black/40 text-gray-300 border-white/10 hover:text-white'}`}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                  </div>
+                  {seriesAction.mode === 'EDIT' && (
+                      <div className="flex flex-wrap gap-2">
+                          <input 
+                            type="time" 
+                            value={seriesEdit.startTime}
+                            onChange={(e) => setSeriesEdit(prev => ({ ...prev, startTime: e.target.value }))}
+                            className="bg-white/10 border border-white/10 rounded px-2 py-1 text-sm text-white [color-scheme:dark]"
+                          />
+                          <input 
+                            type="number" 
+                            min={DURATION_STEP_HOURS}
+                            max="24"
+                            step={DURATION_STEP_HOURS}
+                            value={seriesEdit.durationHours}
+                            onChange={(e) => setSeriesEdit(prev => ({ ...prev, durationHours: Number(e.target.value) }))}
+                            className="w-20 bg-white/10 border border-white/10 rounded px-2 py-1 text-sm text-white"
+                            title="Duration (Hours)"
+                          />
+                          <select
+                            value={seriesEdit.type}
+                            onChange={(e) => setSeriesEdit(prev => ({ ...prev, type: e.target.value }))}
+                            className="bg-white/10 border border-white/10 rounded px-2 py-1 text-sm text-white [&>option]:bg-slate-900"
+                          >
+                            {SESSION_TYPES.map(t => (
+                              <option key={t} value={t}>{t}</option>
+                            ))}
+                          </select>
                       </div>
-                      <div className="flex items-center gap-4">
-                          <div className="text-right">
-                              <p className="text-xs text-gray-400">Total Amount</p>
-                              <p className="text-xl font-bold text-white">Rs. {invoiceRate * booking.durationHours}</p>
+                  )}
+                  {seriesError && (
+                      <p className="text-xs text-red-300">{seriesError}</p>
+                  )}
+                  <div className="flex gap-2">
+                      <button 
+                          onClick={() => applySeriesAction(booking)}
+                          className={`px-3 py-1.5 rounded-lg text-sm text-white ${seriesAction.mode === 'CANCEL' ? 'bg-red-600 hover:bg-red-500' : 'bg-green-600 hover:bg-green-500'}`}
+                      >
+                          {seriesAction.mode === 'CANCEL' ? 'Cancel Sessions' : 'Save Changes'}
+                      </button>
+                      <button 
+                          onClick={() => setSeriesAction(null)}
+                          className="px-3 py-1.5 rounded-lg text-sm bg-gray-700 hover:bg-gray-600 text-gray-300"
+                      >
+                          Close
+                      </button>
+                  </div>
+              </div>
+          )}
+
+          {/* History Section */}
+          {historyId === booking.id && activity && (
+              <div className="mt-4 pt-4 border-t border-white/10 animate-fadeIn space-y-2">
+                  <p className="text-xs text-gray-400 flex items-center gap-1">
+                      <HistoryIcon size={12} /> History
+                  </p>
+                  {getBookingActivity(activity, booking.id).map(entry => (
+                      <div key={entry.id} className="flex items-start justify-between gap-3 text-sm">
+                          <div>
+                              <p className="text-gray-200">{describeActivity(entry, allowed('revenue.view'))}</p>
+                              <p className="text-xs text-gray-500">
+                                  {new Date(entry.at).toLocaleString()} • {entry.userName || (entry.action === 'EXPIRED' ? 'Automatic' : 'Unknown')}
+                              </p>
                           </div>
-                          <div className="flex gap-2">
+                          {onUndo && canUndo(entry, activity, [booking]) && (
                               <button 
-                                  onClick={() => generateAndDownloadPDF(booking, invoiceRate, invoiceRate * booking.durationHours)}
-                                  className="p-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-white" 
-                                  title="Download PDF"
+                                  onClick={() => handleUndo(entry)}
+                                  className="flex items-center gap-1 px-2 py-1 rounded-lg text-xs bg-amber-500/10 hover:bg-amber-500/20 text-amber-300 border border-amber-500/30 shrink-0"
                               >
-                                  <Download size={18} />
+                                  <Undo2 size={12} /> Undo
                               </button>
-                              <button 
-                                  onClick={() => shareOnWhatsApp(booking, invoiceRate * booking.durationHours)}
-                                  className="p-2 bg-green-600 hover:bg-green-500 rounded-lg text-white" 
-                                  title="Send on WhatsApp"
-                              >
-                                  <Share2 size={18} />
-                              </button>
-                              <button 
-                                  onClick={() => setInvoicingId(null)}
-                                  className="p-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-gray-300" 
-                                  title="Close"
-                              >
-                                  <X size={18} />
-                              </button>
-                          </div>
+                          )}
                       </div>
-                  </div>
+                  ))}
+                  {getBookingActivity(activity, booking.id).length === 0 && (
+                      <p className="text-xs text-gray-500">No changes recorded yet.</p>
+                  )}
+                  {undoError && (
+                      <p className="text-xs text-red-300">{undoError}</p>
+                  )}
               </div>
           )}
+
+          {/* Payments Section */}
+          {paymentsId === booking.id && payments && onRecordPayment && (
+              <PaymentsPanel booking={booking} payments={payments} onRecord={onRecordPayment} />
+          )}
+
+          {/* Invoice Generator Section */}
+          {invoicingId === booking.id && rateCard && onIssueInvoice && (
+              <InvoiceEditor
+                  booking={booking}
+                  rateCard={rateCard}
+                  client={clients?.find(c => c.id === booking.clientId)}
+                  staff={staff}
+                  invoices={invoices || []}
+                  onIssue={onIssueInvoice}
+                  onClose={() => setInvoicingId(null)}
+              />
+          )}
         </div>
-      ))}
+        );
+      })}
     </div>
   );
 };
@@ -1,17 +1,50 @@
 import React, { useState, useMemo } from 'react';
-import { ChevronLeft, ChevronRight } from 'lucide-react';
-import { Booking, BookingStatus } from '../types';
+import { Ban, ChevronLeft, ChevronRight } from 'lucide-react';
+import { ActivityEntry, Booking, BookingStatus, Client, InvoiceRecord, Payment, RateCard, Room, SeriesScope, StaffMember, StudioCalendar } from '../types';
+import { addDays, getBookingRoomId, getBookingsOnDate, getRoom } from '../services/schedulingService';
+import { getBlackoutsOnDate, getHoliday, getOpeningInterval } from '../services/studioCalendarService';
+import { BOOKING_STATUSES, isOpen } from '../services/bookingStatusService';
+import { InvoiceIssuer } from '../services/invoiceRegistryService';
+import { PaymentRecorder } from '../services/paymentService';
 import BookingList from './BookingList';
+import TimelineView from './TimelineView';
+
+type CalendarMode = 'MONTH' | 'WEEK' | 'DAY';
 
 interface CalendarViewProps {
   bookings: Booking[];
-  onStatusChange: (id: string, status: BookingStatus) => void;
-  onComplete: (id: string, endTime: string) => void;
+  rooms: Room[];
+  staff: StaffMember[];
+  studioCalendar: StudioCalendar;
+  onStatusChange: (id: string, status: BookingStatus) => string | null;
+  onComplete: (id: string, endTime: string, endDate: string, startTime: string) => void;
+  onUpdateSeries?: (booking: Booking, scope: SeriesScope, changes: Partial<Booking>) => string | null;
+  onEditBooking?: (booking: Booking) => void;
+  onRescheduleBooking?: (id: string, date: string, startTime?: string, roomId?: string) => string | null; // Returns an error when the new slot clashes
+  onCreateBooking?: (values: Partial<Booking>) => void; // Opens the booking form pre-filled
+  activity?: ActivityEntry[];
+  onUndo?: (entries: ActivityEntry[]) => string | null;
+  // Invoices and payments for the selected day's sessions, as on the dashboard
+  onIssueInvoice?: InvoiceIssuer;
+  rateCard?: RateCard;
+  clients?: Client[];
+  invoices?: InvoiceRecord[];
+  payments?: Payment[];
+  onRecordPayment?: PaymentRecorder;
 }
 
-const CalendarView: React.FC<CalendarViewProps> = ({ bookings, onStatusChange, onComplete }) => {
+const CalendarView: React.FC<CalendarViewProps> = ({ bookings, rooms, staff, studioCalendar, onStatusChange, onComplete, onUpdateSeries, onEditBooking, onRescheduleBooking, onCreateBooking, activity, onUndo, onIssueInvoice, rateCard, clients, invoices, payments, onRecordPayment }) => {
+  const [calendarMode, setCalendarMode] = useState<CalendarMode>('MONTH');
   const [currentDate, setCurrentDate] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0]);
+  const [roomFilter, setRoomFilter] = useState<string>('ALL');
+  const [dropMessage, setDropMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [dragOverDate, setDragOverDate] = useState<string | null>(null);
+
+  const roomBookings = useMemo(() => {
+    if (roomFilter === 'ALL') return bookings;
+    return bookings.filter(b => getBookingRoomId(b) === roomFilter);
+  }, [bookings, roomFilter]);
 
   const year = currentDate.getFullYear();
   const month = currentDate.getMonth();
@@ -21,27 +54,90 @@ const CalendarView: React.FC<CalendarViewProps> = ({ bookings, onStatusChange, o
 
   const monthName = currentDate.toLocaleString('default', { month: 'long' });
 
+  // Week and day views are anchored on the selected date
+  const weekDates = useMemo(() => {
+    const sunday = addDays(selectedDate, -new Date(`${selectedDate}T00:00:00Z`).getUTCDay());
+    return Array.from({ length: 7 }, (_, i) => addDays(sunday, i));
+  }, [selectedDate]);
+
+  const timelineRooms = roomFilter === 'ALL' ? rooms : rooms.filter(r => r.id === roomFilter);
+
+  const moveSelectedDate = (days: number) => {
+    const next = addDays(selectedDate, days);
+    setSelectedDate(next);
+    const [y, m] = next.split('-').map(Number);
+    setCurrentDate(new Date(y, m - 1, 1));
+  };
+
   const handlePrevMonth = () => {
+    if (calendarMode === 'WEEK') return moveSelectedDate(-7);
+    if (calendarMode === 'DAY') return moveSelectedDate(-1);
     setCurrentDate(new Date(year, month - 1, 1));
   };
 
   const handleNextMonth = () => {
+    if (calendarMode === 'WEEK') return moveSelectedDate(7);
+    if (calendarMode === 'DAY') return moveSelectedDate(1);
     setCurrentDate(new Date(year, month + 1, 1));
   };
 
+  const handleSlotClick = (date: string, startTime: string, roomId: string) => {
+    setSelectedDate(date);
+    onCreateBooking?.({ date, startTime, roomId });
+  };
+
+  const handleTimelineDrop = (id: string, date: string, startTime: string, roomId: string) => {
+    const booking = bookings.find(b => b.id === id);
+    if (!booking || !onRescheduleBooking) return;
+    if (booking.date === date && booking.startTime === startTime && getBookingRoomId(booking) === roomId) return;
+
+    const error = onRescheduleBooking(id, date, startTime, roomId);
+    setDropMessage(error 
+      ? { text: error, isError: true } 
+      : { text: `Moved ${booking.clientName} to ${date} at ${startTime}.`, isError: false });
+    if (!error) setSelectedDate(date);
+  };
+
+  const headerTitle = calendarMode === 'MONTH' 
+    ? <>{monthName} <span className="text-purple-400">{year}</span></>
+    : calendarMode === 'WEEK'
+      ? <>{new Date(weekDates[0]).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} – <span className="text-purple-400">{new Date(weekDates[6]).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}</span></>
+      : <>{new Date(selectedDate).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })} <span className="text-purple-400">{selectedDate.slice(0, 4)}</span></>;
+
   const handleDayClick = (day: number) => {
     const dateStr = `${year}-${(month + 1).toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
     setSelectedDate(dateStr);
   };
 
+  const handleDrop = (e: React.DragEvent, dateStr: string) => {
+    e.preventDefault();
+    setDragOverDate(null);
+    const id = e.dataTransfer.getData('text/plain');
+    const booking = bookings.find(b => b.id === id);
+    if (!booking || !onRescheduleBooking || booking.date === dateStr) return;
+
+    const error = onRescheduleBooking(id, dateStr);
+    setDropMessage(error 
+      ? { text: error, isError: true } 
+      : { text: `Moved ${booking.clientName} to ${dateStr} at ${booking.startTime}.`, isError: false });
+    if (!error) setSelectedDate(dateStr);
+  };
+
   const getBookingsForDay = (day: number) => {
     const dateStr = `${year}-${(month + 1).toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
-    return bookings.filter(b => b.date === dateStr && b.status !== BookingStatus.CANCELLED);
+    return getBookingsOnDate(roomBookings, dateStr).filter(b => BOOKING_STATUSES[b.status].display !== 'HIDDEN');
   };
 
+  const getBlackoutsForDate = (date: string) =>
+    getBlackoutsOnDate(studioCalendar, date, roomFilter === 'ALL' ? undefined : roomFilter);
+
+  const selectedHoliday = getHoliday(studioCalendar, selectedDate);
+  const selectedBlackouts = getBlackoutsForDate(selectedDate);
+
   const selectedDateBookings = useMemo(() => {
-    return bookings.filter(b => b.date === selectedDate).sort((a, b) => a.startTime.localeCompare(b.startTime));
-  }, [bookings, selectedDate]);
+    // Includes overnight sessions carried over from the previous evening
+    return getBookingsOnDate(roomBookings, selectedDate).sort((a, b) => (a.date + a.startTime).localeCompare(b.date + b.startTime));
+  }, [roomBookings, selectedDate]);
 
   const renderCalendarDays = () => {
     const days = [];
@@ -56,30 +152,56 @@ const CalendarView: React.FC<CalendarViewProps> = ({ bookings, onStatusChange, o
       const isSelected = selectedDate === dateStr;
       const isToday = dateStr === new Date().toISOString().split('T')[0];
       const dayBookings = getBookingsForDay(day);
-      const hasBookings = dayBookings.length > 0;
+      const holiday = getHoliday(studioCalendar, dateStr);
+      const isClosed = !getOpeningInterval(studioCalendar, dateStr);
+      const blackouts = getBlackoutsForDate(dateStr);
 
       days.push(
         <div 
           key={day} 
           onClick={() => handleDayClick(day)}
+          onDragOver={(e) => { if (onRescheduleBooking) { e.preventDefault(); setDragOverDate(dateStr); } }}
+          onDragLeave={() => setDragOverDate(null)}
+          onDrop={(e) => handleDrop(e, dateStr)}
           className={`h-16 md:h-24 border border-white/10 p-2 cursor-pointer transition-all relative overflow-hidden
             ${isSelected ? 'bg-purple-900/30 border-purple-500' : 'hover:bg-white/5 bg-black/40'}
+            ${dragOverDate === dateStr ? 'ring-2 ring-inset ring-purple-400' : ''}
             ${isToday ? 'bg-indigo-900/20' : ''}
+            ${isClosed && !isSelected ? 'opacity-60' : ''}
           `}
         >
           <div className={`text-sm font-medium mb-1 flex justify-between items-center ${isToday ? 'text-indigo-400' : 'text-gray-300'}`}>
             {day}
             {isToday && <span className="text-[10px] uppercase bg-indigo-500/20 px-1 rounded">Today</span>}
+            {!isToday && blackouts.length > 0 && (
+              <span title={blackouts.map(b => `${b.startTime}–${b.endTime} ${b.reason}`).join('\n')}>
+                <Ban size={12} className="text-gray-400" />
+              </span>
+            )}
           </div>
+          {holiday && <div className="text-[10px] text-red-300 truncate mb-1">{holiday.name}</div>}
           
           {/* Indicators */}
           <div className="flex flex-wrap gap-1">
-            {dayBookings.slice(0, 4).map((b, i) => (
-              <div 
-                key={i} 
-                className={`w-2 h-2 rounded-full ${b.status === BookingStatus.COMPLETED ? 'bg-green-500' : 'bg-purple-500'}`} 
-              />
-            ))}
+            {dayBookings.slice(0, 4).map((b, i) => {
+              const roomColor = getRoom(rooms, b.roomId)?.color || '#a855f7';
+              const { display, color, label } = BOOKING_STATUSES[b.status];
+              // Room colour fills the dot, the status colour rings it; holds are hollow
+              return (
+                <div 
+                  key={i} 
+                  draggable={!!onRescheduleBooking && isOpen(b.status) && b.date === dateStr}
+                  onDragStart={(e) => e.dataTransfer.setData('text/plain', b.id)}
+                  title={`${b.startTime} ${b.clientName} (${label})`}
+                  className={`w-2.5 h-2.5 rounded-full ${display === 'FADED' ? 'opacity-40' : ''}`} 
+                  style={{
+                    backgroundColor: display === 'SOFT' ? 'transparent' : roomColor,
+                    border: display === 'SOFT' ? `1.5px dashed ${roomColor}` : undefined,
+                    boxShadow: `0 0 0 1.5px ${color}`
+                  }}
+                />
+              );
+            })}
             {dayBookings.length > 4 && <span className="text-[10px] text-gray-500">+</span>}
           </div>
         </div>
@@ -92,10 +214,21 @@ const CalendarView: React.FC<CalendarViewProps> = ({ bookings, onStatusChange, o
     <div className="space-y-6 animate-fadeIn">
       {/* Calendar Header */}
       <div className="flex items-center justify-between bg-purple-900/10 p-4 rounded-xl border border-purple-500/20">
-        <h2 className="text-2xl font-bold font-display text-white capitalize">
-          {monthName} <span className="text-purple-400">{year}</span>
+        <h2 className="text-xl md:text-2xl font-bold font-display text-white capitalize">
+          {headerTitle}
         </h2>
         <div className="flex gap-2">
+          <div className="flex bg-black/40 rounded-lg p-1 mr-2">
+            {(['MONTH', 'WEEK', 'DAY'] as CalendarMode[]).map(mode => (
+              <button
+                key={mode}
+                onClick={() => setCalendarMode(mode)}
+                className={`px-3 py-1 rounded-md text-xs font-semibold transition-colors ${calendarMode === mode ? 'bg-white text-black' : 'text-gray-400 hover:text-white'}`}
+              >
+                {mode.charAt(0) + mode.slice(1).toLowerCase()}
+              </button>
+            ))}
+          </div>
           <button onClick={handlePrevMonth} className="p-2 rounded-lg bg-black/40 hover:bg-white/10 text-white transition-colors">
             <ChevronLeft size={20} />
           </button>
@@ -105,7 +238,41 @@ const CalendarView: React.FC<CalendarViewProps> = ({ bookings, onStatusChange, o
         </div>
       </div>
 
+      {/* Room Filter */}
+      <div className="flex gap-2 overflow-x-auto scrollbar-hide">
+        <button
+          onClick={() => setRoomFilter('ALL')}
+          className={`px-3 py-1.5 rounded-full text-xs font-medium whitespace-nowrap border transition-colors ${roomFilter === 'ALL' ? 'bg-white text-black border-white' : 'bg-black/40 text-gray-300 border-white/10 hover:text-white'}`}
+        >
+          All Rooms
+        </button>
+        {rooms.map(room => (
+          <button
+            key={room.id}
+            onClick={() => setRoomFilter(room.id)}
+            className={`px-3 py-1.5 rounded-full text-xs font-medium whitespace-nowrap border flex items-center gap-2 transition-colors ${roomFilter === room.id ? 'bg-white text-black border-white' : 'bg-black/40 text-gray-300 border-white/10 hover:text-white'}`}
+          >
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: room.color }} />
+            {room.name}
+          </button>
+        ))}
+      </div>
+
+      {/* Timeline */}
+      {calendarMode !== 'MONTH' && (
+        <TimelineView
+          dates={calendarMode === 'WEEK' ? weekDates : [selectedDate]}
+          bookings={roomBookings.filter(b => BOOKING_STATUSES[b.status].display !== 'HIDDEN')}
+          rooms={timelineRooms}
+          studioCalendar={studioCalendar}
+          onSlotClick={handleSlotClick}
+          onBookingClick={(b) => setSelectedDate(b.date)}
+          onDropBooking={onRescheduleBooking ? handleTimelineDrop : undefined}
+        />
+      )}
+
       {/* Calendar Grid */}
+      {calendarMode === 'MONTH' && (
       <div className="glass-panel rounded-xl overflow-hidden">
         {/* Weekday Headers */}
         <div className="grid grid-cols-7 bg-black/60 border-b border-white/10 text-center">
@@ -118,16 +285,68 @@ const CalendarView: React.FC<CalendarViewProps> = ({ bookings, onStatusChange, o
           {renderCalendarDays()}
         </div>
       </div>
+      )}
+
+      {/* Status Legend */}
+      <div className="flex flex-wrap gap-3 text-[11px] text-gray-400">
+        {Object.values(BOOKING_STATUSES).filter(s => s.display !== 'HIDDEN').map(s => (
+          <span key={s.label} className={`flex items-center gap-1.5 ${s.display === 'FADED' ? 'opacity-60' : ''}`}>
+            <span
+              className="w-2.5 h-2.5 rounded-full"
+              style={{ boxShadow: `0 0 0 1.5px ${s.color}`, border: s.display === 'SOFT' ? '1.5px dashed #9ca3af' : undefined, backgroundColor: s.display === 'SOFT' ? 'transparent' : '#6b7280' }}
+            />
+            {s.label}
+          </span>
+        ))}
+      </div>
+
+      {dropMessage && (
+        <div className={`p-3 rounded-lg text-sm flex justify-between items-center ${dropMessage.isError ? 'bg-red-500/20 border border-red-500/50 text-red-200' : 'bg-green-500/10 border border-green-500/30 text-green-300'}`}>
+          {dropMessage.text}
+          <button onClick={() => setDropMessage(null)} className="text-xs opacity-70 hover:opacity-100">Dismiss</button>
+        </div>
+      )}
 
       {/* Selected Date Details */}
       <div className="mt-8">
         <h3 className="text-xl font-semibold text-white mb-4 flex items-center gap-2">
             Schedule for {new Date(selectedDate).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}
         </h3>
+        {onRescheduleBooking && selectedDateBookings.length > 0 && (
+          <p className="text-xs text-gray-500 -mt-2 mb-4">Drag a session onto another day to reschedule it.</p>
+        )}
+        {(selectedHoliday || selectedBlackouts.length > 0) && (
+          <div className="mb-4 space-y-2">
+            {selectedHoliday && (
+              <div className="p-3 rounded-lg text-sm bg-red-500/10 border border-red-500/30 text-red-200">
+                Holiday: {selectedHoliday.name}. The studio is closed.
+              </div>
+            )}
+            {selectedBlackouts.map(b => (
+              <div key={b.id} className="p-3 rounded-lg text-sm bg-white/5 border border-white/10 text-gray-300 flex items-center gap-2">
+                <Ban size={14} className="text-gray-400" />
+                {b.startTime}–{b.endTime} • {b.roomId ? getRoom(rooms, b.roomId)?.name : 'Whole studio'} • {b.reason}
+              </div>
+            ))}
+          </div>
+        )}
         <BookingList 
             bookings={selectedDateBookings} 
+            rooms={rooms}
+            staff={staff}
             onStatusChange={onStatusChange}
             onComplete={onComplete}
+            onIssueInvoice={onIssueInvoice}
+            rateCard={rateCard}
+            clients={clients}
+            invoices={invoices}
+            payments={payments}
+            onRecordPayment={onRecordPayment}
+            onUpdateSeries={onUpdateSeries}
+            onEditBooking={onEditBooking}
+            draggable={!!onRescheduleBooking}
+            activity={activity}
+            onUndo={onUndo}
         />
       </div>
     </div>
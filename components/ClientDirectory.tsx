@@ -0,0 +1,175 @@
+import React, { useState, useMemo } from 'react';
+import { Search, Users, GitMerge, X, ChevronRight } from 'lucide-react';
+import { Booking, Client, Payment, Room, StaffMember } from '../types';
+import { findDuplicateGroups, getClientStats, normalizeName } from '../services/clientService';
+import { formatDuration } from '../services/schedulingService';
+import { getClientBalance } from '../services/paymentService';
+import { formatAmount } from '../services/invoiceService';
+import { useCan } from './SessionContext';
+import ClientProfile from './ClientProfile';
+
+interface ClientDirectoryProps {
+  clients: Client[];
+  bookings: Booking[];
+  rooms: Room[];
+  staff: StaffMember[];
+  onUpdateClient: (client: Client) => void;
+  onMergeClients: (primaryId: string, duplicateIds: string[]) => void;
+  payments: Payment[];
+}
+
+const ClientDirectory: React.FC<ClientDirectoryProps> = ({ clients, bookings, rooms, staff, onUpdateClient, onMergeClients, payments }) => {
+  const allowed = useCan();
+  const showBalance = allowed('payments.record');
+  const [query, setQuery] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [showMerge, setShowMerge] = useState(false);
+
+  // Merge selections per duplicate group, keyed by the group's first client id
+  const [primaryByGroup, setPrimaryByGroup] = useState<Record<string, string>>({});
+  const [excluded, setExcluded] = useState<string[]>([]);
+
+  const filteredClients = useMemo(() => {
+    const q = normalizeName(query);
+    return clients
+      .filter(c => !q || normalizeName(c.name).includes(q) || c.phoneNumbers.some(p => p.includes(query.trim())))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [clients, query]);
+
+  const duplicateGroups = useMemo(() => (showMerge ? findDuplicateGroups(clients) : []), [clients, showMerge]);
+
+  const selectedClient = clients.find(c => c.id === selectedId);
+  if (selectedClient) {
+    return (
+      <ClientProfile
+        key={selectedClient.id}
+        client={selectedClient}
+        bookings={bookings}
+        rooms={rooms}
+        staff={staff}
+        payments={payments}
+        onUpdateClient={onUpdateClient}
+        onBack={() => setSelectedId(null)}
+      />
+    );
+  }
+
+  const handleMergeGroup = (group: Client[]) => {
+    const primaryId = primaryByGroup[group[0].id] || group[0].id;
+    const duplicateIds = group.map(c => c.id).filter(id => id !== primaryId && !excluded.includes(id));
+    if (duplicateIds.length === 0) return;
+
+    const primaryName = group.find(c => c.id === primaryId)?.name;
+    if (!window.confirm(`Merge ${duplicateIds.length} record(s) into "${primaryName}"? Their bookings will move to this client.`)) return;
+    onMergeClients(primaryId, duplicateIds);
+  };
+
+  const toggleExcluded = (id: string) => {
+    setExcluded(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  return (
+    <div className="space-y-6 animate-fadeIn">
+      <div className="flex flex-col md:flex-row justify-between items-stretch md:items-center gap-4 bg-purple-900/10 p-4 rounded-xl border border-purple-500/20">
+        <div className="flex items-center gap-2 flex-1 bg-black/40 border border-white/10 rounded-lg px-3">
+          <Search size={16} className="text-gray-500" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search by name or phone"
+            className="flex-1 bg-transparent py-2 text-sm text-white focus:outline-none placeholder-white/30"
+          />
+        </div>
+        <button
+          onClick={() => setShowMerge(!showMerge)}
+          className="flex items-center justify-center gap-2 bg-purple-600 hover:bg-purple-500 text-white px-4 py-2 rounded-lg transition-colors font-semibold text-sm"
+        >
+          {showMerge ? <X size={16} /> : <GitMerge size={16} />} {showMerge ? 'Close' : 'Find Duplicates'}
+        </button>
+      </div>
+
+      {/* Merge Tool */}
+      {showMerge && (
+        <div className="glass-panel p-6 rounded-xl space-y-4">
+          <h3 className="text-lg font-semibold flex items-center gap-2">
+            <GitMerge size={20} className="text-purple-400" /> Possible Duplicates
+          </h3>
+          {duplicateGroups.length === 0 && (
+            <p className="text-sm text-gray-500">No duplicates found.</p>
+          )}
+          {duplicateGroups.map(group => {
+            const primaryId = primaryByGroup[group[0].id] || group[0].id;
+            return (
+              <div key={group[0].id} className="border border-white/10 rounded-lg p-3 space-y-2">
+                {group.map(c => (
+                  <div key={c.id} className="flex items-center gap-3 text-sm">
+                    <input
+                      type="radio"
+                      checked={primaryId === c.id}
+                      onChange={() => setPrimaryByGroup(prev => ({ ...prev, [group[0].id]: c.id }))}
+                      className="accent-purple-500"
+                      title="Keep this record"
+                    />
+                    <input
+                      type="checkbox"
+                      checked={primaryId === c.id || !excluded.includes(c.id)}
+                      disabled={primaryId === c.id}
+                      onChange={() => toggleExcluded(c.id)}
+                      className="accent-purple-500"
+                      title="Include in merge"
+                    />
+                    <span className="text-white font-medium">{c.name}</span>
+                    <span className="text-gray-500">{c.phoneNumbers.join(', ') || 'no phone'}</span>
+                    <span className="text-gray-500 ml-auto">{getClientStats(c.id, bookings).bookings.length} bookings</span>
+                  </div>
+                ))}
+                <button
+                  onClick={() => handleMergeGroup(group)}
+                  className="text-xs bg-indigo-500/10 hover:bg-indigo-500/20 text-indigo-300 border border-indigo-500/30 px-3 py-1.5 rounded-lg transition-colors"
+                >
+                  Merge into selected
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Client List */}
+      {filteredClients.length === 0 ? (
+        <div className="text-center py-20 text-gray-400 flex flex-col items-center">
+          <Users size={48} className="mb-4 opacity-20" />
+          <p>No clients found.</p>
+        </div>
+      ) : (
+        <div className="glass-panel rounded-xl divide-y divide-white/10 overflow-hidden">
+          {filteredClients.map(c => {
+            const stats = getClientStats(c.id, bookings);
+            const outstanding = showBalance ? getClientBalance(c.id, bookings, payments).outstanding : 0;
+            return (
+              <button
+                key={c.id}
+                onClick={() => setSelectedId(c.id)}
+                className="w-full flex items-center justify-between gap-4 px-4 py-3 text-left hover:bg-white/5 transition-colors"
+              >
+                <div>
+                  <p className="text-white font-medium">{c.name}</p>
+                  <p className="text-xs text-gray-500">{c.phoneNumbers.join(', ') || '-'}</p>
+                </div>
+                <div className="flex items-center gap-4 text-xs text-gray-400">
+                  <span>{stats.bookings.length} sessions</span>
+                  <span>{formatDuration(stats.totalHours)}</span>
+                  {stats.rescheduleCount > 0 && <span className="text-amber-300">moved {stats.rescheduleCount}×</span>}
+                  {outstanding > 0 && <span className="text-amber-300">Rs. {formatAmount(outstanding)} due</span>}
+                  <ChevronRight size={16} />
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ClientDirectory;
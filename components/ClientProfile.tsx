@@ -0,0 +1,206 @@
+import React, { useState, useMemo } from 'react';
+import { ArrowLeft, Phone, Mail, FileText, Clock, IndianRupee, Save, MoveRight, CalendarPlus, Wallet } from 'lucide-react';
+import { Booking, Client, Payment, Room, StaffMember } from '../types';
+import { getClientStats } from '../services/clientService';
+import { formatDuration, getRoom } from '../services/schedulingService';
+import { downloadIcs } from '../services/icsService';
+import { BOOKING_STATUSES } from '../services/bookingStatusService';
+import { getClientBalance } from '../services/paymentService';
+import { formatAmount } from '../services/invoiceService';
+import { useCan } from './SessionContext';
+
+interface ClientProfileProps {
+  client: Client;
+  bookings: Booking[];
+  rooms: Room[];
+  staff: StaffMember[];
+  payments: Payment[];
+  onUpdateClient: (client: Client) => void;
+  onBack: () => void;
+}
+
+const ClientProfile: React.FC<ClientProfileProps> = ({ client, bookings, rooms, staff, payments, onUpdateClient, onBack }) => {
+  const allowed = useCan();
+  const showRevenue = allowed('revenue.view');
+  const showBalance = allowed('payments.record');
+  const [draft, setDraft] = useState({
+    name: client.name,
+    phones: client.phoneNumbers.join(', '),
+    email: client.email || '',
+    gstin: client.gstin || '',
+    notes: client.notes || ''
+  });
+
+  const stats = useMemo(() => getClientStats(client.id, bookings), [client.id, bookings]);
+  const balance = useMemo(() => getClientBalance(client.id, bookings, payments), [client.id, bookings, payments]);
+  const statColumns = 3 + Number(showRevenue) + Number(showBalance);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setDraft(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSave = () => {
+    if (!draft.name.trim()) return;
+    onUpdateClient({
+      ...client,
+      name: draft.name.trim(),
+      phoneNumbers: draft.phones.split(',').map(p => p.trim()).filter(Boolean),
+      email: draft.email.trim() || undefined,
+      gstin: draft.gstin.trim().toUpperCase() || undefined,
+      notes: draft.notes.trim() || undefined
+    });
+  };
+
+  return (
+    <div className="space-y-6 animate-fadeIn">
+      <div className="flex items-center justify-between">
+        <button onClick={onBack} className="flex items-center gap-2 text-sm text-gray-400 hover:text-white transition-colors">
+          <ArrowLeft size={16} /> All Clients
+        </button>
+        {allowed('data.export') && (
+          <button
+            onClick={() => downloadIcs(stats.bookings, rooms, staff, `${client.name}_sessions`)}
+            disabled={stats.bookings.length === 0}
+            className="flex items-center gap-2 text-sm bg-white/5 hover:bg-white/10 border border-white/10 text-gray-300 px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <CalendarPlus size={16} /> Export Sessions (.ics)
+          </button>
+        )}
+      </div>
+
+      {/* Stats Cards */}
+      <div className={`grid grid-cols-2 gap-4 ${statColumns === 5 ? 'md:grid-cols-5' : statColumns === 4 ? 'md:grid-cols-4' : 'md:grid-cols-3'}`}>
+        <div className="glass-panel p-4 rounded-xl border-l-4 border-l-blue-500">
+          <p className="text-gray-400 text-xs">Bookings</p>
+          <p className="text-2xl font-bold text-white">{stats.bookings.length}</p>
+        </div>
+        <div className="glass-panel p-4 rounded-xl border-l-4 border-l-purple-500">
+          <p className="text-gray-400 text-xs flex items-center gap-1"><Clock size={12} /> Total Hours</p>
+          <p className="text-2xl font-bold text-white">{formatDuration(stats.totalHours)}</p>
+        </div>
+        {showRevenue && (
+          <div className="glass-panel p-4 rounded-xl border-l-4 border-l-green-500">
+            <p className="text-gray-400 text-xs flex items-center gap-1"><IndianRupee size={12} /> Total Billed</p>
+            <p className="text-2xl font-bold text-white">Rs. {stats.totalBilled}</p>
+          </div>
+        )}
+        {showBalance && (
+          <div className="glass-panel p-4 rounded-xl border-l-4 border-l-red-500">
+            <p className="text-gray-400 text-xs flex items-center gap-1"><Wallet size={12} /> {balance.outstanding < 0 ? 'In Credit' : 'Outstanding'}</p>
+            <p className={`text-2xl font-bold ${balance.outstanding > 0 ? 'text-amber-300' : 'text-white'}`}>Rs. {formatAmount(Math.abs(balance.outstanding))}</p>
+          </div>
+        )}
+        <div className="glass-panel p-4 rounded-xl border-l-4 border-l-amber-500">
+          <p className="text-gray-400 text-xs flex items-center gap-1"><MoveRight size={12} /> Reschedules</p>
+          <p className="text-2xl font-bold text-white">{stats.rescheduleCount}</p>
+        </div>
+      </div>
+
+      {/* Details */}
+      <div className="glass-panel p-6 rounded-xl space-y-4">
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Name *</label>
+          <input
+            name="name"
+            value={draft.name}
+            onChange={handleChange}
+            className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-lg font-semibold focus:outline-none focus:border-purple-500 transition-colors"
+          />
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-xs text-gray-400 mb-1 flex items-center gap-1"><Phone size={12} /> Phones (comma separated)</label>
+            <input
+              name="phones"
+              value={draft.phones}
+              onChange={handleChange}
+              className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 focus:outline-none focus:border-purple-500 transition-colors"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1 flex items-center gap-1"><Mail size={12} /> Email</label>
+            <input
+              name="email"
+              type="email"
+              value={draft.email}
+              onChange={handleChange}
+              className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 focus:outline-none focus:border-purple-500 transition-colors"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1 flex items-center gap-1"><FileText size={12} /> GSTIN</label>
+            <input
+              name="gstin"
+              value={draft.gstin}
+              onChange={handleChange}
+              maxLength={15}
+              className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 uppercase focus:outline-none focus:border-purple-500 transition-colors"
+            />
+          </div>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Notes</label>
+          <textarea
+            name="notes"
+            value={draft.notes}
+            onChange={handleChange}
+            rows={3}
+            className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 focus:outline-none focus:border-purple-500 transition-colors"
+          />
+        </div>
+        <button
+          onClick={handleSave}
+          className="bg-purple-600 hover:bg-purple-500 text-white px-4 py-2 rounded-lg transition-colors flex items-center gap-2 text-sm font-semibold"
+        >
+          <Save size={16} /> Save Client
+        </button>
+      </div>
+
+      {/* Booking History */}
+      <div className="glass-panel rounded-xl overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm text-gray-300">
+            <thead className="bg-white/5 text-gray-100 uppercase text-xs">
+              <tr>
+                <th className="px-4 py-3">Date</th>
+                <th className="px-4 py-3">Session</th>
+                <th className="px-4 py-3">Hours</th>
+                {showRevenue && <th className="px-4 py-3">Billed</th>}
+                <th className="px-4 py-3">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/10">
+              {stats.bookings.length > 0 ? stats.bookings.map(b => (
+                <tr key={b.id} className="hover:bg-white/5 transition-colors">
+                  <td className="px-4 py-3">
+                    {b.date}
+                    <span className="text-xs text-gray-500 block">{b.startTime}</span>
+                    {b.rescheduleHistory?.map((r, i) => (
+                      <span key={i} className="text-[10px] text-amber-300/70 block line-through">{r.date} {r.startTime}</span>
+                    ))}
+                  </td>
+                  <td className="px-4 py-3">
+                    {b.type}
+                    <span className="text-xs text-gray-500 block">{getRoom(rooms, b.roomId)?.name}</span>
+                  </td>
+                  <td className="px-4 py-3">{formatDuration(b.durationHours)}</td>
+                  {showRevenue && <td className="px-4 py-3">{b.invoiceDetails ? `Rs. ${b.invoiceDetails.totalAmount}` : '-'}</td>}
+                  <td className="px-4 py-3">
+                    <span className={`text-xs px-2 py-1 rounded border ${BOOKING_STATUSES[b.status].badgeClass}`}>
+                      {BOOKING_STATUSES[b.status].label}
+                    </span>
+                  </td>
+                </tr>
+              )) : (
+                <tr><td colSpan={showRevenue ? 5 : 4} className="text-center py-8 text-gray-500">No bookings yet.</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ClientProfile;
@@ -0,0 +1,213 @@
+import React, { useState, useMemo } from 'react';
+import { X, Upload, AlertCircle, CheckCircle, FileSpreadsheet } from 'lucide-react';
+import { Booking, Room } from '../types';
+import { ColumnMapping, IMPORT_FIELDS, ImportField, buildImportPreview, guessMapping, parseCsv } from '../services/csvService';
+import { ICS_IMPORT_HEADERS, icsEventsToRows, parseIcs } from '../services/icsService';
+import { formatDuration, getRoom } from '../services/schedulingService';
+
+interface CsvImportProps {
+  existingBookings: Booking[];
+  rooms: Room[];
+  onImport: (bookings: Booking[]) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_LIMIT = 200;
+
+const CsvImport: React.FC<CsvImportProps> = ({ existingBookings, rooms, onImport, onClose }) => {
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [step, setStep] = useState<'FILE' | 'MAP' | 'PREVIEW'>('FILE');
+  const [error, setError] = useState<string | null>(null);
+
+  const preview = useMemo(
+    () => (step === 'PREVIEW' ? buildImportPreview(rows, mapping, existingBookings, rooms) : []),
+    [step, rows, mapping, existingBookings, rooms]
+  );
+  const importable = preview.filter(r => r.booking);
+
+  const missingRequired = IMPORT_FIELDS.filter(f => f.required && mapping[f.field] === undefined);
+  const hasLength = mapping.durationHours !== undefined || mapping.endTime !== undefined;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const text = await file.text();
+
+    // Calendar files have known columns, so skip straight to the preview
+    if (file.name.toLowerCase().endsWith('.ics') || text.trimStart().startsWith('BEGIN:VCALENDAR')) {
+      const icsRows = icsEventsToRows(parseIcs(text));
+      if (icsRows.length === 0) {
+        setError('No timed events found in this calendar file.');
+        return;
+      }
+      setError(null);
+      setFileName(file.name);
+      setHeaders(ICS_IMPORT_HEADERS);
+      setRows(icsRows);
+      setMapping(guessMapping(ICS_IMPORT_HEADERS));
+      setStep('PREVIEW');
+      return;
+    }
+
+    const parsed = parseCsv(text);
+    if (parsed.length < 2) {
+      setError('The file needs a header row and at least one booking.');
+      return;
+    }
+    setError(null);
+    setFileName(file.name);
+    setHeaders(parsed[0]);
+    setRows(parsed.slice(1));
+    setMapping(guessMapping(parsed[0]));
+    setStep('MAP');
+  };
+
+  const handleMap = (field: ImportField, value: string) => {
+    setMapping(prev => ({ ...prev, [field]: value === '' ? undefined : Number(value) }));
+  };
+
+  const handleImport = () => {
+    onImport(importable.map(r => r.booking!));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="glass-panel w-full max-w-3xl max-h-[90vh] overflow-y-auto rounded-2xl p-6 relative animate-fadeIn">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-white/50 hover:text-white transition-colors"
+        >
+          <X size={24} />
+        </button>
+
+        <h2 className="text-2xl font-bold font-display mb-1 flex items-center gap-2">
+          <FileSpreadsheet size={24} className="text-purple-400" /> Import Bookings
+        </h2>
+        <p className="text-sm text-gray-400 mb-6">
+          {step === 'FILE' && 'Choose a CSV or calendar (.ics) file. Files exported from this app are recognised automatically.'}
+          {step === 'MAP' && `${fileName}: ${rows.length} rows. Match each field to a column.`}
+          {step === 'PREVIEW' && `${importable.length} of ${preview.length} rows will be imported.`}
+        </p>
+
+        {error && (
+          <div className="p-3 mb-4 bg-red-500/20 border border-red-500/50 rounded-lg text-red-200 text-sm">{error}</div>
+        )}
+
+        {step === 'FILE' && (
+          <label className="flex flex-col items-center justify-center gap-2 border-2 border-dashed border-white/10 hover:border-purple-500/50 rounded-xl py-12 cursor-pointer text-gray-400 transition-colors">
+            <Upload size={32} />
+            <span className="text-sm">Select CSV or .ics file</span>
+            <input type="file" accept=".csv,text/csv,.ics,text/calendar" onChange={handleFile} className="hidden" />
+          </label>
+        )}
+
+        {step === 'MAP' && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {IMPORT_FIELDS.map(({ field, label, required }) => (
+                <div key={field} className="flex items-center gap-2">
+                  <label className="w-36 text-sm text-gray-300">{label}{required ? ' *' : ''}</label>
+                  <select
+                    value={mapping[field] ?? ''}
+                    onChange={(e) => handleMap(field, e.target.value)}
+                    className="flex-1 bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-purple-500 [&>option]:bg-slate-900"
+                  >
+                    <option value="">— not in file —</option>
+                    {headers.map((h, i) => (
+                      <option key={i} value={i}>{h || `Column ${i + 1}`} {rows[0]?.[i] ? `(e.g. ${rows[0][i].slice(0, 20)})` : ''}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+            {(missingRequired.length > 0 || !hasLength) && (
+              <p className="text-xs text-amber-300">
+                {missingRequired.length > 0 && `Still needed: ${missingRequired.map(f => f.label).join(', ')}. `}
+                {!hasLength && 'Map either Duration or End Time.'}
+              </p>
+            )}
+            <div className="flex gap-2">
+              <button onClick={() => setStep('FILE')} className="flex-1 bg-white/5 hover:bg-white/10 border border-white/10 text-white py-3 rounded-xl transition-colors">
+                Back
+              </button>
+              <button
+                onClick={() => setStep('PREVIEW')}
+                disabled={missingRequired.length > 0 || !hasLength}
+                className="flex-1 bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-500 hover:to-indigo-500 text-white font-bold py-3 rounded-xl transition-colors disabled:opacity-50"
+              >
+                Preview
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'PREVIEW' && (
+          <div className="space-y-4">
+            <div className="max-h-[50vh] overflow-y-auto border border-white/10 rounded-lg">
+              <table className="w-full text-left text-xs text-gray-300">
+                <thead className="bg-white/5 text-gray-100 uppercase sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2">Row</th>
+                    <th className="px-3 py-2">Booking</th>
+                    <th className="px-3 py-2">Result</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/10">
+                  {preview.slice(0, PREVIEW_LIMIT).map(r => (
+                    <tr key={r.line} className={r.booking ? '' : 'bg-red-500/5'}>
+                      <td className="px-3 py-2 text-gray-500">{r.line}</td>
+                      <td className="px-3 py-2">
+                        {r.booking ? (
+                          <>
+                            <span className="text-white">{r.booking.clientName}</span>
+                            <span className="block text-gray-500">
+                              {r.booking.date} {r.booking.startTime} • {formatDuration(r.booking.durationHours)} • {getRoom(rooms, r.booking.roomId)?.name} • {r.booking.type} • {r.booking.status}
+                            </span>
+                          </>
+                        ) : (
+                          <span className="text-gray-500">{rows[r.line - 2].join(', ').slice(0, 80)}</span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2">
+                        {r.errors.map((e, i) => (
+                          <span key={i} className="flex items-center gap-1 text-red-300"><AlertCircle size={12} /> {e}</span>
+                        ))}
+                        {r.warnings.map((w, i) => (
+                          <span key={i} className="block text-amber-300">{w}</span>
+                        ))}
+                        {r.booking && r.warnings.length === 0 && <CheckCircle size={14} className="text-green-400" />}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {preview.length > PREVIEW_LIMIT && (
+              <p className="text-xs text-gray-500">Showing the first {PREVIEW_LIMIT} rows.</p>
+            )}
+            <div className="flex gap-2">
+              <button onClick={() => setStep('MAP')} className="flex-1 bg-white/5 hover:bg-white/10 border border-white/10 text-white py-3 rounded-xl transition-colors">
+                Back
+              </button>
+              <button
+                onClick={handleImport}
+                disabled={importable.length === 0}
+                className="flex-1 bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-500 hover:to-indigo-500 text-white font-bold py-3 rounded-xl transition-colors disabled:opacity-50"
+              >
+                Import {importable.length} Bookings
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CsvImport;
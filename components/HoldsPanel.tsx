@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { Hourglass, BadgeCheck, X, DoorOpen } from 'lucide-react';
+import { Booking, BookingStatus, Room } from '../types';
+import { getRoom } from '../services/schedulingService';
+import { formatHoldDeadline } from '../services/bookingStatusService';
+import { useCan } from './SessionContext';
+
+interface HoldsPanelProps {
+  holds: Booking[]; // Tentative holds with a deadline coming up, soonest first
+  rooms: Room[];
+  now: number;
+  onStatusChange: (id: string, status: BookingStatus) => string | null;
+}
+
+const formatTimeLeft = (ms: number): string => {
+  const minutes = Math.max(1, Math.round(ms / 60000));
+  if (minutes < 60) return `${minutes}m left`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m left`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h left`;
+};
+
+const HoldsPanel: React.FC<HoldsPanelProps> = ({ holds, rooms, now, onStatusChange }) => {
+  const allowed = useCan();
+  const [error, setError] = useState<string | null>(null);
+
+  if (holds.length === 0) return null;
+
+  const changeStatus = (id: string, status: BookingStatus) => setError(onStatusChange(id, status));
+
+  return (
+    <div className="glass-panel p-4 rounded-xl border border-amber-500/30 space-y-3">
+      <h2 className="text-lg font-bold text-white flex items-center gap-2">
+        <Hourglass size={18} className="text-amber-300" /> Holds Expiring Soon
+      </h2>
+      {holds.map(hold => (
+        <div key={hold.id} className="flex flex-col md:flex-row md:items-center justify-between gap-2 border border-white/10 rounded-lg p-3">
+          <div className="text-sm">
+            <p className="text-white font-medium">{hold.clientName}</p>
+            <p className="text-gray-400 flex flex-wrap items-center gap-2">
+              {hold.date} • {hold.startTime}
+              <span className="flex items-center gap-1"><DoorOpen size={12} /> {getRoom(rooms, hold.roomId)?.name}</span>
+            </p>
+            <p className="text-xs text-amber-300">
+              Confirm by {formatHoldDeadline(hold.holdExpiresAt!)} ({formatTimeLeft(hold.holdExpiresAt! - now)})
+            </p>
+          </div>
+          {allowed('bookings.edit') && (
+            <div className="flex gap-2">
+              <button
+                onClick={() => changeStatus(hold.id, BookingStatus.CONFIRMED)}
+                className="flex items-center gap-1 text-xs bg-green-600 hover:bg-green-500 text-white px-3 py-1.5 rounded-lg transition-colors"
+              >
+                <BadgeCheck size={14} /> Confirm
+              </button>
+              <button
+                onClick={() => changeStatus(hold.id, BookingStatus.CANCELLED)}
+                className="flex items-center gap-1 text-xs bg-white/5 hover:bg-red-500/20 border border-white/10 text-gray-300 hover:text-red-300 px-3 py-1.5 rounded-lg transition-colors"
+              >
+                <X size={14} /> Release
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+      {error && <p className="text-sm text-red-300">{error}</p>}
+    </div>
+  );
+};
+
+export default HoldsPanel;
@@ -0,0 +1,379 @@
+import React, { useState } from 'react';
+import { Download, Share2, X, Plus, Trash2, FileX } from 'lucide-react';
+import { Booking, Client, InvoiceDiscount, InvoiceLineItem, InvoiceRecord, RateCard, StaffMember } from '../types';
+import { formatDuration } from '../services/schedulingService';
+import { PRICE_BAND_LABELS, RateOverride, getInvoiceAmounts, priceBooking } from '../services/pricingService';
+import {
+  EXTRA_ITEM_KINDS, ExtraItemKind, INVOICE_ITEM_KINDS, calculateInvoiceTotals, createExtraLine, describeActualTime,
+  describePlannedTime, downloadPdf, formatAmount, getLineAmount, getStudioTimeLines, getTaxLines, isValidGstin,
+  renderCreditNotePdf, renderInvoicePdf
+} from '../services/invoiceService';
+import { InvoiceIssuer, createCreditNote, createInvoiceRecord, getActiveInvoice, getLatestInvoice } from '../services/invoiceRegistryService';
+import { useCurrentUser } from './SessionContext';
+
+interface InvoiceEditorProps {
+  booking: Booking;
+  rateCard: RateCard;
+  client?: Client; // Supplies the GSTIN for a first invoice
+  staff: StaffMember[];
+  invoices: InvoiceRecord[];
+  onIssue: InvoiceIssuer; // Registers an invoice or credit note and links it to the booking
+  onClose: () => void;
+}
+
+const toAmount = (value: string): number => Math.max(0, Number(value) || 0);
+
+const InvoiceEditor: React.FC<InvoiceEditorProps> = ({ booking, rateCard, client, staff, invoices, onIssue, onClose }) => {
+  const currentUser = useCurrentUser();
+  const issued = getActiveInvoice(invoices, booking.id);
+  // Reissuing starts from the earlier invoice, including one a credit note has cancelled
+  const previous = issued?.details || booking.invoiceDetails || getLatestInvoice(invoices, booking.id)?.details;
+  // Set when the rate card price is being overridden for this invoice
+  const [override, setOverride] = useState<RateOverride | null>(
+    previous?.overrideReason ? { ratePerHour: previous.ratePerHour, reason: previous.overrideReason } : null
+  );
+  const [extras, setExtras] = useState<InvoiceLineItem[]>(previous?.lineItems?.filter(line => line.kind !== 'STUDIO_TIME') || []);
+  const [newKind, setNewKind] = useState<ExtraItemKind>('MUSICIAN');
+  const [discount, setDiscount] = useState<InvoiceDiscount | null>(previous?.discount || null);
+  const [clientGstin, setClientGstin] = useState(previous?.clientGstin || client?.gstin || '');
+  const [cancelReason, setCancelReason] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [issuing, setIssuing] = useState(false);
+
+  const quote = priceBooking(rateCard, booking);
+  const amounts = getInvoiceAmounts(quote, override);
+  const lines = [...getStudioTimeLines(rateCard, booking, quote, amounts), ...extras];
+  const gstin = clientGstin.trim().toUpperCase();
+  const gstinError = gstin && !isValidGstin(gstin) ? 'GSTIN should be 15 characters, like 33ABCDE1234F1Z5' : null;
+  const totals = calculateInvoiceTotals(rateCard, lines, discount || undefined, gstin || undefined);
+
+  const issueError =
+    override && !override.reason.trim() ? 'Give a reason for the override first'
+      : gstinError ? 'Fix the client GSTIN first'
+        : extras.some(line => !line.description.trim()) ? 'Describe every extra first'
+          : null;
+
+  const updateExtra = (id: string, changes: Partial<InvoiceLineItem>) =>
+    setExtras(prev => prev.map(line => {
+      if (line.id !== id) return line;
+      const updated = { ...line, ...changes };
+      return { ...updated, amount: getLineAmount(updated.quantity, updated.unitPrice) };
+    }));
+
+  const handleIssue = async () => {
+    if (issueError || issuing) return;
+    const details: NonNullable<Booking['invoiceDetails']> = {
+      ...amounts,
+      ...totals,
+      lineItems: lines,
+      discount: totals.discountAmount > 0 ? discount || undefined : undefined,
+      clientGstin: gstin || undefined,
+      generatedAt: Date.now()
+    };
+    setIssuing(true);
+    const result = await onIssue(booking.id, 'INVOICE', details.generatedAt, numbering => createInvoiceRecord(
+      numbering, booking, details,
+      number => renderInvoicePdf(number, booking, details, quote.time, staff, rateCard.studioGstin),
+      currentUser
+    ));
+    setIssuing(false);
+    // Only a number that made it into the register goes out to the client
+    if ('error' in result) {
+      setError(result.error);
+      return;
+    }
+    setError(null);
+    downloadPdf(result.record.pdf, result.record.number);
+  };
+
+  const handleCancelInvoice = async () => {
+    if (!issued || !cancelReason?.trim() || issuing) return;
+    const issuedAt = Date.now();
+    setIssuing(true);
+    const result = await onIssue(booking.id, 'CREDIT_NOTE', issuedAt, numbering => createCreditNote(
+      numbering, issuedAt, issued, cancelReason,
+      (number, issuedAt) => renderCreditNotePdf(number, issuedAt, cancelReason.trim(), issued, rateCard.studioGstin),
+      currentUser
+    ));
+    setIssuing(false);
+    if ('error' in result) {
+      setError(result.error);
+      return;
+    }
+    setError(null);
+    downloadPdf(result.record.pdf, result.record.number);
+    setCancelReason(null);
+  };
+
+  const shareOnWhatsApp = (invoice: InvoiceRecord) => {
+    if (!booking.phoneNumber) {
+      alert("Client phone number is missing!");
+      return;
+    }
+    const message = `Hello ${booking.clientName},\nHere is your invoice ${invoice.number} for the ${booking.type} session at S CUBE STUDIOZ.\n\nDate: ${booking.date}\nDuration: ${formatDuration(booking.durationHours)}\nTotal Amount: Rs. ${formatAmount(invoice.details.totalAmount)}\n\nThank you!`;
+    const url = `https://wa.me/${booking.phoneNumber.replace(/[^0-9]/g, '')}?text=${encodeURIComponent(message)}`;
+    window.open(url, '_blank');
+  };
+
+  const inputClass = "bg-white/10 border border-white/10 rounded px-2 py-1 text-sm text-white placeholder-white/30";
+
+  // Issued invoices can't be edited, only downloaded again or cancelled
+  if (issued) {
+    return (
+      <div className="mt-4 pt-4 border-t border-white/10 animate-fadeIn space-y-3">
+        <div className="flex flex-col md:flex-row gap-4 md:items-center justify-between">
+          <div className="text-sm">
+            <p className="text-white font-medium">Invoice {issued.number}</p>
+            <p className="text-gray-400">
+              Issued {new Date(issued.issuedAt).toLocaleString()} • Rs. {formatAmount(issued.details.totalAmount)}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => downloadPdf(issued.pdf, issued.number)}
+              className="p-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-white"
+              title="Download as issued"
+            >
+              <Download size={18} />
+            </button>
+            <button
+              onClick={() => shareOnWhatsApp(issued)}
+              className="p-2 bg-green-600 hover:bg-green-500 rounded-lg text-white"
+              title="Send on WhatsApp"
+            >
+              <Share2 size={18} />
+            </button>
+            <button
+              onClick={() => setCancelReason(cancelReason === null ? '' : null)}
+              className="p-2 bg-red-600/80 hover:bg-red-500 rounded-lg text-white"
+              title="Cancel with a credit note"
+            >
+              <FileX size={18} />
+            </button>
+            <button
+              onClick={onClose}
+              className="p-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-gray-300"
+              title="Close"
+            >
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+        {cancelReason !== null && (
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              value={cancelReason}
+              onChange={(e) => setCancelReason(e.target.value)}
+              placeholder="Reason for cancelling (required)"
+              className={`${inputClass} flex-1 min-w-[200px]`}
+            />
+            <button
+              onClick={handleCancelInvoice}
+              disabled={!cancelReason.trim() || issuing}
+              className="text-xs bg-red-600 hover:bg-red-500 text-white px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50"
+            >
+              Issue credit note
+            </button>
+          </div>
+        )}
+        {error && <p className="text-xs text-red-300">{error}</p>}
+      </div>
+    );
+  }
+
+  // Not in this device's register: issued before sync was set up, or not synced here yet
+  if (booking.invoiceDetails?.invoiceId) {
+    return (
+      <div className="mt-4 pt-4 border-t border-white/10 animate-fadeIn flex items-center justify-between gap-4">
+        <p className="text-sm text-gray-400">
+          Invoice {booking.invoiceDetails.invoiceNumber} was issued on another device and isn't in the register here yet. Sync first, or download or cancel it there.
+        </p>
+        <button
+          onClick={onClose}
+          className="p-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-gray-300"
+          title="Close"
+        >
+          <X size={18} />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-4 pt-4 border-t border-white/10 animate-fadeIn space-y-3">
+      <div className="flex flex-col md:flex-row gap-4 md:items-start justify-between">
+        <div className="text-sm space-y-3 flex-1">
+          <div className="space-y-1">
+            <p className="text-xs text-gray-400">
+              Planned {describePlannedTime(booking)} • Actual {describeActualTime(booking, quote.time)}
+            </p>
+            {quote.lines.map((line, i) => (
+              <p key={i} className={override ? 'text-gray-500 line-through' : 'text-gray-300'}>
+                {PRICE_BAND_LABELS[line.band]}: {formatDuration(line.hours)} × Rs. {line.ratePerHour} = Rs. {line.amount}
+              </p>
+            ))}
+            {quote.clientRate?.note && (
+              <p className="text-xs text-gray-500">{quote.clientRate.note}</p>
+            )}
+            {override ? (
+              <div className="flex flex-wrap items-center gap-2 pt-1">
+                <label className="text-xs text-gray-400">Rate/hr: Rs.</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="50"
+                  value={override.ratePerHour}
+                  onChange={(e) => setOverride({ ...override, ratePerHour: toAmount(e.target.value) })}
+                  className={`${inputClass} w-24`}
+                />
+                <input
+                  value={override.reason}
+                  onChange={(e) => setOverride({ ...override, reason: e.target.value })}
+                  placeholder="Reason for the different rate (required)"
+                  className={`${inputClass} flex-1 min-w-[200px]`}
+                />
+                <button onClick={() => setOverride(null)} className="text-xs text-gray-400 hover:text-white">
+                  Use rate card
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={() => setOverride({ ratePerHour: quote.ratePerHour, reason: '' })}
+                className="text-xs text-amber-300 hover:text-amber-200"
+              >
+                Override rate
+              </button>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-xs text-gray-400">Extras</p>
+            {extras.map(line => (
+              <div key={line.id} className="flex flex-wrap items-center gap-2">
+                <input
+                  value={line.description}
+                  onChange={(e) => updateExtra(line.id, { description: e.target.value })}
+                  placeholder={INVOICE_ITEM_KINDS[line.kind].label}
+                  className={`${inputClass} flex-1 min-w-[160px]`}
+                />
+                <input
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={line.quantity}
+                  onChange={(e) => updateExtra(line.id, { quantity: toAmount(e.target.value) })}
+                  className={`${inputClass} w-16`}
+                  title={`Number of ${INVOICE_ITEM_KINDS[line.kind].unit}s`}
+                />
+                <span className="text-xs text-gray-500">{INVOICE_ITEM_KINDS[line.kind].unit} × Rs.</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="50"
+                  value={line.unitPrice}
+                  onChange={(e) => updateExtra(line.id, { unitPrice: toAmount(e.target.value) })}
+                  className={`${inputClass} w-24`}
+                />
+                <span className="text-gray-300 w-20 text-right">Rs. {formatAmount(line.amount)}</span>
+                <button
+                  onClick={() => setExtras(prev => prev.filter(l => l.id !== line.id))}
+                  className="p-1 text-gray-500 hover:text-red-400 transition-colors"
+                  title="Remove line"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+            <div className="flex items-center gap-2">
+              <select
+                value={newKind}
+                onChange={(e) => setNewKind(e.target.value as ExtraItemKind)}
+                className={`${inputClass} [&>option]:bg-slate-900`}
+              >
+                {EXTRA_ITEM_KINDS.map(kind => <option key={kind} value={kind}>{INVOICE_ITEM_KINDS[kind].label}</option>)}
+              </select>
+              <button
+                onClick={() => setExtras(prev => [...prev, createExtraLine(rateCard, newKind)])}
+                className="flex items-center gap-1 text-xs text-purple-300 hover:text-purple-200"
+              >
+                <Plus size={14} /> Add line
+              </button>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <label className="text-xs text-gray-400">Discount</label>
+            <select
+              value={discount?.type || ''}
+              onChange={(e) => setDiscount(e.target.value ? { type: e.target.value as InvoiceDiscount['type'], value: discount?.value || 0 } : null)}
+              className={`${inputClass} [&>option]:bg-slate-900`}
+            >
+              <option value="">None</option>
+              <option value="PERCENT">Percent</option>
+              <option value="FLAT">Flat Rs.</option>
+            </select>
+            {discount && (
+              <input
+                type="number"
+                min="0"
+                max={discount.type === 'PERCENT' ? 100 : undefined}
+                step={discount.type === 'PERCENT' ? 1 : 50}
+                value={discount.value}
+                onChange={(e) => setDiscount({ ...discount, value: toAmount(e.target.value) })}
+                className={`${inputClass} w-24`}
+              />
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <label className="text-xs text-gray-400">Client GSTIN</label>
+            <input
+              value={clientGstin}
+              onChange={(e) => setClientGstin(e.target.value)}
+              placeholder="Unregistered"
+              className={`${inputClass} w-48 uppercase`}
+            />
+            {gstinError && <span className="text-xs text-red-300">{gstinError}</span>}
+          </div>
+        </div>
+
+        <div className="flex items-start gap-4">
+          <div className="text-right text-sm space-y-0.5">
+            <p className="text-gray-400">Subtotal: Rs. {formatAmount(totals.subtotal)}</p>
+            {totals.discountAmount > 0 && (
+              <p className="text-gray-400">Discount: − Rs. {formatAmount(totals.discountAmount)}</p>
+            )}
+            {totals.tax && getTaxLines(totals.tax).map(({ label, amount }) => (
+              <p key={label} className="text-gray-400">{label}: Rs. {formatAmount(amount)}</p>
+            ))}
+            <p className="text-xs text-gray-400 pt-1">Total Amount</p>
+            <p className="text-xl font-bold text-white">Rs. {formatAmount(totals.totalAmount)}</p>
+            {amounts.quotedAmount !== undefined && (
+              <p className="text-xs text-gray-500">Rate card time: Rs. {amounts.quotedAmount}</p>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={handleIssue}
+              disabled={!!issueError || issuing}
+              className="p-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-white disabled:opacity-50"
+              title={issueError || "Issue and download"}
+            >
+              <Download size={18} />
+            </button>
+            <button
+              onClick={onClose}
+              className="p-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-gray-300"
+              title="Close"
+            >
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+      </div>
+      {error && <p className="text-xs text-red-300 text-right">{error}</p>}
+    </div>
+  );
+};
+
+export default InvoiceEditor;
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { BookText, Download } from 'lucide-react';
+import { InvoiceRecord } from '../types';
+import { downloadPdf, formatAmount } from '../services/invoiceService';
+import { DOCUMENT_LABELS, getCreditNote, getFinancialYear, getRegister } from '../services/invoiceRegistryService';
+
+interface InvoiceRegisterProps {
+  invoices: InvoiceRecord[];
+}
+
+const InvoiceRegister: React.FC<InvoiceRegisterProps> = ({ invoices }) => {
+  const [year, setYear] = useState(() => getFinancialYear(Date.now()));
+
+  const years = [...new Set([year, ...invoices.map(r => r.financialYear)])].sort().reverse();
+  const register = getRegister(invoices).filter(r => r.financialYear === year);
+  const net = register.reduce((sum, r) => sum + (r.type === 'CREDIT_NOTE' ? -1 : 1) * r.details.totalAmount, 0);
+
+  const describeStatus = (record: InvoiceRecord): string => {
+    if (record.type === 'CREDIT_NOTE') {
+      const invoice = invoices.find(r => r.id === record.cancelsId);
+      return `Cancels ${invoice?.number || 'an invoice'}: ${record.reason}`;
+    }
+    const creditNote = getCreditNote(invoices, record.id);
+    return creditNote ? `Cancelled by ${creditNote.number}` : 'Issued';
+  };
+
+  return (
+    <div className="glass-panel p-6 rounded-xl space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <BookText size={20} className="text-purple-400" /> Invoice Register
+        </h3>
+        <select
+          value={year}
+          onChange={(e) => setYear(e.target.value)}
+          className="bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-purple-500 [&>option]:bg-slate-900"
+        >
+          {years.map(y => <option key={y} value={y}>FY {y}</option>)}
+        </select>
+      </div>
+
+      {register.length === 0 ? (
+        <p className="text-sm text-gray-500">No invoices issued in FY {year}.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm text-gray-300">
+            <thead className="bg-white/5 text-gray-100 uppercase text-xs">
+              <tr>
+                <th className="px-4 py-3">Number</th>
+                <th className="px-4 py-3">Date</th>
+                <th className="px-4 py-3">Client</th>
+                <th className="px-4 py-3 text-right">Amount</th>
+                <th className="px-4 py-3">Status</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {register.map(record => (
+                <tr key={record.id} className="border-b border-white/5">
+                  <td className="px-4 py-3 text-white whitespace-nowrap">
+                    {record.number}
+                    <span className="block text-xs text-gray-500">{DOCUMENT_LABELS[record.type]}</span>
+                  </td>
+                  <td className="px-4 py-3 text-gray-300 whitespace-nowrap">{new Date(record.issuedAt).toLocaleDateString()}</td>
+                  <td className="px-4 py-3 text-gray-300">{record.clientName}</td>
+                  <td className={`px-4 py-3 text-right whitespace-nowrap ${record.type === 'CREDIT_NOTE' ? 'text-red-300' : 'text-white'}`}>
+                    {record.type === 'CREDIT_NOTE' ? '− ' : ''}Rs. {formatAmount(record.details.totalAmount)}
+                  </td>
+                  <td className="px-4 py-3 text-gray-400">{describeStatus(record)}</td>
+                  <td className="px-4 py-3 text-right">
+                    <button
+                      onClick={() => downloadPdf(record.pdf, record.number)}
+                      className="p-1.5 text-gray-400 hover:text-white transition-colors"
+                      title="Download as issued"
+                    >
+                      <Download size={16} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-sm text-gray-400 text-right mt-3">Net invoiced in FY {year}: Rs. {formatAmount(net)}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InvoiceRegister;
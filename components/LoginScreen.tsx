@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { Lock, Loader2, CircleUser } from 'lucide-react';
+import { UserAccount, UserRole } from '../types';
+import { createAccount, isValidPin, verifyPin } from '../services/authService';
+import { ROLE_LABELS } from '../services/permissions';
+
+interface LoginScreenProps {
+  accounts: UserAccount[];
+  onLogin: (account: UserAccount) => void;
+  onCreateOwner: (account: UserAccount) => void;
+}
+
+const MAX_ATTEMPTS = 5;
+const LOCKOUT_MS = 30000;
+
+const LoginScreen: React.FC<LoginScreenProps> = ({ accounts, onLogin, onCreateOwner }) => {
+  const activeAccounts = accounts.filter(a => a.active);
+  const [selectedId, setSelectedId] = useState<string>(activeAccounts[0]?.id || '');
+  const [name, setName] = useState('');
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [failures, setFailures] = useState(0);
+  const [lockedUntil, setLockedUntil] = useState(0);
+
+  const isFirstRun = accounts.length === 0;
+
+  const handleLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const account = activeAccounts.find(a => a.id === selectedId);
+    if (!account || !pin) return;
+    if (Date.now() < lockedUntil) {
+      setError('Too many wrong PINs. Please wait a moment and try again.');
+      return;
+    }
+
+    setBusy(true);
+    const ok = await verifyPin(account, pin);
+    setBusy(false);
+    setPin('');
+    if (ok) {
+      onLogin(account);
+      return;
+    }
+    const attempts = failures + 1;
+    setFailures(attempts >= MAX_ATTEMPTS ? 0 : attempts);
+    if (attempts >= MAX_ATTEMPTS) setLockedUntil(Date.now() + LOCKOUT_MS);
+    setError('Wrong PIN.');
+  };
+
+  const handleCreateOwner = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      setError('Please enter your name.');
+      return;
+    }
+    if (!isValidPin(pin)) {
+      setError('The PIN must be 4 to 8 digits.');
+      return;
+    }
+    if (pin !== confirmPin) {
+      setError("The PINs don't match.");
+      return;
+    }
+    setBusy(true);
+    onCreateOwner(await createAccount(name, UserRole.OWNER, pin));
+  };
+
+  const pinInput = (value: string, onChange: (v: string) => void, placeholder: string) => (
+    <input
+      type="password"
+      inputMode="numeric"
+      autoComplete="off"
+      value={value}
+      onChange={(e) => { onChange(e.target.value.replace(/\D/g, '').slice(0, 8)); setError(null); }}
+      placeholder={placeholder}
+      className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-3 text-center text-lg tracking-[0.5em] text-white focus:outline-none focus:border-purple-500 placeholder:tracking-normal placeholder:text-sm"
+    />
+  );
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <div className="glass-panel w-full max-w-sm rounded-2xl p-6 space-y-5 animate-fadeIn">
+        <div className="flex flex-col items-center gap-2">
+          <div className="w-12 h-12 rounded bg-gradient-to-br from-purple-600 to-pink-600 flex items-center justify-center text-white text-xl font-bold font-display">
+            S³
+          </div>
+          <h1 className="text-xl font-display font-bold text-white tracking-wider">
+            S CUBE <span className="text-purple-400">STUDIOZ</span>
+          </h1>
+        </div>
+
+        {isFirstRun ? (
+          <form onSubmit={handleCreateOwner} className="space-y-3">
+            <p className="text-sm text-gray-400 text-center">
+              Create the owner account. The owner can add logins for the front desk and engineers under Settings.
+            </p>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => { setName(e.target.value); setError(null); }}
+              placeholder="Your name"
+              className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-purple-500"
+            />
+            {pinInput(pin, setPin, 'Choose a 4–8 digit PIN')}
+            {pinInput(confirmPin, setConfirmPin, 'Repeat the PIN')}
+            {error && <p className="text-sm text-red-300 text-center">{error}</p>}
+            <button
+              type="submit"
+              disabled={busy}
+              className="w-full bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-500 hover:to-indigo-500 text-white font-bold py-3 rounded-xl transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+            >
+              {busy ? <Loader2 size={18} className="animate-spin" /> : <Lock size={18} />} Create Owner Account
+            </button>
+          </form>
+        ) : (
+          <form onSubmit={handleLogin} className="space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              {activeAccounts.map(a => (
+                <button
+                  key={a.id}
+                  type="button"
+                  onClick={() => { setSelectedId(a.id); setPin(''); setError(null); }}
+                  className={`flex flex-col items-center gap-1 p-3 rounded-xl border transition-colors ${selectedId === a.id ? 'bg-purple-600/30 border-purple-500 text-white' : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'}`}
+                >
+                  <CircleUser size={24} />
+                  <span className="text-sm font-semibold truncate max-w-full">{a.name}</span>
+                  <span className="text-[10px] text-gray-400 uppercase">{ROLE_LABELS[a.role]}</span>
+                </button>
+              ))}
+            </div>
+            {pinInput(pin, setPin, 'PIN')}
+            {error && <p className="text-sm text-red-300 text-center">{error}</p>}
+            <button
+              type="submit"
+              disabled={busy || !selectedId || !pin}
+              className="w-full bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-500 hover:to-indigo-500 text-white font-bold py-3 rounded-xl transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+            >
+              {busy ? <Loader2 size={18} className="animate-spin" /> : <Lock size={18} />} Log In
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LoginScreen;
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { WifiOff, Sparkles, Loader2, X, AlertCircle } from 'lucide-react';
+import { QueuedAiRequest, describeQueuedRequest } from '../services/aiQueueService';
+
+interface OfflineStatusProps {
+  isOnline: boolean;
+  queue: QueuedAiRequest[];
+  onOpenDraft: (request: QueuedAiRequest) => void;
+  onDismiss: (id: string) => void;
+}
+
+const OfflineStatus: React.FC<OfflineStatusProps> = ({ isOnline, queue, onOpenDraft, onDismiss }) => {
+  const [open, setOpen] = useState(false);
+  const readyCount = queue.filter(r => r.status === 'DONE').length;
+
+  if (isOnline && queue.length === 0) return null;
+
+  return (
+    <div className="relative flex items-center gap-2">
+      {!isOnline && (
+        <span className="flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-semibold bg-amber-500/20 border border-amber-500/40 text-amber-300" title="Changes are saved on this device. AI requests wait until you're back online.">
+          <WifiOff size={14} /> <span className="hidden md:inline">Offline</span>
+        </span>
+      )}
+      {queue.length > 0 && (
+        <button
+          onClick={() => setOpen(o => !o)}
+          className={`flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-semibold border transition-colors ${readyCount > 0 ? 'bg-purple-500/20 border-purple-500/50 text-purple-200' : 'bg-white/5 border-white/10 text-gray-300'}`}
+        >
+          <Sparkles size={14} /> {readyCount > 0 ? `${readyCount} ready` : `${queue.length} queued`}
+        </button>
+      )}
+
+      {open && queue.length > 0 && (
+        <div className="absolute right-0 top-10 w-80 glass-panel rounded-xl p-3 space-y-2 animate-fadeIn">
+          <p className="text-xs text-gray-400 uppercase tracking-wider">Queued AI Quick Fill</p>
+          {queue.map(r => (
+            <div key={r.id} className="flex items-start gap-2 text-sm border border-white/10 rounded-lg p-2">
+              <div className="flex-1 min-w-0">
+                <p className="text-white truncate">{describeQueuedRequest(r)}</p>
+                {r.status === 'PENDING' && (
+                  <p className="text-xs text-gray-500 flex items-center gap-1">
+                    {isOnline ? <><Loader2 size={12} className="animate-spin" /> Processing…</> : 'Waiting for connection'}
+                  </p>
+                )}
+                {r.status === 'FAILED' && (
+                  <p className="text-xs text-red-300 flex items-center gap-1"><AlertCircle size={12} /> Could not understand this request</p>
+                )}
+                {r.status === 'DONE' && r.result && (
+                  <p className="text-xs text-gray-400 truncate">
+                    {[r.result.clientName, r.result.date, r.result.startTime].filter(Boolean).join(' • ')}
+                  </p>
+                )}
+              </div>
+              {r.status === 'DONE' && (
+                <button
+                  onClick={() => { onOpenDraft(r); setOpen(false); }}
+                  className="text-xs bg-purple-600 hover:bg-purple-500 text-white px-2 py-1 rounded-lg transition-colors"
+                >
+                  Open
+                </button>
+              )}
+              <button onClick={() => onDismiss(r.id)} className="text-gray-500 hover:text-white transition-colors" title="Discard">
+                <X size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OfflineStatus;
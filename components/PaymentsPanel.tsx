@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { Printer, Plus } from 'lucide-react';
+import { Booking, Payment, PaymentKind, PaymentMode } from '../types';
+import { toDateTimeInput } from '../services/schedulingService';
+import { downloadReceiptPdf, formatAmount, roundToPaise } from '../services/invoiceService';
+import { PAYMENT_KIND_LABELS, PAYMENT_MODE_LABELS, PaymentRecorder, createPayment, getAmountPaid, getBookingBalance, getBookingPayments } from '../services/paymentService';
+import { useCurrentUser } from './SessionContext';
+
+interface PaymentsPanelProps {
+  booking: Booking;
+  payments: Payment[];
+  onRecord: PaymentRecorder;
+}
+
+const PaymentsPanel: React.FC<PaymentsPanelProps> = ({ booking, payments, onRecord }) => {
+  const currentUser = useCurrentUser();
+  const entries = getBookingPayments(payments, booking.id);
+  const balance = getBookingBalance(booking, payments);
+  // Before the invoice, money taken is an advance
+  const [draft, setDraft] = useState({
+    kind: (booking.invoiceDetails ? 'PAYMENT' : 'ADVANCE') as PaymentKind,
+    amount: balance.outstanding > 0 ? String(balance.outstanding) : '',
+    mode: 'UPI' as PaymentMode,
+    reference: '',
+    notes: '',
+    receivedAt: toDateTimeInput(Date.now())
+  });
+  const [error, setError] = useState<string | null>(null);
+  const [recording, setRecording] = useState(false);
+
+  const handleRecord = async () => {
+    if (recording) return;
+    const amount = Number(draft.amount);
+    if (!(amount > 0)) {
+      setError('Enter an amount above zero.');
+      return;
+    }
+    if (draft.kind === 'REFUND' && amount > balance.paid) {
+      setError(`Only Rs. ${formatAmount(balance.paid)} has been paid on this booking.`);
+      return;
+    }
+    if (draft.mode !== 'CASH' && !draft.reference.trim()) {
+      setError('Add the transaction reference for UPI and bank transfers.');
+      return;
+    }
+    const input = {
+      kind: draft.kind,
+      amount: roundToPaise(amount),
+      mode: draft.mode,
+      reference: draft.reference,
+      notes: draft.notes,
+      receivedAt: new Date(draft.receivedAt).getTime() || Date.now()
+    };
+    setRecording(true);
+    const result = await onRecord(booking.id, numbering => createPayment(numbering, booking, input, currentUser));
+    setRecording(false);
+    if ('error' in result) {
+      setError(result.error);
+      return;
+    }
+    setError(null);
+    setDraft(prev => ({ ...prev, kind: 'PAYMENT', amount: '', reference: '', notes: '' }));
+  };
+
+  const inputClass = "bg-white/10 border border-white/10 rounded px-2 py-1 text-sm text-white placeholder-white/30 [color-scheme:dark]";
+
+  return (
+    <div className="mt-4 pt-4 border-t border-white/10 animate-fadeIn space-y-3">
+      <div className="flex flex-wrap gap-4 text-sm">
+        <span className="text-gray-400">Invoiced: <span className="text-white">{booking.invoiceDetails ? `Rs. ${formatAmount(balance.billed)}` : 'not yet'}</span></span>
+        <span className="text-gray-400">Paid: <span className="text-white">Rs. {formatAmount(balance.paid)}</span></span>
+        <span className="text-gray-400">
+          {balance.outstanding < 0 ? 'In credit' : 'Outstanding'}:{' '}
+          <span className={balance.outstanding > 0 ? 'text-amber-300' : 'text-green-300'}>Rs. {formatAmount(Math.abs(balance.outstanding))}</span>
+        </span>
+      </div>
+
+      {entries.length > 0 && (
+        <div className="space-y-1">
+          {entries.map((payment, i) => (
+            <div key={payment.id} className="flex items-center justify-between gap-3 text-sm">
+              <div>
+                <span className={payment.kind === 'REFUND' ? 'text-red-300' : 'text-gray-200'}>
+                  {PAYMENT_KIND_LABELS[payment.kind]} {payment.kind === 'REFUND' ? '−' : ''}Rs. {formatAmount(payment.amount)}
+                </span>
+                <span className="text-gray-500">
+                  {' '}• {PAYMENT_MODE_LABELS[payment.mode]}{payment.reference && ` ${payment.reference}`} • {new Date(payment.receivedAt).toLocaleString()} • {payment.receiptNumber}
+                </span>
+                {payment.notes && <p className="text-xs text-gray-500">{payment.notes}</p>}
+              </div>
+              <button
+                onClick={() => downloadReceiptPdf(payment, booking, getAmountPaid(entries.slice(0, i + 1)))}
+                className="p-1.5 text-gray-400 hover:text-white transition-colors"
+                title="Print receipt"
+              >
+                <Printer size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={draft.kind}
+          onChange={(e) => setDraft(prev => ({ ...prev, kind: e.target.value as PaymentKind }))}
+          className={`${inputClass} [&>option]:bg-slate-900`}
+        >
+          {(Object.keys(PAYMENT_KIND_LABELS) as PaymentKind[]).map(kind => (
+            <option key={kind} value={kind}>{PAYMENT_KIND_LABELS[kind]}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min="0"
+          step="100"
+          value={draft.amount}
+          onChange={(e) => setDraft(prev => ({ ...prev, amount: e.target.value }))}
+          placeholder="Rs."
+          className={`${inputClass} w-28`}
+        />
+        <select
+          value={draft.mode}
+          onChange={(e) => setDraft(prev => ({ ...prev, mode: e.target.value as PaymentMode }))}
+          className={`${inputClass} [&>option]:bg-slate-900`}
+        >
+          {(Object.keys(PAYMENT_MODE_LABELS) as PaymentMode[]).map(mode => (
+            <option key={mode} value={mode}>{PAYMENT_MODE_LABELS[mode]}</option>
+          ))}
+        </select>
+        <input
+          value={draft.reference}
+          onChange={(e) => setDraft(prev => ({ ...prev, reference: e.target.value }))}
+          placeholder={draft.mode === 'CASH' ? 'Reference (optional)' : 'Transaction reference'}
+          className={`${inputClass} w-44`}
+        />
+        <input
+          type="datetime-local"
+          value={draft.receivedAt}
+          onChange={(e) => setDraft(prev => ({ ...prev, receivedAt: e.target.value }))}
+          className={inputClass}
+        />
+        <input
+          value={draft.notes}
+          onChange={(e) => setDraft(prev => ({ ...prev, notes: e.target.value }))}
+          placeholder="Notes"
+          className={`${inputClass} flex-1 min-w-[120px]`}
+        />
+        <button
+          onClick={handleRecord}
+          disabled={recording}
+          className="flex items-center gap-1 text-xs bg-purple-600 hover:bg-purple-500 text-white px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50"
+        >
+          <Plus size={14} /> Record
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-300">{error}</p>}
+    </div>
+  );
+};
+
+export default PaymentsPanel;
@@ -0,0 +1,304 @@
+import React, { useState } from 'react';
+import { IndianRupee, Trash2, Plus } from 'lucide-react';
+import { Client, ClientRate, RateCard } from '../types';
+import { SESSION_TYPES } from '../services/schedulingService';
+import { EXTRA_ITEM_KINDS, INVOICE_ITEM_KINDS, isValidGstin } from '../services/invoiceService';
+
+interface RateCardSettingsProps {
+  rateCard: RateCard;
+  clients: Client[];
+  onUpdateRateCard: (rateCard: RateCard) => void;
+}
+
+const toAmount = (value: string): number => Math.max(0, Number(value) || 0);
+
+const BILLING_INCREMENTS = [1, 15, 30, 60];
+
+const MULTIPLIER_FIELDS: { field: 'peakMultiplier' | 'offPeakMultiplier' | 'weekendMultiplier'; label: string }[] = [
+  { field: 'peakMultiplier', label: 'Peak ×' },
+  { field: 'offPeakMultiplier', label: 'Off-peak ×' },
+  { field: 'weekendMultiplier', label: 'Weekend ×' }
+];
+
+const RateCardSettings: React.FC<RateCardSettingsProps> = ({ rateCard, clients, onUpdateRateCard }) => {
+  const [newRate, setNewRate] = useState({ clientId: '', sessionType: '', ratePerHour: '', note: '' });
+
+  // Types that only exist on older bookings keep their rates
+  const sessionTypes = [...new Set([...SESSION_TYPES, ...Object.keys(rateCard.sessionRates)])];
+
+  const update = (changes: Partial<RateCard>) => onUpdateRateCard({ ...rateCard, ...changes });
+
+  const updateClientRate = (id: string, changes: Partial<ClientRate>) =>
+    update({ clientRates: rateCard.clientRates.map(r => (r.id === id ? { ...r, ...changes } : r)) });
+
+  const handleAddClientRate = () => {
+    if (!newRate.clientId || !newRate.ratePerHour) return;
+    update({
+      clientRates: [...rateCard.clientRates, {
+        id: crypto.randomUUID(),
+        clientId: newRate.clientId,
+        sessionType: newRate.sessionType || undefined,
+        ratePerHour: toAmount(newRate.ratePerHour),
+        note: newRate.note.trim() || undefined
+      }]
+    });
+    setNewRate({ clientId: '', sessionType: '', ratePerHour: '', note: '' });
+  };
+
+  const studioGstin = rateCard.studioGstin || '';
+
+  const inputClass = "bg-white/5 border border-white/10 rounded-lg px-3 py-2 focus:outline-none focus:border-purple-500 transition-colors text-white [color-scheme:dark]";
+
+  return (
+    <div className="glass-panel p-6 rounded-xl space-y-6">
+      <h3 className="text-lg font-semibold flex items-center gap-2">
+        <IndianRupee size={20} className="text-purple-400" /> Rate Card
+      </h3>
+
+      <div>
+        <p className="text-sm text-gray-400 mb-2">Hourly rates by session type</p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {sessionTypes.map(type => (
+            <label key={type} className="flex items-center justify-between gap-3 text-sm">
+              <span className="text-gray-300">{type}</span>
+              <input
+                type="number"
+                min="0"
+                step="50"
+                value={rateCard.sessionRates[type] ?? rateCard.defaultRate}
+                onChange={(e) => update({ sessionRates: { ...rateCard.sessionRates, [type]: toAmount(e.target.value) } })}
+                className={`${inputClass} w-28`}
+              />
+            </label>
+          ))}
+          <label className="flex items-center justify-between gap-3 text-sm">
+            <span className="text-gray-300">Any other type</span>
+            <input
+              type="number"
+              min="0"
+              step="50"
+              value={rateCard.defaultRate}
+              onChange={(e) => update({ defaultRate: toAmount(e.target.value) })}
+              className={`${inputClass} w-28`}
+            />
+          </label>
+        </div>
+      </div>
+
+      <div>
+        <p className="text-sm text-gray-400 mb-2">Peak hours and multipliers</p>
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <span className="text-gray-300">Peak from</span>
+          <input type="time" value={rateCard.peakStart} onChange={(e) => update({ peakStart: e.target.value })} className={inputClass} />
+          <span className="text-gray-300">to</span>
+          <input type="time" value={rateCard.peakEnd} onChange={(e) => update({ peakEnd: e.target.value })} className={inputClass} />
+          {MULTIPLIER_FIELDS.map(({ field, label }) => (
+            <label key={field} className="flex items-center gap-2">
+              <span className="text-gray-300">{label}</span>
+              <input
+                type="number"
+                min="0"
+                step="0.05"
+                value={rateCard[field]}
+                onChange={(e) => update({ [field]: toAmount(e.target.value) })}
+                className={`${inputClass} w-20`}
+              />
+            </label>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500 mt-1">Weekend rates apply all day on Saturdays and Sundays.</p>
+      </div>
+
+      <div>
+        <p className="text-sm text-gray-400 mb-2">Overtime</p>
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <label className="flex items-center gap-2">
+            <span className="text-gray-300">Rate/hr</span>
+            <input
+              type="number"
+              min="0"
+              step="50"
+              value={rateCard.overtimeRate}
+              onChange={(e) => update({ overtimeRate: toAmount(e.target.value) })}
+              className={`${inputClass} w-28`}
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            <span className="text-gray-300">Grace (min)</span>
+            <input
+              type="number"
+              min="0"
+              step="5"
+              value={rateCard.gracePeriodMinutes}
+              onChange={(e) => update({ gracePeriodMinutes: toAmount(e.target.value) })}
+              className={`${inputClass} w-20`}
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            <span className="text-gray-300">Round up to</span>
+            <select
+              value={rateCard.billingIncrementMinutes}
+              onChange={(e) => update({ billingIncrementMinutes: Number(e.target.value) })}
+              className={`${inputClass} [&>option]:bg-slate-900`}
+            >
+              {BILLING_INCREMENTS.map(minutes => (
+                <option key={minutes} value={minutes}>{minutes === 1 ? 'the minute' : `${minutes} minutes`}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <p className="text-xs text-gray-500 mt-1">The booked time is always charged. Running over by more than the grace period is charged at the overtime rate.</p>
+      </div>
+
+      <div>
+        <p className="text-sm text-gray-400 mb-2">GST</p>
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <label className="flex items-center gap-2">
+            <span className="text-gray-300">Studio GSTIN</span>
+            <input
+              value={studioGstin}
+              onChange={(e) => update({ studioGstin: e.target.value.trim().toUpperCase() || undefined })}
+              placeholder="Not registered"
+              className={`${inputClass} w-48 placeholder-white/30`}
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            <span className="text-gray-300">Rate %</span>
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={rateCard.gstRate}
+              onChange={(e) => update({ gstRate: toAmount(e.target.value) })}
+              className={`${inputClass} w-20`}
+            />
+          </label>
+        </div>
+        {studioGstin && !isValidGstin(studioGstin) ? (
+          <p className="text-xs text-red-300 mt-1">GSTIN should be 15 characters, like 33ABCDE1234F1Z5.</p>
+        ) : (
+          <p className="text-xs text-gray-500 mt-1">GST is only charged once the studio GSTIN is set. Clients registered in another state are charged IGST.</p>
+        )}
+      </div>
+
+      <div>
+        <p className="text-sm text-gray-400 mb-2">Invoice lines <span className="text-xs text-gray-500">(HSN/SAC code, default price per unit)</span></p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          <label className="flex items-center justify-between gap-3 text-sm">
+            <span className="text-gray-300">{INVOICE_ITEM_KINDS.STUDIO_TIME.label}</span>
+            <input
+              value={rateCard.sacCodes.STUDIO_TIME}
+              onChange={(e) => update({ sacCodes: { ...rateCard.sacCodes, STUDIO_TIME: e.target.value.trim() } })}
+              className={`${inputClass} w-24`}
+            />
+          </label>
+          {EXTRA_ITEM_KINDS.map(kind => (
+            <div key={kind} className="flex items-center justify-between gap-3 text-sm">
+              <span className="text-gray-300">{INVOICE_ITEM_KINDS[kind].label}</span>
+              <div className="flex items-center gap-2">
+                <input
+                  value={rateCard.sacCodes[kind]}
+                  onChange={(e) => update({ sacCodes: { ...rateCard.sacCodes, [kind]: e.target.value.trim() } })}
+                  className={`${inputClass} w-24`}
+                />
+                <input
+                  type="number"
+                  min="0"
+                  step="50"
+                  value={rateCard.extraRates[kind]}
+                  onChange={(e) => update({ extraRates: { ...rateCard.extraRates, [kind]: toAmount(e.target.value) } })}
+                  className={`${inputClass} w-24`}
+                  title={`Rs. per ${INVOICE_ITEM_KINDS[kind].unit}`}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500 mt-1">Check the codes with your accountant; they're printed against each invoice line.</p>
+      </div>
+
+      <div>
+        <p className="text-sm text-gray-400 mb-2">Negotiated client rates <span className="text-xs text-gray-500">(flat per hour, no multipliers)</span></p>
+        <div className="space-y-2">
+          {rateCard.clientRates.map(rate => (
+            <div key={rate.id} className="flex flex-wrap md:flex-nowrap items-center gap-2 text-sm">
+              <span className="flex-1 min-w-[140px] text-white">{clients.find(c => c.id === rate.clientId)?.name || 'Removed client'}</span>
+              <select
+                value={rate.sessionType || ''}
+                onChange={(e) => updateClientRate(rate.id, { sessionType: e.target.value || undefined })}
+                className={`${inputClass} [&>option]:bg-slate-900`}
+              >
+                <option value="">All sessions</option>
+                {sessionTypes.map(type => <option key={type} value={type}>{type}</option>)}
+              </select>
+              <input
+                type="number"
+                min="0"
+                step="50"
+                value={rate.ratePerHour}
+                onChange={(e) => updateClientRate(rate.id, { ratePerHour: toAmount(e.target.value) })}
+                className={`${inputClass} w-28`}
+              />
+              <input
+                value={rate.note || ''}
+                onChange={(e) => updateClientRate(rate.id, { note: e.target.value || undefined })}
+                placeholder="Note"
+                className={`${inputClass} flex-1 min-w-[120px] placeholder-white/30`}
+              />
+              <button
+                onClick={() => update({ clientRates: rateCard.clientRates.filter(r => r.id !== rate.id) })}
+                className="p-2 text-gray-500 hover:text-red-400 transition-colors"
+                title="Remove rate"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap md:flex-nowrap gap-2 mt-3 text-sm">
+          <select
+            value={newRate.clientId}
+            onChange={(e) => setNewRate(prev => ({ ...prev, clientId: e.target.value }))}
+            className={`${inputClass} flex-1 min-w-[140px] [&>option]:bg-slate-900`}
+          >
+            <option value="">— Client —</option>
+            {[...clients].sort((a, b) => a.name.localeCompare(b.name)).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+          </select>
+          <select
+            value={newRate.sessionType}
+            onChange={(e) => setNewRate(prev => ({ ...prev, sessionType: e.target.value }))}
+            className={`${inputClass} [&>option]:bg-slate-900`}
+          >
+            <option value="">All sessions</option>
+            {sessionTypes.map(type => <option key={type} value={type}>{type}</option>)}
+          </select>
+          <input
+            type="number"
+            min="0"
+            step="50"
+            value={newRate.ratePerHour}
+            onChange={(e) => setNewRate(prev => ({ ...prev, ratePerHour: e.target.value }))}
+            placeholder="Rs./hr"
+            className={`${inputClass} w-28 placeholder-white/30`}
+          />
+          <input
+            value={newRate.note}
+            onChange={(e) => setNewRate(prev => ({ ...prev, note: e.target.value }))}
+            placeholder="Note, e.g. album deal"
+            className={`${inputClass} flex-1 min-w-[120px] placeholder-white/30`}
+          />
+          <button
+            onClick={handleAddClientRate}
+            disabled={!newRate.clientId || !newRate.ratePerHour}
+            className="flex items-center gap-1 bg-purple-600 hover:bg-purple-500 text-white px-4 py-2 rounded-lg transition-colors font-semibold disabled:opacity-50"
+          >
+            <Plus size={16} /> Add
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RateCardSettings;
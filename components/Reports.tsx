@@ -1,66 +1,94 @@
 import React, { useState, useMemo } from 'react';
-import { Download, Calendar, BarChart2 } from 'lucide-react';
-import { Booking, BookingStatus } from '../types';
+import { Download, Upload, Calendar, CalendarPlus, BarChart2, DoorOpen } from 'lucide-react';
+import { Booking, BookingStatus, Room, StaffMember } from '../types';
+import { formatDuration, getBookingRoomId, getRoom } from '../services/schedulingService';
+import { EXPORT_HEADERS, toCsv } from '../services/csvService';
+import { downloadIcs } from '../services/icsService';
+import CsvImport from './CsvImport';
+import { BOOKING_STATUSES, isSold } from '../services/bookingStatusService';
+import { useCan } from './SessionContext';
 import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, Cell } from 'recharts';
 
 interface ReportsProps {
   bookings: Booking[];
+  rooms: Room[];
+  staff: StaffMember[];
+  onImportBookings: (bookings: Booking[]) => void;
 }
 
-const Reports: React.FC<ReportsProps> = ({ bookings }) => {
+const Reports: React.FC<ReportsProps> = ({ bookings, rooms, staff, onImportBookings }) => {
+  const allowed = useCan();
+  const [showImport, setShowImport] = useState(false);
   const [startDate, setStartDate] = useState<string>(
     new Date(new Date().setMonth(new Date().getMonth() - 1)).toISOString().split('T')[0]
   );
   const [endDate, setEndDate] = useState<string>(new Date().toISOString().split('T')[0]);
+  const [roomFilter, setRoomFilter] = useState<string>('ALL');
 
   const filteredBookings = useMemo(() => {
-    return bookings.filter(b => b.date >= startDate && b.date <= endDate);
-  }, [bookings, startDate, endDate]);
+    return bookings.filter(b => 
+      b.date >= startDate && b.date <= endDate && 
+      (roomFilter === 'ALL' || getBookingRoomId(b) === roomFilter)
+    );
+  }, [bookings, startDate, endDate, roomFilter]);
 
   const stats = useMemo(() => {
     return {
       total: filteredBookings.length,
       completed: filteredBookings.filter(b => b.status === BookingStatus.COMPLETED).length,
       cancelled: filteredBookings.filter(b => b.status === BookingStatus.CANCELLED).length,
-      hours: filteredBookings.reduce((acc, curr) => acc + (curr.status !== BookingStatus.CANCELLED ? curr.durationHours : 0), 0)
+      noShows: filteredBookings.filter(b => b.status === BookingStatus.NO_SHOW).length,
+      hours: filteredBookings.reduce((acc, curr) => acc + (isSold(curr.status) ? curr.durationHours : 0), 0),
+      // GST is collected for the government, so revenue is the pre-tax amount
+      revenue: filteredBookings.reduce((acc, curr) => acc + (curr.invoiceDetails?.taxableAmount ?? curr.invoiceDetails?.totalAmount ?? 0), 0)
     };
   }, [filteredBookings]);
 
   const chartData = useMemo(() => {
       const typeCounts: Record<string, number> = {};
       filteredBookings.forEach(b => {
-          if(b.status !== BookingStatus.CANCELLED) {
+          if(isSold(b.status)) {
               typeCounts[b.type] = (typeCounts[b.type] || 0) + 1;
           }
       });
       return Object.keys(typeCounts).map(key => ({ name: key, count: typeCounts[key] }));
   }, [filteredBookings]);
 
+  const roomHours = useMemo(() => {
+      return rooms.map(room => ({
+          name: room.name,
+          color: room.color,
+          hours: filteredBookings
+            .filter(b => isSold(b.status) && getBookingRoomId(b) === room.id)
+            .reduce((acc, curr) => acc + curr.durationHours, 0)
+      }));
+  }, [filteredBookings, rooms]);
+
 
   const handleDownloadCSV = () => {
-    const headers = ["Date", "Time", "Client Name", "Phone", "Type", "Duration (Hrs)", "Actual End Time", "Status"];
     const rows = filteredBookings.map(b => [
       b.date,
       b.startTime,
       b.clientName,
       b.phoneNumber || "N/A",
+      getRoom(rooms, b.roomId)?.name || "N/A",
       b.type,
       b.durationHours,
+      b.actualEndDate || (b.actualEndTime ? b.date : "N/A"),
       b.actualEndTime || "N/A",
       b.status
     ]);
 
-    const csvContent = "data:text/csv;charset=utf-8," 
-      + headers.join(",") + "\n" 
-      + rows.map(e => e.join(",")).join("\n");
-
-    const encodedUri = encodeURI(csvContent);
+    const blob = new Blob([toCsv([EXPORT_HEADERS, ...rows])], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
     const link = document.createElement("a");
-    link.setAttribute("href", encodedUri);
-    link.setAttribute("download", `scube_report_${startDate}_to_${endDate}.csv`);
+    link.setAttribute("href", url);
+    const roomSuffix = roomFilter === 'ALL' ? '' : `_${getRoom(rooms, roomFilter)?.name.replace(/\s+/g, '_') || roomFilter}`;
+    link.setAttribute("download", `scube_report_${startDate}_to_${endDate}${roomSuffix}.csv`);
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
+    URL.revokeObjectURL(url);
   };
 
   return (
@@ -85,17 +113,51 @@ const Reports: React.FC<ReportsProps> = ({ bookings }) => {
                     className="bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-white text-sm focus:border-purple-500 focus:outline-none [color-scheme:dark] cursor-pointer"
                 />
             </div>
+            <div>
+                <label className="block text-xs text-gray-400 mb-1 flex items-center gap-1"><DoorOpen size={12} /> Room</label>
+                <select 
+                    value={roomFilter}
+                    onChange={(e) => setRoomFilter(e.target.value)}
+                    className="bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-white text-sm focus:border-purple-500 focus:outline-none cursor-pointer [&>option]:bg-slate-900"
+                >
+                    <option value="ALL">All Rooms</option>
+                    {rooms.map(room => (
+                        <option key={room.id} value={room.id}>{room.name}</option>
+                    ))}
+                </select>
+            </div>
+        </div>
+        <div className="flex gap-2 w-full md:w-auto">
+          {allowed('data.import') && (
+            <button 
+                onClick={() => setShowImport(true)}
+                className="flex-1 md:flex-none flex items-center justify-center gap-2 bg-white/5 hover:bg-white/10 border border-white/10 text-white px-4 py-2 rounded-lg transition-colors font-semibold"
+            >
+                <Upload size={18} /> Import
+            </button>
+          )}
+          {allowed('data.export') && (
+            <>
+              <button 
+                  onClick={() => downloadIcs(filteredBookings, rooms, staff, `scube_sessions_${startDate}_to_${endDate}`)}
+                  className="flex-1 md:flex-none flex items-center justify-center gap-2 bg-white/5 hover:bg-white/10 border border-white/10 text-white px-4 py-2 rounded-lg transition-colors font-semibold"
+                  title="Export these sessions as a calendar file"
+              >
+                  <CalendarPlus size={18} /> .ics
+              </button>
+              <button 
+                  onClick={handleDownloadCSV}
+                  className="flex-1 md:flex-none flex items-center justify-center gap-2 bg-purple-600 hover:bg-purple-500 text-white px-4 py-2 rounded-lg transition-colors font-semibold shadow-lg shadow-purple-900/20"
+              >
+                  <Download size={18} /> Export CSV
+              </button>
+            </>
+          )}
         </div>
-        <button 
-            onClick={handleDownloadCSV}
-            className="w-full md:w-auto flex items-center justify-center gap-2 bg-purple-600 hover:bg-purple-500 text-white px-4 py-2 rounded-lg transition-colors font-semibold shadow-lg shadow-purple-900/20"
-        >
-            <Download size={18} /> Export CSV
-        </button>
       </div>
 
       {/* Stats Cards */}
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+      <div className={`grid grid-cols-2 gap-4 ${allowed('revenue.view') ? 'md:grid-cols-6' : 'md:grid-cols-5'}`}>
         <div className="glass-panel p-4 rounded-xl border-l-4 border-l-blue-500">
             <p className="text-gray-400 text-xs">Total Bookings</p>
             <p className="text-2xl font-bold text-white">{stats.total}</p>
@@ -108,10 +170,20 @@ const Reports: React.FC<ReportsProps> = ({ bookings }) => {
             <p className="text-gray-400 text-xs">Cancelled</p>
             <p className="text-2xl font-bold text-white">{stats.cancelled}</p>
         </div>
+        <div className="glass-panel p-4 rounded-xl border-l-4 border-l-orange-500">
+            <p className="text-gray-400 text-xs">No-shows</p>
+            <p className="text-2xl font-bold text-white">{stats.noShows}</p>
+        </div>
         <div className="glass-panel p-4 rounded-xl border-l-4 border-l-purple-500">
             <p className="text-gray-400 text-xs">Hours Sold</p>
-            <p className="text-2xl font-bold text-white">{stats.hours}h</p>
+            <p className="text-2xl font-bold text-white">{formatDuration(stats.hours)}</p>
         </div>
+        {allowed('revenue.view') && (
+          <div className="glass-panel p-4 rounded-xl border-l-4 border-l-amber-500">
+              <p className="text-gray-400 text-xs">Invoiced Revenue</p>
+              <p className="text-2xl font-bold text-white">Rs. {stats.revenue.toLocaleString()}</p>
+          </div>
+        )}
       </div>
 
       {/* Chart */}
@@ -143,6 +215,16 @@ const Reports: React.FC<ReportsProps> = ({ bookings }) => {
         )}
       </div>
 
+      {/* Room Utilisation */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {roomHours.map(room => (
+            <div key={room.name} className="glass-panel p-4 rounded-xl border-l-4" style={{ borderLeftColor: room.color }}>
+                <p className="text-gray-400 text-xs">{room.name}</p>
+                <p className="text-2xl font-bold text-white">{formatDuration(room.hours)}</p>
+            </div>
+        ))}
+      </div>
+
       {/* Detailed List (Simplified for Report View) */}
       <div className="glass-panel rounded-xl overflow-hidden">
           <div className="overflow-x-auto">
@@ -151,6 +233,7 @@ const Reports: React.FC<ReportsProps> = ({ bookings }) => {
                     <tr>
                         <th className="px-4 py-3">Date</th>
                         <th className="px-4 py-3">Client</th>
+                        <th className="px-4 py-3">Room</th>
                         <th className="px-4 py-3">Type</th>
                         <th className="px-4 py-3">Status</th>
                     </tr>
@@ -166,24 +249,35 @@ const Reports: React.FC<ReportsProps> = ({ bookings }) => {
                                 {b.clientName} 
                                 <span className="text-xs text-gray-500 block">{b.phoneNumber || '-'}</span>
                             </td>
+                            <td className="px-4 py-3">
+                                <span className="flex items-center gap-2">
+                                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: getRoom(rooms, b.roomId)?.color }} />
+                                    {getRoom(rooms, b.roomId)?.name || '-'}
+                                </span>
+                            </td>
                             <td className="px-4 py-3">{b.type}</td>
                             <td className="px-4 py-3">
-                              <span className={`text-xs px-2 py-1 rounded border ${
-                                  b.status === 'CONFIRMED' ? 'border-blue-500/30 text-blue-300' :
-                                  b.status === 'COMPLETED' ? 'border-green-500/30 text-green-300' :
-                                  'border-red-500/30 text-red-300'
-                              }`}>
-                                  {b.status}
+                              <span className={`text-xs px-2 py-1 rounded border ${BOOKING_STATUSES[b.status].badgeClass}`}>
+                                  {BOOKING_STATUSES[b.status].label}
                               </span>
                             </td>
                         </tr>
                     )) : (
-                        <tr><td colSpan={4} className="text-center py-8 text-gray-500">No records found.</td></tr>
+                        <tr><td colSpan={5} className="text-center py-8 text-gray-500">No records found.</td></tr>
                     )}
                 </tbody>
             </table>
           </div>
       </div>
+
+      {showImport && (
+        <CsvImport
+          existingBookings={bookings}
+          rooms={rooms}
+          onImport={onImportBookings}
+          onClose={() => setShowImport(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,13 @@
+import { createContext, useContext } from 'react';
+import { UserAccount } from '../types';
+import { Permission, can } from '../services/permissions';
+
+// The logged-in account, provided once by App so components don't need it threaded through
+export const SessionContext = createContext<UserAccount | null>(null);
+
+export const useCurrentUser = () => useContext(SessionContext);
+
+export const useCan = () => {
+  const user = useCurrentUser();
+  return (permission: Permission) => can(user, permission);
+};
@@ -0,0 +1,423 @@
+import React, { useState } from 'react';
+import { CalendarOff, Clock, DoorOpen, Plus, ShieldAlert, Trash2, Users } from 'lucide-react';
+import { Blackout, Booking, OpeningHours, Room, StaffMember, StaffRole, StudioCalendar } from '../types';
+import { DEFAULT_ROOM_ID, getBookingRoomId, getRoom } from '../services/schedulingService';
+import { getWeekdayName } from '../services/studioCalendarService';
+
+interface SettingsProps {
+  bookings: Booking[];
+  rooms: Room[];
+  onUpdateRooms: (rooms: Room[]) => void;
+  staff: StaffMember[];
+  onUpdateStaff: (staff: StaffMember[]) => void;
+  studioCalendar: StudioCalendar;
+  onUpdateStudioCalendar: (calendar: StudioCalendar) => void;
+}
+
+const ROOM_COLORS = ['#8b5cf6', '#ec4899', '#06b6d4', '#f59e0b', '#22c55e', '#ef4444', '#6366f1'];
+
+const Settings: React.FC<SettingsProps> = ({ bookings, rooms, onUpdateRooms, staff, onUpdateStaff, studioCalendar, onUpdateStudioCalendar }) => {
+  const [newRoomName, setNewRoomName] = useState('');
+  const [newStaff, setNewStaff] = useState<{ name: string; phoneNumber: string; role: StaffRole }>({
+    name: '',
+    phoneNumber: '',
+    role: StaffRole.ENGINEER
+  });
+  const [newHoliday, setNewHoliday] = useState({ date: '', name: '' });
+  const [newBlackout, setNewBlackout] = useState<Omit<Blackout, 'id'>>({
+    date: new Date().toISOString().split('T')[0],
+    startTime: '14:00',
+    endTime: '17:00',
+    roomId: undefined,
+    reason: ''
+  });
+
+  const overriddenBookings = bookings
+    .filter(b => b.overrides && b.overrides.length > 0)
+    .sort((a, b) => b.overrides![b.overrides!.length - 1].overriddenAt - a.overrides![a.overrides!.length - 1].overriddenAt);
+
+  const handleRenameRoom = (id: string, name: string) => {
+    onUpdateRooms(rooms.map(r => r.id === id ? { ...r, name } : r));
+  };
+
+  const handleRecolorRoom = (id: string, color: string) => {
+    onUpdateRooms(rooms.map(r => r.id === id ? { ...r, color } : r));
+  };
+
+  const handleAddRoom = () => {
+    if (!newRoomName.trim()) return;
+    onUpdateRooms([...rooms, {
+      id: crypto.randomUUID(),
+      name: newRoomName.trim(),
+      color: ROOM_COLORS[rooms.length % ROOM_COLORS.length]
+    }]);
+    setNewRoomName('');
+  };
+
+  const handleRemoveRoom = (room: Room) => {
+    // Rooms with history stay so old bookings keep their room
+    if (bookings.some(b => getBookingRoomId(b) === room.id)) {
+      alert(`${room.name} has bookings and cannot be removed. Rename it instead.`);
+      return;
+    }
+    onUpdateRooms(rooms.filter(r => r.id !== room.id));
+  };
+
+  const handleAddStaff = () => {
+    if (!newStaff.name.trim()) return;
+    onUpdateStaff([...staff, {
+      id: crypto.randomUUID(),
+      name: newStaff.name.trim(),
+      phoneNumber: newStaff.phoneNumber.trim() || undefined,
+      role: newStaff.role,
+      active: true
+    }]);
+    setNewStaff({ name: '', phoneNumber: '', role: StaffRole.ENGINEER });
+  };
+
+  const handleUpdateStaffMember = (id: string, changes: Partial<StaffMember>) => {
+    onUpdateStaff(staff.map(s => s.id === id ? { ...s, ...changes } : s));
+  };
+
+  const handleRemoveStaff = (member: StaffMember) => {
+    // Staff with sessions are deactivated so invoices and schedules keep their names
+    if (bookings.some(b => b.engineerId === member.id || b.assistantId === member.id)) {
+      handleUpdateStaffMember(member.id, { active: false });
+      return;
+    }
+    onUpdateStaff(staff.filter(s => s.id !== member.id));
+  };
+
+  const handleUpdateHours = (weekday: number, changes: Partial<OpeningHours>) => {
+    onUpdateStudioCalendar({
+      ...studioCalendar,
+      openingHours: studioCalendar.openingHours.map(h => h.weekday === weekday ? { ...h, ...changes } : h)
+    });
+  };
+
+  const handleAddHoliday = () => {
+    if (!newHoliday.date || !newHoliday.name.trim()) return;
+    onUpdateStudioCalendar({
+      ...studioCalendar,
+      holidays: [...studioCalendar.holidays, { id: crypto.randomUUID(), date: newHoliday.date, name: newHoliday.name.trim() }]
+        .sort((a, b) => a.date.localeCompare(b.date))
+    });
+    setNewHoliday({ date: '', name: '' });
+  };
+
+  const handleAddBlackout = () => {
+    if (!newBlackout.date || !newBlackout.reason.trim()) return;
+    onUpdateStudioCalendar({
+      ...studioCalendar,
+      blackouts: [...studioCalendar.blackouts, { ...newBlackout, id: crypto.randomUUID(), reason: newBlackout.reason.trim() }]
+        .sort((a, b) => (a.date + a.startTime).localeCompare(b.date + b.startTime))
+    });
+    setNewBlackout(prev => ({ ...prev, reason: '' }));
+  };
+
+  return (
+    <div className="space-y-6 animate-fadeIn">
+      {/* Rooms */}
+      <div className="glass-panel p-6 rounded-xl">
+        <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+          <DoorOpen size={20} className="text-purple-400" /> Rooms
+        </h3>
+        <div className="space-y-3">
+          {rooms.map(room => (
+            <div key={room.id} className="flex items-center gap-3">
+              <input
+                type="color"
+                value={room.color}
+                onChange={(e) => handleRecolorRoom(room.id, e.target.value)}
+                className="w-10 h-10 rounded-lg bg-transparent border border-white/10 cursor-pointer"
+                title="Room colour"
+              />
+              <input
+                value={room.name}
+                onChange={(e) => handleRenameRoom(room.id, e.target.value)}
+                className="flex-1 bg-white/5 border border-white/10 rounded-lg px-3 py-2 focus:outline-none focus:border-purple-500 transition-colors"
+              />
+              {room.id !== DEFAULT_ROOM_ID && (
+                <button
+                  onClick={() => handleRemoveRoom(room)}
+                  className="p-2 bg-red-500/10 hover:bg-red-500/20 text-red-400 border border-red-500/30 rounded-lg transition-colors"
+                  title="Remove Room"
+                >
+                  <Trash2 size={16} />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-2 mt-4">
+          <input
+            value={newRoomName}
+            onChange={(e) => setNewRoomName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddRoom()}
+            placeholder="New room name"
+            className="flex-1 bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-purple-500 text-white placeholder-white/30"
+          />
+          <button
+            onClick={handleAddRoom}
+            className="bg-purple-600 hover:bg-purple-500 text-white px-4 py-2 rounded-lg transition-colors flex items-center gap-2 text-sm font-semibold"
+          >
+            <Plus size={16} /> Add Room
+          </button>
+        </div>
+      </div>
+
+      {/* Staff Roster */}
+      <div className="glass-panel p-6 rounded-xl">
+        <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+          <Users size={20} className="text-purple-400" /> Staff Roster
+        </h3>
+        {staff.length === 0 && (
+          <p className="text-sm text-gray-500 mb-4">No staff yet. Add your engineers so every session can be assigned.</p>
+        )}
+        <div className="space-y-3">
+          {staff.map(member => (
+            <div key={member.id} className={`flex flex-wrap md:flex-nowrap items-center gap-3 ${member.active ? '' : 'opacity-50'}`}>
+              <input
+                value={member.name}
+                onChange={(e) => handleUpdateStaffMember(member.id, { name: e.target.value })}
+                className="flex-1 min-w-[140px] bg-white/5 border border-white/10 rounded-lg px-3 py-2 focus:outline-none focus:border-purple-500 transition-colors"
+              />
+              <input
+                value={member.phoneNumber || ''}
+                onChange={(e) => handleUpdateStaffMember(member.id, { phoneNumber: e.target.value })}
+                placeholder="Phone"
+                className="w-36 bg-white/5 border border-white/10 rounded-lg px-3 py-2 focus:outline-none focus:border-purple-500 transition-colors"
+              />
+              <select
+                value={member.role}
+                onChange={(e) => handleUpdateStaffMember(member.id, { role: e.target.value as StaffRole })}
+                className="bg-white/5 border border-white/10 rounded-lg px-3 py-2 focus:outline-none focus:border-purple-500 text-white [&>option]:bg-slate-900"
+              >
+                <option value={StaffRole.ENGINEER}>Engineer</option>
+                <option value={StaffRole.ASSISTANT}>Assistant</option>
+              </select>
+              {member.active ? (
+                <button
+                  onClick={() => handleRemoveStaff(member)}
+                  className="p-2 bg-red-500/10 hover:bg-red-500/20 text-red-400 border border-red-500/30 rounded-lg transition-colors"
+                  title="Remove Staff"
+                >
+                  <Trash2 size={16} />
+                </button>
+              ) : (
+                <button
+                  onClick={() => handleUpdateStaffMember(member.id, { active: true })}
+                  className="px-3 py-2 bg-green-500/10 hover:bg-green-500/20 text-green-400 border border-green-500/30 rounded-lg transition-colors text-xs"
+                >
+                  Reactivate
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+        <div className="flex flex-wrap md:flex-nowrap gap-2 mt-4">
+          <input
+            value={newStaff.name}
+            onChange={(e) => setNewStaff(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="Name"
+            className="flex-1 min-w-[140px] bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-purple-500 text-white placeholder-white/30"
+          />
+          <input
+            value={newStaff.phoneNumber}
+            onChange={(e) => setNewStaff(prev => ({ ...prev, phoneNumber: e.target.value }))}
+            placeholder="Phone (Optional)"
+            className="w-36 bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-purple-500 text-white placeholder-white/30"
+          />
+          <select
+            value={newStaff.role}
+            onChange={(e) => setNewStaff(prev => ({ ...prev, role: e.target.value as StaffRole }))}
+            className="bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-purple-500 text-white [&>option]:bg-slate-900"
+          >
+            <option value={StaffRole.ENGINEER}>Engineer</option>
+            <option value={StaffRole.ASSISTANT}>Assistant</option>
+          </select>
+          <button
+            onClick={handleAddStaff}
+            className="bg-purple-600 hover:bg-purple-500 text-white px-4 py-2 rounded-lg transition-colors flex items-center gap-2 text-sm font-semibold"
+          >
+            <Plus size={16} /> Add Staff
+          </button>
+        </div>
+      </div>
+
+      {/* Opening Hours */}
+      <div className="glass-panel p-6 rounded-xl">
+        <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+          <Clock size={20} className="text-purple-400" /> Opening Hours
+        </h3>
+        <p className="text-xs text-gray-500 mb-4">A closing time at or before the opening time runs past midnight.</p>
+        <div className="space-y-2">
+          {studioCalendar.openingHours.map(hours => (
+            <div key={hours.weekday} className="flex flex-wrap items-center gap-3 text-sm">
+              <span className="w-24 text-white">{getWeekdayName(hours.weekday)}</span>
+              <label className="flex items-center gap-2 text-gray-400">
+                <input
+                  type="checkbox"
+                  checked={!hours.closed}
+                  onChange={(e) => handleUpdateHours(hours.weekday, { closed: !e.target.checked })}
+                  className="accent-purple-500"
+                />
+                Open
+              </label>
+              <input
+                type="time"
+                value={hours.open}
+                disabled={hours.closed}
+                onChange={(e) => handleUpdateHours(hours.weekday, { open: e.target.value })}
+                className="bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-white focus:outline-none focus:border-purple-500 disabled:opacity-40 [color-scheme:dark]"
+              />
+              <span className="text-gray-500">to</span>
+              <input
+                type="time"
+                value={hours.close}
+                disabled={hours.closed}
+                onChange={(e) => handleUpdateHours(hours.weekday, { close: e.target.value })}
+                className="bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-white focus:outline-none focus:border-purple-500 disabled:opacity-40 [color-scheme:dark]"
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Holidays & Blackouts */}
+      <div className="glass-panel p-6 rounded-xl space-y-6">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <CalendarOff size={20} className="text-purple-400" /> Holidays & Blackouts
+        </h3>
+
+        <div>
+          <p className="text-sm text-gray-400 mb-2">Holidays</p>
+          <div className="space-y-2">
+            {studioCalendar.holidays.map(h => (
+              <div key={h.id} className="flex items-center gap-3 text-sm">
+                <span className="w-28 text-gray-300">{h.date}</span>
+                <span className="flex-1 text-white">{h.name}</span>
+                <button
+                  onClick={() => onUpdateStudioCalendar({ ...studioCalendar, holidays: studioCalendar.holidays.filter(x => x.id !== h.id) })}
+                  className="p-2 bg-red-500/10 hover:bg-red-500/20 text-red-400 border border-red-500/30 rounded-lg transition-colors"
+                  title="Remove Holiday"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="flex flex-wrap md:flex-nowrap gap-2 mt-3">
+            <input
+              type="date"
+              value={newHoliday.date}
+              onChange={(e) => setNewHoliday(prev => ({ ...prev, date: e.target.value }))}
+              className="bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-purple-500 text-white [color-scheme:dark]"
+            />
+            <input
+              value={newHoliday.name}
+              onChange={(e) => setNewHoliday(prev => ({ ...prev, name: e.target.value }))}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddHoliday()}
+              placeholder="e.g. Pongal"
+              className="flex-1 min-w-[140px] bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-purple-500 text-white placeholder-white/30"
+            />
+            <button
+              onClick={handleAddHoliday}
+              className="bg-purple-600 hover:bg-purple-500 text-white px-4 py-2 rounded-lg transition-colors flex items-center gap-2 text-sm font-semibold"
+            >
+              <Plus size={16} /> Add Holiday
+            </button>
+          </div>
+        </div>
+
+        <div>
+          <p className="text-sm text-gray-400 mb-2">Blackouts</p>
+          <div className="space-y-2">
+            {studioCalendar.blackouts.map(b => (
+              <div key={b.id} className="flex items-center gap-3 text-sm">
+                <span className="w-28 text-gray-300">{b.date}</span>
+                <span className="w-28 text-gray-300">{b.startTime}–{b.endTime}</span>
+                <span className="w-32 text-gray-400 truncate">{b.roomId ? getRoom(rooms, b.roomId)?.name : 'Whole studio'}</span>
+                <span className="flex-1 text-white">{b.reason}</span>
+                <button
+                  onClick={() => onUpdateStudioCalendar({ ...studioCalendar, blackouts: studioCalendar.blackouts.filter(x => x.id !== b.id) })}
+                  className="p-2 bg-red-500/10 hover:bg-red-500/20 text-red-400 border border-red-500/30 rounded-lg transition-colors"
+                  title="Remove Blackout"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="flex flex-wrap md:flex-nowrap gap-2 mt-3">
+            <input
+              type="date"
+              value={newBlackout.date}
+              onChange={(e) => setNewBlackout(prev => ({ ...prev, date: e.target.value }))}
+              className="bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-purple-500 text-white [color-scheme:dark]"
+            />
+            <input
+              type="time"
+              value={newBlackout.startTime}
+              onChange={(e) => setNewBlackout(prev => ({ ...prev, startTime: e.target.value }))}
+              className="bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-purple-500 text-white [color-scheme:dark]"
+            />
+            <input
+              type="time"
+              value={newBlackout.endTime}
+              onChange={(e) => setNewBlackout(prev => ({ ...prev, endTime: e.target.value }))}
+              className="bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-purple-500 text-white [color-scheme:dark]"
+            />
+            <select
+              value={newBlackout.roomId || ''}
+              onChange={(e) => setNewBlackout(prev => ({ ...prev, roomId: e.target.value || undefined }))}
+              className="bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-purple-500 text-white [&>option]:bg-slate-900"
+            >
+              <option value="">Whole studio</option>
+              {rooms.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+            </select>
+            <input
+              value={newBlackout.reason}
+              onChange={(e) => setNewBlackout(prev => ({ ...prev, reason: e.target.value }))}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddBlackout()}
+              placeholder="e.g. Console service"
+              className="flex-1 min-w-[140px] bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-purple-500 text-white placeholder-white/30"
+            />
+            <button
+              onClick={handleAddBlackout}
+              className="bg-purple-600 hover:bg-purple-500 text-white px-4 py-2 rounded-lg transition-colors flex items-center gap-2 text-sm font-semibold"
+            >
+              <Plus size={16} /> Add Blackout
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Override Log */}
+      <div className="glass-panel p-6 rounded-xl">
+        <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+          <ShieldAlert size={20} className="text-amber-400" /> Rule Overrides
+        </h3>
+        {overriddenBookings.length === 0 ? (
+          <p className="text-sm text-gray-500">No bookings have overridden the studio hours.</p>
+        ) : (
+          <div className="space-y-3">
+            {overriddenBookings.map(b => b.overrides!.map((o, i) => (
+              <div key={`${b.id}-${i}`} className="text-sm border-l-2 border-amber-500/50 pl-3">
+                <p className="text-white">
+                  {b.clientName} <span className="text-gray-500">• {b.date} {b.startTime}</span>
+                </p>
+                <p className="text-xs text-amber-200/80">{o.violations.join('; ')}</p>
+                <p className="text-xs text-gray-400">
+                  "{o.reason}" — {new Date(o.overriddenAt).toLocaleString()}{o.overriddenByName && ` • ${o.overriddenByName}`}
+                </p>
+              </div>
+            )))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,148 @@
+import React, { useState, useMemo } from 'react';
+import { CalendarPlus, ChevronLeft, ChevronRight, Headphones } from 'lucide-react';
+import { Booking, BookingStatus, Room, StaffMember } from '../types';
+import { formatDuration } from '../services/schedulingService';
+import { downloadIcs } from '../services/icsService';
+import { blocksSlot } from '../services/bookingStatusService';
+import BookingList from './BookingList';
+import { useCan, useCurrentUser } from './SessionContext';
+
+interface StaffScheduleProps {
+  bookings: Booking[];
+  rooms: Room[];
+  staff: StaffMember[];
+  onStatusChange: (id: string, status: BookingStatus) => string | null;
+  onComplete: (id: string, endTime: string, endDate: string, startTime: string) => void;
+}
+
+const toDateString = (d: Date) =>
+  `${d.getFullYear()}-${(d.getMonth() + 1).toString().padStart(2, '0')}-${d.getDate().toString().padStart(2, '0')}`;
+
+const StaffSchedule: React.FC<StaffScheduleProps> = ({ bookings, rooms, staff, onStatusChange, onComplete }) => {
+  const currentUser = useCurrentUser();
+  const allowed = useCan();
+  // Engineers only ever see their own schedule
+  const ownScheduleOnly = !allowed('bookings.viewAll');
+  const [selectedStaffId, setStaffId] = useState<string>(staff.find(s => s.active)?.id || '');
+  const staffId = ownScheduleOnly ? currentUser?.staffId || '' : selectedStaffId;
+  const [weekStart, setWeekStart] = useState(() => {
+    const d = new Date();
+    d.setDate(d.getDate() - d.getDay()); // Sunday
+    return d;
+  });
+
+  const weekDays = useMemo(() => {
+    return Array.from({ length: 7 }, (_, i) => {
+      const d = new Date(weekStart);
+      d.setDate(d.getDate() + i);
+      return toDateString(d);
+    });
+  }, [weekStart]);
+
+  const staffBookings = useMemo(() => {
+    return bookings
+      .filter(b => (b.engineerId === staffId || b.assistantId === staffId) && weekDays.includes(b.date))
+      .sort((a, b) => (a.date + a.startTime).localeCompare(b.date + b.startTime));
+  }, [bookings, staffId, weekDays]);
+
+  const weekHours = staffBookings
+    .filter(b => blocksSlot(b.status))
+    .reduce((acc, curr) => acc + curr.durationHours, 0);
+
+  // Everything from today on, so an engineer's phone calendar stays current after re-import
+  const handleExportUpcoming = () => {
+    const today = toDateString(new Date());
+    const member = staff.find(s => s.id === staffId);
+    const upcoming = bookings.filter(b => (b.engineerId === staffId || b.assistantId === staffId) && b.date >= today);
+    downloadIcs(upcoming, rooms, staff, `scube_${member?.name || 'staff'}_sessions`);
+  };
+
+  const shiftWeek = (days: number) => {
+    const d = new Date(weekStart);
+    d.setDate(d.getDate() + days);
+    setWeekStart(d);
+  };
+
+  if (ownScheduleOnly && !staff.some(s => s.id === staffId)) {
+    return (
+      <div className="text-center py-20 text-gray-400 flex flex-col items-center">
+        <Headphones size={48} className="mb-4 opacity-20" />
+        <p>This login isn't linked to anyone on the roster yet. Ask the owner to link it in Settings.</p>
+      </div>
+    );
+  }
+
+  if (staff.length === 0) {
+    return (
+      <div className="text-center py-20 text-gray-400 flex flex-col items-center">
+        <Headphones size={48} className="mb-4 opacity-20" />
+        <p>No staff on the roster yet. Add engineers in Settings.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fadeIn">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 bg-purple-900/10 p-4 rounded-xl border border-purple-500/20">
+        <div className="flex items-center gap-3">
+          <Headphones size={20} className="text-purple-400" />
+          {ownScheduleOnly ? (
+            <span className="text-white font-semibold">{staff.find(s => s.id === staffId)?.name}</span>
+          ) : (
+            <select
+              value={staffId}
+              onChange={(e) => setStaffId(e.target.value)}
+              className="bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-white text-sm focus:border-purple-500 focus:outline-none cursor-pointer [&>option]:bg-slate-900"
+            >
+              {staff.map(s => (
+                <option key={s.id} value={s.id}>{s.name}{s.active ? '' : ' (inactive)'}</option>
+              ))}
+            </select>
+          )}
+          <span className="text-sm text-gray-400">{formatDuration(weekHours)} this week</span>
+          <button
+            onClick={handleExportUpcoming}
+            className="p-2 rounded-lg bg-black/40 hover:bg-white/10 text-white transition-colors"
+            title="Export upcoming sessions to calendar (.ics)"
+          >
+            <CalendarPlus size={18} />
+          </button>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={() => shiftWeek(-7)} className="p-2 rounded-lg bg-black/40 hover:bg-white/10 text-white transition-colors">
+            <ChevronLeft size={20} />
+          </button>
+          <span className="text-sm text-white font-medium">{weekDays[0]} – {weekDays[6]}</span>
+          <button onClick={() => shiftWeek(7)} className="p-2 rounded-lg bg-black/40 hover:bg-white/10 text-white transition-colors">
+            <ChevronRight size={20} />
+          </button>
+        </div>
+      </div>
+
+      {weekDays.map(day => {
+        const dayBookings = staffBookings.filter(b => b.date === day);
+        if (dayBookings.length === 0) return null;
+        return (
+          <div key={day}>
+            <h3 className="text-lg font-semibold text-white mb-3">
+              {new Date(day).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}
+            </h3>
+            <BookingList
+              bookings={dayBookings}
+              rooms={rooms}
+              staff={staff}
+              onStatusChange={onStatusChange}
+              onComplete={onComplete}
+            />
+          </div>
+        );
+      })}
+
+      {staffBookings.length === 0 && (
+        <p className="text-center py-12 text-gray-500">No sessions assigned this week.</p>
+      )}
+    </div>
+  );
+};
+
+export default StaffSchedule;
@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { RefreshCw, Cloud, CloudOff, AlertCircle, Loader2, Unplug } from 'lucide-react';
+import { Booking, Client, InvoiceRecord, Payment, Room, StaffMember, SyncCollection, SyncedRecord } from '../types';
+import { SyncConflict, SyncConnection, SyncState } from '../services/syncService';
+import { formatAmount } from '../services/invoiceService';
+
+export type SyncStartMode = 'UPLOAD' | 'DOWNLOAD';
+
+interface SyncSettingsProps {
+  connection: SyncConnection | null;
+  state: SyncState;
+  isOnline: boolean;
+  isSyncing: boolean;
+  syncError: string | null;
+  onConnect: (serverUrl: string, token: string, mode: SyncStartMode) => void;
+  onDisconnect: () => void;
+  onSyncNow: () => void;
+  onResolveConflict: (conflict: SyncConflict, use: 'LOCAL' | 'OTHER') => void;
+  onDismissConflict: (id: string) => void;
+}
+
+const describeRecord = (collection: SyncCollection, record: SyncedRecord | null): string => {
+  if (!record) return 'Deleted';
+  switch (collection) {
+    case 'bookings': {
+      const b = record as Booking;
+      return `${b.clientName} • ${b.date} ${b.startTime} • ${b.durationHours}h • ${b.status}`;
+    }
+    case 'clients':
+      return (record as Client).name;
+    case 'rooms':
+      return (record as Room).name;
+    case 'staff':
+      return (record as StaffMember).name;
+    case 'invoices': {
+      const r = record as InvoiceRecord;
+      return `${r.number} • ${r.clientName} • Rs. ${formatAmount(r.details.totalAmount)}`;
+    }
+    case 'payments': {
+      const p = record as Payment;
+      return `${p.receiptNumber} • ${p.clientName} • ${p.kind === 'REFUND' ? '−' : ''}Rs. ${formatAmount(p.amount)}`;
+    }
+  }
+};
+
+const OUTCOME_LABELS: Record<SyncConflict['outcome'], string> = {
+  OVERWROTE: 'Your edit replaced one made at the same time on another device',
+  SUPERSEDED: 'A newer edit from another device was kept instead of yours',
+  REJECTED: 'The server refused this change'
+};
+
+const SyncSettings: React.FC<SyncSettingsProps> = ({ connection, state, isOnline, isSyncing, syncError, onConnect, onDisconnect, onSyncNow, onResolveConflict, onDismissConflict }) => {
+  const [serverUrl, setServerUrl] = useState('');
+  const [token, setToken] = useState('');
+  const [mode, setMode] = useState<SyncStartMode>('UPLOAD');
+
+  const pendingCount = Object.keys(state.outbox).length;
+
+  const handleConnect = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!serverUrl.trim()) return;
+    if (mode === 'DOWNLOAD' && !window.confirm("Replace this device's bookings, clients, rooms and staff with the server's copy? Issued invoices and payments are kept.")) return;
+    onConnect(serverUrl.trim(), token.trim(), mode);
+  };
+
+  return (
+    <div className="glass-panel p-6 rounded-xl space-y-4">
+      <h3 className="text-lg font-semibold flex items-center gap-2">
+        <Cloud size={20} className="text-purple-400" /> Sync Between Devices
+      </h3>
+
+      {!connection ? (
+        <form onSubmit={handleConnect} className="space-y-3">
+          <p className="text-sm text-gray-400">
+            Connect to the studio's sync server (see <code className="text-purple-300">server/</code>) to share bookings between the front desk, control room and phones.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <input
+              type="url"
+              value={serverUrl}
+              onChange={(e) => setServerUrl(e.target.value)}
+              placeholder="http://192.168.1.20:8787"
+              className="bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-purple-500"
+              required
+            />
+            <input
+              type="password"
+              value={token}
+              onChange={(e) => setToken(e.target.value)}
+              placeholder="Sync token (if the server has one)"
+              className="bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-purple-500"
+            />
+          </div>
+          <div className="space-y-1 text-sm text-gray-300">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="radio" checked={mode === 'UPLOAD'} onChange={() => setMode('UPLOAD')} className="accent-purple-500" />
+              Upload this device's data (first device, or devices with their own bookings)
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="radio" checked={mode === 'DOWNLOAD'} onChange={() => setMode('DOWNLOAD')} className="accent-purple-500" />
+              Start from the server's data (replaces what's on this device)
+            </label>
+          </div>
+          <button
+            type="submit"
+            disabled={!isOnline}
+            className="bg-purple-600 hover:bg-purple-500 text-white px-4 py-2 rounded-lg transition-colors flex items-center gap-2 text-sm font-semibold disabled:opacity-50"
+          >
+            <Cloud size={16} /> Connect
+          </button>
+        </form>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-300">
+            Connected to <span className="text-white">{connection.serverUrl}</span>.{' '}
+            {state.lastSyncedAt ? `Last synced ${new Date(state.lastSyncedAt).toLocaleTimeString()}.` : 'Not synced yet.'}{' '}
+            {pendingCount > 0 && <span className="text-amber-300">{pendingCount} change{pendingCount === 1 ? '' : 's'} waiting to upload.</span>}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={onSyncNow}
+              disabled={isSyncing || !isOnline}
+              className="bg-purple-600 hover:bg-purple-500 text-white px-4 py-2 rounded-lg transition-colors flex items-center gap-2 text-sm font-semibold disabled:opacity-50"
+            >
+              {isSyncing ? <Loader2 size={16} className="animate-spin" /> : <RefreshCw size={16} />} Sync Now
+            </button>
+            <button
+              onClick={() => window.confirm('Stop syncing this device? Its data stays here.') && onDisconnect()}
+              className="px-4 py-2 rounded-lg text-sm bg-white/5 hover:bg-white/10 border border-white/10 text-gray-300 transition-colors flex items-center gap-2"
+            >
+              <Unplug size={16} /> Disconnect
+            </button>
+          </div>
+          {!isOnline && (
+            <p className="text-xs text-amber-300 flex items-center gap-1"><CloudOff size={12} /> Offline. Changes will upload when the connection is back.</p>
+          )}
+        </div>
+      )}
+
+      {syncError && (
+        <div className="p-3 rounded-lg text-sm bg-red-500/20 border border-red-500/50 text-red-200 flex items-center gap-2">
+          <AlertCircle size={16} /> {syncError}
+        </div>
+      )}
+
+      {state.conflicts.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs text-gray-400 uppercase tracking-wider">Needs a look ({state.conflicts.length})</p>
+          {state.conflicts.map(c => (
+            <div key={c.id} className="text-xs border border-amber-500/30 bg-amber-500/5 rounded-lg p-3 space-y-1">
+              <p className="text-amber-200">{OUTCOME_LABELS[c.outcome]}{c.reason ? `: ${c.reason}` : ''}.</p>
+              <p className="text-gray-300">This device: {describeRecord(c.collection, c.local)}</p>
+              {(c.other || c.outcome !== 'REJECTED') && (
+                <p className="text-gray-300">Other device: {describeRecord(c.collection, c.other)}</p>
+              )}
+              <div className="flex flex-wrap gap-2 pt-1">
+                {c.outcome !== 'REJECTED' && c.collection !== 'invoices' && c.collection !== 'payments' && (
+                  <>
+                    <button onClick={() => onResolveConflict(c, 'LOCAL')} className="px-3 py-1 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 text-gray-200">Use this device's</button>
+                    <button onClick={() => onResolveConflict(c, 'OTHER')} className="px-3 py-1 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 text-gray-200">Use other device's</button>
+                  </>
+                )}
+                <button onClick={() => onDismissConflict(c.id)} className="px-3 py-1 rounded-lg text-gray-400 hover:text-white">Dismiss</button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SyncSettings;
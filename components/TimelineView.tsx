@@ -0,0 +1,190 @@
+import React, { useEffect, useRef } from 'react';
+import { Booking, Room, StudioCalendar } from '../types';
+import { addDays, getBookingInterval, getBookingRoomId, minutesToTime, toAbsoluteMinutes } from '../services/schedulingService';
+import { getBlackoutInterval, getBlackoutsOnDate, getOpeningInterval } from '../services/studioCalendarService';
+import { BOOKING_STATUSES, isOpen } from '../services/bookingStatusService';
+
+interface TimelineViewProps {
+  dates: string[]; // One date for the day view, seven for the week view
+  bookings: Booking[];
+  rooms: Room[]; // Each room gets its own lane inside every date column
+  studioCalendar: StudioCalendar;
+  onSlotClick: (date: string, startTime: string, roomId: string) => void;
+  onBookingClick: (booking: Booking) => void;
+  onDropBooking?: (id: string, date: string, startTime: string, roomId: string) => void;
+}
+
+const HOUR_HEIGHT = 48;
+const SNAP_MINUTES = 15;
+
+const TimelineView: React.FC<TimelineViewProps> = ({ dates, bookings, rooms, studioCalendar, onSlotClick, onBookingClick, onDropBooking }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Start scrolled to the morning rather than midnight
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = HOUR_HEIGHT * 8;
+  }, []);
+
+  const minutesFromEvent = (e: React.MouseEvent<HTMLDivElement>): number => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const minutes = ((e.clientY - rect.top) / HOUR_HEIGHT) * 60;
+    return Math.max(0, Math.min(24 * 60 - SNAP_MINUTES, Math.floor(minutes / SNAP_MINUTES) * SNAP_MINUTES));
+  };
+
+  // Clips each booking to the part that falls on this date, so overnight sessions show on both days
+  const getSegments = (date: string, roomId: string) => {
+    const dayStart = toAbsoluteMinutes(date, '00:00');
+    const dayEnd = dayStart + 24 * 60;
+    return bookings
+      .filter(b => getBookingRoomId(b) === roomId)
+      .map(b => ({ booking: b, ...getBookingInterval(b) }))
+      .filter(seg => seg.start < dayEnd && seg.end > dayStart)
+      .map(seg => ({
+        booking: seg.booking,
+        top: Math.max(seg.start, dayStart) - dayStart,
+        bottom: Math.min(seg.end, dayEnd) - dayStart,
+        continues: seg.start < dayStart
+      }));
+  };
+
+  // Shaded ranges of the day when the studio is shut, allowing for hours that ran on from the night before
+  const getClosedRanges = (date: string) => {
+    const dayStart = toAbsoluteMinutes(date, '00:00');
+    const open = [getOpeningInterval(studioCalendar, addDays(date, -1)), getOpeningInterval(studioCalendar, date)]
+      .filter((i): i is { start: number; end: number } => !!i)
+      .map(i => ({ start: Math.max(i.start, dayStart) - dayStart, end: Math.min(i.end, dayStart + 24 * 60) - dayStart }))
+      .filter(i => i.end > i.start)
+      .sort((a, b) => a.start - b.start);
+
+    const closed: { top: number; bottom: number }[] = [];
+    let cursor = 0;
+    open.forEach(i => {
+      if (i.start > cursor) closed.push({ top: cursor, bottom: i.start });
+      cursor = Math.max(cursor, i.end);
+    });
+    if (cursor < 24 * 60) closed.push({ top: cursor, bottom: 24 * 60 });
+    return closed;
+  };
+
+  const getBlackoutSegments = (date: string, roomId: string) => {
+    const dayStart = toAbsoluteMinutes(date, '00:00');
+    return getBlackoutsOnDate(studioCalendar, date, roomId).map(b => {
+      const { start, end } = getBlackoutInterval(b);
+      return { blackout: b, top: Math.max(start, dayStart) - dayStart, bottom: Math.min(end, dayStart + 24 * 60) - dayStart };
+    });
+  };
+
+  const today = new Date().toISOString().split('T')[0];
+
+  return (
+    <div className="glass-panel rounded-xl overflow-hidden">
+      <div className="overflow-x-auto">
+        <div className="min-w-full" style={{ minWidth: `${48 + dates.length * rooms.length * (dates.length > 1 ? 56 : 140)}px` }}>
+          {/* Column Headers */}
+          <div className="flex bg-black/60 border-b border-white/10">
+            <div className="w-12 shrink-0" />
+            {dates.map(date => (
+              <div key={date} className="flex-1 border-l border-white/10">
+                <div className={`py-2 text-center text-xs font-bold uppercase tracking-wider ${date === today ? 'text-indigo-400' : 'text-gray-400'}`}>
+                  {new Date(date).toLocaleDateString('en-US', { weekday: 'short', day: 'numeric' })}
+                </div>
+                {rooms.length > 1 && (
+                  <div className="flex border-t border-white/5">
+                    {rooms.map(room => (
+                      <div key={room.id} className="flex-1 py-1 text-center text-[10px] truncate px-1" style={{ color: room.color }}>
+                        {room.name}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Time Grid */}
+          <div ref={scrollRef} className="h-[600px] overflow-y-auto">
+            <div className="flex relative" style={{ height: HOUR_HEIGHT * 24 }}>
+              {/* Hour Axis */}
+              <div className="w-12 shrink-0 relative">
+                {Array.from({ length: 24 }, (_, h) => (
+                  <div key={h} className="absolute right-2 text-[10px] text-gray-500 -translate-y-1/2" style={{ top: h * HOUR_HEIGHT }}>
+                    {h === 0 ? '' : `${h.toString().padStart(2, '0')}:00`}
+                  </div>
+                ))}
+              </div>
+
+              {dates.map(date => (
+                <div key={date} className="flex-1 flex border-l border-white/10">
+                  {rooms.map(room => (
+                    <div
+                      key={room.id}
+                      onClick={(e) => onSlotClick(date, minutesToTime(minutesFromEvent(e)), room.id)}
+                      onDragOver={(e) => { if (onDropBooking) e.preventDefault(); }}
+                      onDrop={(e) => {
+                        e.preventDefault();
+                        const id = e.dataTransfer.getData('text/plain');
+                        if (id && onDropBooking) onDropBooking(id, date, minutesToTime(minutesFromEvent(e)), room.id);
+                      }}
+                      className="flex-1 relative border-l border-white/5 first:border-l-0 cursor-pointer hover:bg-white/[0.02]"
+                      style={{
+                        backgroundImage: `repeating-linear-gradient(to bottom, rgba(255,255,255,0.06) 0, rgba(255,255,255,0.06) 1px, transparent 1px, transparent ${HOUR_HEIGHT}px)`
+                      }}
+                      title="Click to book this slot"
+                    >
+                      {getClosedRanges(date).map(r => (
+                        <div
+                          key={`closed-${r.top}`}
+                          className="absolute inset-x-0 bg-black/50 pointer-events-none"
+                          style={{ top: (r.top / 60) * HOUR_HEIGHT, height: ((r.bottom - r.top) / 60) * HOUR_HEIGHT }}
+                        />
+                      ))}
+                      {getBlackoutSegments(date, room.id).map(seg => (
+                        <div
+                          key={seg.blackout.id}
+                          className="absolute inset-x-0 px-1.5 py-1 text-[10px] text-gray-400 overflow-hidden pointer-events-none border-y border-white/10"
+                          style={{
+                            top: (seg.top / 60) * HOUR_HEIGHT,
+                            height: ((seg.bottom - seg.top) / 60) * HOUR_HEIGHT,
+                            backgroundImage: 'repeating-linear-gradient(45deg, rgba(255,255,255,0.06) 0, rgba(255,255,255,0.06) 6px, transparent 6px, transparent 12px)'
+                          }}
+                        >
+                          {seg.blackout.reason}
+                        </div>
+                      ))}
+                      {getSegments(date, room.id).map(seg => {
+                        const status = BOOKING_STATUSES[seg.booking.status];
+                        // Holds are drawn see-through with a dashed edge; the left stripe shows the status
+                        return (
+                          <div
+                            key={seg.booking.id}
+                            draggable={!!onDropBooking && isOpen(seg.booking.status)}
+                            onDragStart={(e) => e.dataTransfer.setData('text/plain', seg.booking.id)}
+                            onClick={(e) => { e.stopPropagation(); onBookingClick(seg.booking); }}
+                            className={`absolute left-0.5 right-0.5 rounded-md px-1.5 py-1 overflow-hidden text-[10px] leading-tight text-white border shadow-lg cursor-pointer ${status.display === 'SOFT' ? 'border-dashed' : 'border-white/20'} ${status.display === 'FADED' ? 'opacity-50' : ''}`}
+                            style={{
+                              top: (seg.top / 60) * HOUR_HEIGHT,
+                              height: Math.max(((seg.bottom - seg.top) / 60) * HOUR_HEIGHT - 2, 14),
+                              backgroundColor: status.display === 'SOFT' ? `${room.color}40` : `${room.color}cc`,
+                              borderColor: status.display === 'SOFT' ? room.color : undefined,
+                              borderLeft: `3px solid ${status.color}`
+                            }}
+                            title={`${seg.booking.startTime} ${seg.booking.clientName} — ${seg.booking.type} (${status.label})`}
+                          >
+                            <span className="font-semibold block truncate">{seg.continues ? '↳ ' : ''}{seg.booking.clientName}</span>
+                            <span className="block truncate opacity-80">{seg.booking.startTime} • {seg.booking.type}</span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TimelineView;
@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { KeyRound, UserPlus, Shield } from 'lucide-react';
+import { StaffMember, StaffRole, UserAccount, UserRole } from '../types';
+import { changePin, createAccount, hasActiveOwner, isValidPin } from '../services/authService';
+import { ROLE_LABELS } from '../services/permissions';
+
+interface UserAccountsProps {
+  accounts: UserAccount[];
+  staff: StaffMember[];
+  currentUserId: string;
+  onUpdateAccounts: (accounts: UserAccount[]) => void;
+}
+
+const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  [UserRole.OWNER]: 'Everything, including rates, invoices, revenue, exports and settings',
+  [UserRole.FRONT_DESK]: 'Create, change and cancel bookings; no rates, revenue or exports',
+  [UserRole.ENGINEER]: 'Only their own schedule, and marking sessions completed'
+};
+
+const UserAccounts: React.FC<UserAccountsProps> = ({ accounts, staff, currentUserId, onUpdateAccounts }) => {
+  const [newAccount, setNewAccount] = useState<{ name: string; role: UserRole; staffId: string; pin: string }>({
+    name: '',
+    role: UserRole.FRONT_DESK,
+    staffId: '',
+    pin: ''
+  });
+  const [pinResetId, setPinResetId] = useState<string | null>(null);
+  const [resetPin, setResetPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const engineers = staff.filter(s => s.active && s.role === StaffRole.ENGINEER);
+
+  const update = (id: string, changes: Partial<UserAccount>) => {
+    const next = accounts.map(a => (a.id === id ? { ...a, ...changes } : a));
+    if (!hasActiveOwner(next)) {
+      setError('There must always be at least one active owner.');
+      return;
+    }
+    setError(null);
+    onUpdateAccounts(next);
+  };
+
+  const handleAdd = async () => {
+    if (!newAccount.name.trim()) return;
+    if (!isValidPin(newAccount.pin)) {
+      setError('The PIN must be 4 to 8 digits.');
+      return;
+    }
+    if (newAccount.role === UserRole.ENGINEER && !newAccount.staffId) {
+      setError('Pick which engineer this login belongs to.');
+      return;
+    }
+    const staffId = newAccount.role === UserRole.ENGINEER ? newAccount.staffId : undefined;
+    onUpdateAccounts([...accounts, await createAccount(newAccount.name, newAccount.role, newAccount.pin, staffId)]);
+    setNewAccount({ name: '', role: UserRole.FRONT_DESK, staffId: '', pin: '' });
+    setError(null);
+  };
+
+  const handleResetPin = async (account: UserAccount) => {
+    if (!isValidPin(resetPin)) {
+      setError('The PIN must be 4 to 8 digits.');
+      return;
+    }
+    const updated = await changePin(account, resetPin);
+    onUpdateAccounts(accounts.map(a => (a.id === account.id ? updated : a)));
+    setPinResetId(null);
+    setResetPin('');
+    setError(null);
+  };
+
+  return (
+    <div className="glass-panel p-6 rounded-xl">
+      <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <Shield size={20} className="text-purple-400" /> User Accounts
+      </h3>
+      <div className="space-y-3">
+        {accounts.map(account => (
+          <div key={account.id} className={`space-y-2 ${account.active ? '' : 'opacity-50'}`}>
+            <div className="flex flex-wrap md:flex-nowrap items-center gap-3">
+              <input
+                value={account.name}
+                onChange={(e) => update(account.id, { name: e.target.value })}
+                className="flex-1 min-w-[140px] bg-white/5 border border-white/10 rounded-lg px-3 py-2 focus:outline-none focus:border-purple-500 transition-colors"
+              />
+              <select
+                value={account.role}
+                onChange={(e) => update(account.id, { role: e.target.value as UserRole })}
+                className="bg-white/5 border border-white/10 rounded-lg px-3 py-2 focus:outline-none focus:border-purple-500 text-white [&>option]:bg-slate-900"
+                title={ROLE_DESCRIPTIONS[account.role]}
+              >
+                {Object.values(UserRole).map(role => (
+                  <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                ))}
+              </select>
+              {account.role === UserRole.ENGINEER && (
+                <select
+                  value={account.staffId || ''}
+                  onChange={(e) => update(account.id, { staffId: e.target.value || undefined })}
+                  className="bg-white/5 border border-white/10 rounded-lg px-3 py-2 focus:outline-none focus:border-purple-500 text-white [&>option]:bg-slate-900"
+                >
+                  <option value="">— Link to engineer —</option>
+                  {engineers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                </select>
+              )}
+              <button
+                onClick={() => { setPinResetId(pinResetId === account.id ? null : account.id); setResetPin(''); }}
+                className="p-2 bg-white/5 hover:bg-white/10 text-gray-300 border border-white/10 rounded-lg transition-colors"
+                title="Set a new PIN"
+              >
+                <KeyRound size={16} />
+              </button>
+              {account.id !== currentUserId && (
+                <button
+                  onClick={() => update(account.id, { active: !account.active })}
+                  className={`px-3 py-2 rounded-lg transition-colors text-xs border ${account.active ? 'bg-red-500/10 hover:bg-red-500/20 text-red-400 border-red-500/30' : 'bg-green-500/10 hover:bg-green-500/20 text-green-400 border-green-500/30'}`}
+                >
+                  {account.active ? 'Disable' : 'Enable'}
+                </button>
+              )}
+            </div>
+            {pinResetId === account.id && (
+              <div className="flex gap-2">
+                <input
+                  type="password"
+                  inputMode="numeric"
+                  value={resetPin}
+                  onChange={(e) => setResetPin(e.target.value.replace(/\D/g, '').slice(0, 8))}
+                  placeholder="New 4–8 digit PIN"
+                  className="w-48 bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-purple-500 text-white placeholder-white/30"
+                />
+                <button
+                  onClick={() => handleResetPin(account)}
+                  className="bg-purple-600 hover:bg-purple-500 text-white px-4 py-2 rounded-lg transition-colors text-sm font-semibold"
+                >
+                  Save PIN
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap md:flex-nowrap gap-2 mt-4">
+        <input
+          value={newAccount.name}
+          onChange={(e) => setNewAccount(prev => ({ ...prev, name: e.target.value }))}
+          placeholder="Name"
+          className="flex-1 min-w-[140px] bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-purple-500 text-white placeholder-white/30"
+        />
+        <select
+          value={newAccount.role}
+          onChange={(e) => setNewAccount(prev => ({ ...prev, role: e.target.value as UserRole }))}
+          className="bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-purple-500 text-white [&>option]:bg-slate-900"
+        >
+          {Object.values(UserRole).map(role => (
+            <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+          ))}
+        </select>
+        {newAccount.role === UserRole.ENGINEER && (
+          <select
+            value={newAccount.staffId}
+            onChange={(e) => setNewAccount(prev => ({ ...prev, staffId: e.target.value }))}
+            className="bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-purple-500 text-white [&>option]:bg-slate-900"
+          >
+            <option value="">— Engineer —</option>
+            {engineers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </select>
+        )}
+        <input
+          type="password"
+          inputMode="numeric"
+          value={newAccount.pin}
+          onChange={(e) => setNewAccount(prev => ({ ...prev, pin: e.target.value.replace(/\D/g, '').slice(0, 8) }))}
+          placeholder="PIN"
+          className="w-24 bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-purple-500 text-white placeholder-white/30"
+        />
+        <button
+          onClick={handleAdd}
+          className="bg-purple-600 hover:bg-purple-500 text-white px-4 py-2 rounded-lg transition-colors flex items-center gap-2 text-sm font-semibold"
+        >
+          <UserPlus size={16} /> Add Login
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 mt-2">{ROLE_DESCRIPTIONS[newAccount.role]}.</p>
+      {error && <p className="text-sm text-red-300 mt-2">{error}</p>}
+    </div>
+  );
+};
+
+export default UserAccounts;
@@ -0,0 +1,97 @@
+import React from 'react';
+import { ListOrdered, Send, CalendarPlus, Trash2, Sparkles } from 'lucide-react';
+import { Room, WaitlistEntry } from '../types';
+import { formatDuration, getRoom } from '../services/schedulingService';
+import { WaitlistMatch, buildWaitlistOffer, getWhatsAppUrl } from '../services/waitlistService';
+import { useCan } from './SessionContext';
+
+interface WaitlistPanelProps {
+  entries: WaitlistEntry[];
+  matches: WaitlistMatch[]; // Entries that fit a slot freed just now, highlighted
+  rooms: Room[];
+  onOffer: (id: string) => void;
+  onBook: (entry: WaitlistEntry, slot?: WaitlistMatch['slot']) => void;
+  onRemove: (id: string) => void;
+}
+
+const WaitlistPanel: React.FC<WaitlistPanelProps> = ({ entries, matches, rooms, onOffer, onBook, onRemove }) => {
+  const allowed = useCan();
+
+  if (entries.length === 0) return null;
+
+  const sendOffer = (match: WaitlistMatch) => {
+    if (!match.entry.phoneNumber) {
+      alert("Client phone number is missing!");
+      return;
+    }
+    const roomName = getRoom(rooms, match.slot.roomId)?.name || 'the studio';
+    window.open(getWhatsAppUrl(match.entry.phoneNumber, buildWaitlistOffer(match, roomName)), '_blank');
+    onOffer(match.entry.id);
+  };
+
+  // Matching clients first, in the order they can be offered the slot
+  const ordered = [
+    ...matches.map(m => m.entry).filter(e => entries.some(x => x.id === e.id)),
+    ...entries.filter(e => !matches.some(m => m.entry.id === e.id))
+  ];
+
+  return (
+    <div className="glass-panel p-4 rounded-xl space-y-3">
+      <h2 className="text-lg font-bold text-white flex items-center gap-2">
+        <ListOrdered size={18} className="text-purple-300" /> Waitlist
+      </h2>
+      {ordered.map(entry => {
+        const match = matches.find(m => m.entry.id === entry.id);
+        return (
+          <div
+            key={entry.id}
+            className={`flex flex-col md:flex-row md:items-center justify-between gap-2 rounded-lg p-3 border ${match ? 'border-green-500/50 bg-green-500/10' : 'border-white/10'}`}
+          >
+            <div className="text-sm">
+              <p className="text-white font-medium">{entry.clientName} <span className="text-gray-500 font-normal">• {entry.type}</span></p>
+              <p className="text-gray-400">
+                {entry.date} • {entry.earliest}–{entry.latest} • {formatDuration(entry.durationHours)}
+                {entry.roomId && ` • ${getRoom(rooms, entry.roomId)?.name}`}
+              </p>
+              {match && (
+                <p className="text-xs text-green-300 flex items-center gap-1">
+                  <Sparkles size={12} /> Free now: {match.slot.startTime} in {getRoom(rooms, match.slot.roomId)?.name}
+                </p>
+              )}
+              {entry.offeredAt && (
+                <p className="text-xs text-gray-500">Offered {new Date(entry.offeredAt).toLocaleString()}</p>
+              )}
+            </div>
+            {allowed('bookings.create') && (
+              <div className="flex gap-2">
+                {match && (
+                  <button
+                    onClick={() => sendOffer(match)}
+                    className="flex items-center gap-1 text-xs bg-green-600 hover:bg-green-500 text-white px-3 py-1.5 rounded-lg transition-colors"
+                  >
+                    <Send size={14} /> Offer on WhatsApp
+                  </button>
+                )}
+                <button
+                  onClick={() => onBook(entry, match?.slot)}
+                  className="flex items-center gap-1 text-xs bg-white/5 hover:bg-purple-500/20 border border-white/10 text-gray-300 hover:text-purple-200 px-3 py-1.5 rounded-lg transition-colors"
+                >
+                  <CalendarPlus size={14} /> Book
+                </button>
+                <button
+                  onClick={() => onRemove(entry.id)}
+                  className="text-gray-500 hover:text-red-400 p-1.5 transition-colors"
+                  title="Remove from waitlist"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default WaitlistPanel;
@@ -0,0 +1,93 @@
+// Offline support for the built app. Bump CACHE_VERSION to drop every cached file.
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `scube-shell-${CACHE_VERSION}`;
+const FONT_CACHE = `scube-fonts-${CACHE_VERSION}`;
+
+const SHELL_FILES = ['/', '/index.html', '/manifest.json', '/icon.svg'];
+const FONT_HOSTS = ['fonts.googleapis.com', 'fonts.gstatic.com'];
+
+// Every hashed file of the current build, lazily loaded chunks included, as listed by the
+// precache plugin in vite.config.ts
+const MANIFEST_URL = '/precache-manifest.json';
+
+const fetchBuiltAssets = async () => {
+  const response = await fetch(MANIFEST_URL, { cache: 'no-cache' });
+  if (!response.ok) throw new Error(`Could not load ${MANIFEST_URL}`);
+  return response.json();
+};
+
+const cacheMissing = async (cache, files) => {
+  const cached = await Promise.all(files.map(file => cache.match(file)));
+  await cache.addAll(files.filter((_, i) => !cached[i]));
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.addAll([...SHELL_FILES, ...(await fetchBuiltAssets())]);
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keep = [SHELL_CACHE, FONT_CACHE];
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => !keep.includes(name)).map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+// Pages: network first so a new deploy is picked up, falling back to the cached shell
+const handleNavigation = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put('/index.html', response.clone());
+      // Keep the files of the newest build, which the next offline start will need
+      fetchBuiltAssets().then(files => cacheMissing(cache, files)).catch(() => {});
+    }
+    return response;
+  } catch (e) {
+    return (await cache.match('/index.html')) || Response.error();
+  }
+};
+
+// Hashed build files never change, so any cached copy is current
+const cacheFirst = async (request, cacheName) => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+  return response;
+};
+
+const networkFirst = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (e) {
+    return (await cache.match(request)) || Response.error();
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (url.origin === self.location.origin && url.pathname.startsWith('/assets/')) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+  } else if (FONT_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(request, FONT_CACHE));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(networkFirst(request));
+  }
+  // Anything else (including Gemini API calls) goes straight to the network
+});
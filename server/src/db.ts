@@ -0,0 +1,127 @@
+import Database from 'better-sqlite3';
+import { SyncCollection, SyncRecord, SyncedRecord } from '../../types';
+
+export type SyncDatabase = Database.Database;
+
+interface RecordRow {
+  collection: SyncCollection;
+  id: string;
+  data: string | null;
+  version: number;
+  seq: number;
+  changed_at: number;
+  device_id: string;
+}
+
+// `records` holds the latest copy of everything; `changes` keeps every accepted write.
+// `document_numbers` and `sequences` keep invoice and receipt numbers unique across devices.
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS records (
+    collection TEXT NOT NULL,
+    id TEXT NOT NULL,
+    data TEXT,
+    version INTEGER NOT NULL,
+    seq INTEGER NOT NULL,
+    changed_at INTEGER NOT NULL,
+    device_id TEXT NOT NULL,
+    PRIMARY KEY (collection, id)
+  );
+  CREATE INDEX IF NOT EXISTS records_by_seq ON records (seq);
+
+  CREATE TABLE IF NOT EXISTS document_numbers (
+    collection TEXT NOT NULL,
+    number TEXT NOT NULL,
+    id TEXT NOT NULL,
+    PRIMARY KEY (collection, number)
+  );
+
+  CREATE TABLE IF NOT EXISTS sequences (
+    series TEXT PRIMARY KEY,
+    last INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS changes (
+    seq INTEGER PRIMARY KEY,
+    collection TEXT NOT NULL,
+    id TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    data TEXT,
+    changed_at INTEGER NOT NULL,
+    device_id TEXT NOT NULL,
+    received_at INTEGER NOT NULL
+  );
+`;
+
+export const openDatabase = (path: string): SyncDatabase => {
+  const db = new Database(path);
+  db.pragma('journal_mode = WAL');
+  db.exec(SCHEMA);
+  return db;
+};
+
+const toSyncRecord = (row: RecordRow): SyncRecord => ({
+  collection: row.collection,
+  id: row.id,
+  version: row.version,
+  changedAt: row.changed_at,
+  deviceId: row.device_id,
+  record: row.data ? JSON.parse(row.data) as SyncedRecord : null
+});
+
+export const getRecord = (db: SyncDatabase, collection: SyncCollection, id: string): SyncRecord | undefined => {
+  const row = db.prepare('SELECT * FROM records WHERE collection = ? AND id = ?').get(collection, id) as RecordRow | undefined;
+  return row && toSyncRecord(row);
+};
+
+// Deleted records are kept as tombstones so other devices learn about the delete
+export const getLiveRecords = (db: SyncDatabase, collection: SyncCollection): SyncedRecord[] =>
+  (db.prepare('SELECT data FROM records WHERE collection = ? AND data IS NOT NULL').all(collection) as { data: string }[])
+    .map(row => JSON.parse(row.data) as SyncedRecord);
+
+// Records written after a point in the change feed, with the position of the last one
+export const getRecordsSince = (db: SyncDatabase, since: number, limit: number): { records: SyncRecord[]; lastSeq: number } => {
+  const rows = db.prepare('SELECT * FROM records WHERE seq > ? ORDER BY seq LIMIT ?').all(since, limit) as RecordRow[];
+  return { records: rows.map(toSyncRecord), lastSeq: rows.length > 0 ? rows[rows.length - 1].seq : since };
+};
+
+/**
+ * Stores a new version of a record and logs the write. Returns the stored copy,
+ * whose version is one higher than the previous one.
+ */
+export const writeRecord = (db: SyncDatabase, entry: Omit<SyncRecord, 'version'>): SyncRecord => {
+  const current = getRecord(db, entry.collection, entry.id);
+  const version = (current?.version || 0) + 1;
+  const data = entry.record ? JSON.stringify(entry.record) : null;
+
+  const { seq } = db.prepare(
+    'INSERT INTO changes (collection, id, version, data, changed_at, device_id, received_at) VALUES (?, ?, ?, ?, ?, ?, ?) RETURNING seq'
+  ).get(entry.collection, entry.id, version, data, entry.changedAt, entry.deviceId, Date.now()) as { seq: number };
+
+  db.prepare(
+    `INSERT INTO records (collection, id, data, version, seq, changed_at, device_id) VALUES (?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT (collection, id) DO UPDATE SET data = excluded.data, version = excluded.version, seq = excluded.seq,
+       changed_at = excluded.changed_at, device_id = excluded.device_id`
+  ).run(entry.collection, entry.id, data, version, seq, entry.changedAt, entry.deviceId);
+
+  return { ...entry, version };
+};
+
+// The id of the document that holds a number, if any
+export const getNumberHolder = (db: SyncDatabase, collection: SyncCollection, number: string): string | undefined =>
+  (db.prepare('SELECT id FROM document_numbers WHERE collection = ? AND number = ?').get(collection, number) as { id: string } | undefined)?.id;
+
+export const claimNumber = (db: SyncDatabase, collection: SyncCollection, number: string, id: string) => {
+  db.prepare('INSERT OR IGNORE INTO document_numbers (collection, number, id) VALUES (?, ?, ?)').run(collection, number, id);
+};
+
+// Keeps a series ahead of documents numbered on a device before it synced
+export const raiseSequence = (db: SyncDatabase, series: string, sequence: number) => {
+  db.prepare('INSERT INTO sequences (series, last) VALUES (?, ?) ON CONFLICT (series) DO UPDATE SET last = MAX(last, excluded.last)')
+    .run(series, sequence);
+};
+
+// Hands out the next number in a series, past anything the asking device already holds
+export const allocateSequence = (db: SyncDatabase, series: string, after: number): number =>
+  (db.prepare(
+    'INSERT INTO sequences (series, last) VALUES (?, ? + 1) ON CONFLICT (series) DO UPDATE SET last = MAX(last, ?) + 1 RETURNING last'
+  ).get(series, after, after) as { last: number }).last;
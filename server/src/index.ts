@@ -0,0 +1,119 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { SyncChange, SyncCollection, SyncNumberRequest } from '../../types';
+import { openDatabase } from './db';
+import { allocateNumber, applyPush, pullChanges } from './sync';
+
+const PORT = Number(process.env.PORT) || 8787;
+const DB_PATH = process.env.DB_PATH || 'scube-sync.db';
+// Optional shared secret; every device must send it as a Bearer token
+const SYNC_TOKEN = process.env.SYNC_TOKEN || '';
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+const COLLECTIONS: SyncCollection[] = ['bookings', 'clients', 'rooms', 'staff', 'invoices', 'payments'];
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const db = openDatabase(DB_PATH);
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readJson = async (req: IncomingMessage): Promise<unknown> => {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request too large');
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch (e) {
+    throw new HttpError(400, 'Body is not valid JSON');
+  }
+};
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const parsePush = (body: unknown): { deviceId: string; changes: SyncChange[] } => {
+  if (!isObject(body) || typeof body.deviceId !== 'string' || !body.deviceId || !Array.isArray(body.changes)) {
+    throw new HttpError(400, 'Expected { deviceId, changes[] }');
+  }
+  body.changes.forEach((c, i) => {
+    if (!isObject(c) || !COLLECTIONS.includes(c.collection as SyncCollection) || typeof c.id !== 'string'
+      || typeof c.baseVersion !== 'number' || typeof c.changedAt !== 'number') {
+      throw new HttpError(400, `Change ${i + 1} is malformed`);
+    }
+    if (c.record !== null && (!isObject(c.record) || c.record.id !== c.id)) {
+      throw new HttpError(400, `Change ${i + 1} has a record that doesn't match its id`);
+    }
+  });
+  return { deviceId: body.deviceId, changes: body.changes as SyncChange[] };
+};
+
+const parseNumberRequest = (body: unknown): SyncNumberRequest => {
+  if (!isObject(body) || typeof body.series !== 'string' || !body.series.trim()
+    || typeof body.after !== 'number' || !Number.isInteger(body.after) || body.after < 0) {
+    throw new HttpError(400, 'Expected { series, after }');
+  }
+  return { series: body.series, after: body.after };
+};
+
+const handle = async (req: IncomingMessage, res: ServerResponse) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+
+  if (url.pathname === '/health') return send(res, 200, { ok: true });
+
+  if (SYNC_TOKEN && req.headers.authorization !== `Bearer ${SYNC_TOKEN}`) {
+    throw new HttpError(401, 'Missing or wrong sync token');
+  }
+
+  if (req.method === 'GET' && url.pathname === '/changes') {
+    const since = Number(url.searchParams.get('since') || 0);
+    if (!Number.isInteger(since) || since < 0) throw new HttpError(400, 'since must be a non-negative integer');
+    return send(res, 200, pullChanges(db, since));
+  }
+
+  if (req.method === 'POST' && url.pathname === '/push') {
+    const { deviceId, changes } = parsePush(await readJson(req));
+    return send(res, 200, { results: applyPush(db, deviceId, changes) });
+  }
+
+  // Invoice and receipt numbers come from here while sync is on, so no two devices issue the same one
+  if (req.method === 'POST' && url.pathname === '/numbers') {
+    const { series, after } = parseNumberRequest(await readJson(req));
+    return send(res, 200, allocateNumber(db, series, after));
+  }
+
+  throw new HttpError(404, 'Not found');
+};
+
+const server = createServer((req, res) => {
+  // Devices load the app from elsewhere, so allow cross-origin calls
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  handle(req, res).catch(e => {
+    if (e instanceof HttpError) {
+      send(res, e.status, { error: e.message });
+    } else {
+      console.error('Sync request failed:', e);
+      send(res, 500, { error: 'Internal error' });
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`S CUBE sync server listening on port ${PORT} (database: ${DB_PATH})`);
+});
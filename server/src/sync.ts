@@ -0,0 +1,129 @@
+import { Booking, InvoiceRecord, Payment, SyncChange, SyncChangeResult, SyncCollection, SyncNumberResponse, SyncPullResponse, SyncedRecord } from '../../types';
+import { findOverlap, findStaffConflict } from '../../services/schedulingService';
+import { findRecordErrors } from '../../services/recordValidation';
+import {
+  SyncDatabase, allocateSequence, claimNumber, getLiveRecords, getNumberHolder, getRecord, getRecordsSince, raiseSequence, writeRecord
+} from './db';
+
+const PAGE_SIZE = 500;
+
+// Issued documents and receipts are never deleted, and each number is used once
+const DOCUMENT_COLLECTIONS: SyncCollection[] = ['invoices', 'payments'];
+
+const getDocumentNumber = (collection: SyncCollection, record: SyncedRecord): string | undefined => {
+  switch (collection) {
+    case 'invoices':
+      return (record as InvoiceRecord).number;
+    case 'payments':
+      return (record as Payment).receiptNumber;
+    default:
+      return undefined;
+  }
+};
+
+// SCS/2026-27/0042 is number 42 in the series SCS/2026-27
+const splitNumber = (number: string): { series: string; sequence: number } => {
+  const at = number.lastIndexOf('/');
+  return { series: number.slice(0, at), sequence: Number(number.slice(at + 1)) || 0 };
+};
+
+// Every device's live bookings by id, kept current as a push is applied
+type BookingIndex = Map<string, Booking>;
+
+// The same room and engineer rules the app applies, checked against every device's bookings
+const findServerClash = (bookings: BookingIndex, booking: Booking): string | undefined => {
+  const others = [...bookings.values()].filter(b => b.id !== booking.id);
+  const overlap = findOverlap(booking, others);
+  if (overlap) return `Overlaps ${overlap.clientName}'s session on ${overlap.date} at ${overlap.startTime}`;
+  const staffConflict = findStaffConflict(booking, others);
+  if (staffConflict) {
+    const { clientName, date, startTime } = staffConflict.booking;
+    return `The engineer is on ${clientName}'s session on ${date} at ${startTime}`;
+  }
+  return undefined;
+};
+
+/**
+ * Applies one change. A change is concurrent when another device wrote the record
+ * after the version this device last saw; the later edit wins and the other copy
+ * goes back to the device so it can be shown to the user.
+ */
+const applyChange = (db: SyncDatabase, deviceId: string, change: SyncChange, bookings: BookingIndex): SyncChangeResult => {
+  const { collection, id } = change;
+  const current = getRecord(db, collection, id);
+  const currentVersion = current?.version || 0;
+
+  // Deleting something that never reached the server
+  if (!current && !change.record) {
+    return { collection, id, outcome: 'APPLIED', version: 0 };
+  }
+
+  // A malformed booking would break the clash checks for every device
+  const problems = change.record ? findRecordErrors(collection, change.record as unknown as Record<string, unknown>) : [];
+  if (problems.length > 0) {
+    return { collection, id, outcome: 'REJECTED', version: currentVersion, other: current, reason: `Incomplete record: ${problems.join(', ')}` };
+  }
+
+  const number = change.record ? getDocumentNumber(collection, change.record) : undefined;
+  if (DOCUMENT_COLLECTIONS.includes(collection)) {
+    if (!change.record) {
+      return { collection, id, outcome: 'REJECTED', version: currentVersion, other: current, reason: 'Issued documents are never deleted' };
+    }
+    // Stored documents are never rewritten; sending the same copy again changes nothing
+    if (current) {
+      return JSON.stringify(current.record) === JSON.stringify(change.record)
+        ? { collection, id, outcome: 'APPLIED', version: currentVersion }
+        : { collection, id, outcome: 'REJECTED', version: currentVersion, other: current, reason: 'Issued documents are never changed' };
+    }
+    if (!number) {
+      return { collection, id, outcome: 'REJECTED', version: currentVersion, reason: 'Issued documents need a number' };
+    }
+    if (getNumberHolder(db, collection, number)) {
+      return { collection, id, outcome: 'REJECTED', version: currentVersion, reason: `${number} was already issued on another device` };
+    }
+  }
+
+  const concurrent = !!current && current.version > change.baseVersion && current.deviceId !== deviceId;
+  if (concurrent && change.changedAt < current!.changedAt) {
+    return { collection, id, outcome: 'SUPERSEDED', version: currentVersion, other: current };
+  }
+
+  if (collection === 'bookings' && change.record) {
+    const clash = findServerClash(bookings, change.record as Booking);
+    if (clash) {
+      return { collection, id, outcome: 'REJECTED', version: currentVersion, other: current, reason: clash };
+    }
+  }
+
+  const stored = writeRecord(db, { collection, id, changedAt: change.changedAt, deviceId, record: change.record });
+  if (number) {
+    claimNumber(db, collection, number, id);
+    const { series, sequence } = splitNumber(number);
+    raiseSequence(db, series, sequence);
+  }
+  if (collection === 'bookings') {
+    if (change.record) bookings.set(id, change.record as Booking);
+    else bookings.delete(id);
+  }
+  return concurrent
+    ? { collection, id, outcome: 'OVERWROTE', version: stored.version, other: current }
+    : { collection, id, outcome: 'APPLIED', version: stored.version };
+};
+
+// One transaction per push, so two devices can never both claim the same slot
+export const applyPush = (db: SyncDatabase, deviceId: string, changes: SyncChange[]): SyncChangeResult[] =>
+  db.transaction(() => {
+    // Parsed once per push rather than once per change, so a first upload of years of history stays quick
+    const bookings: BookingIndex = changes.some(c => c.collection === 'bookings')
+      ? new Map((getLiveRecords(db, 'bookings') as Booking[]).map(b => [b.id, b]))
+      : new Map();
+    return changes.map(change => applyChange(db, deviceId, change, bookings));
+  })();
+
+export const allocateNumber = (db: SyncDatabase, series: string, after: number): SyncNumberResponse =>
+  ({ sequence: allocateSequence(db, series, after) });
+
+export const pullChanges = (db: SyncDatabase, since: number): SyncPullResponse => {
+  const { records, lastSeq } = getRecordsSince(db, since, PAGE_SIZE);
+  return { records, cursor: lastSeq, hasMore: records.length === PAGE_SIZE };
+};
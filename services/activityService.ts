@@ -0,0 +1,136 @@
+import { ActivityAction, ActivityEntry, Booking, BookingStatus, UserAccount } from "../types";
+import { formatDuration } from "./schedulingService";
+import { BOOKING_STATUSES, formatHoldDeadline, isHoldLapsed } from "./bookingStatusService";
+
+const SCHEDULE_FIELDS: (keyof Booking)[] = ['date', 'startTime', 'roomId'];
+
+const FIELD_LABELS: Partial<Record<keyof Booking, string>> = {
+  clientName: 'client',
+  clientId: 'client',
+  phoneNumber: 'phone',
+  type: 'session type',
+  durationHours: 'duration',
+  engineerId: 'engineer',
+  assistantId: 'assistant',
+  notes: 'notes',
+  overrides: 'rule overrides',
+  recurrence: 'repeat'
+};
+
+// updatedAt alone changing isn't a change anyone made
+const IGNORED_FIELDS: (keyof Booking)[] = ['updatedAt'];
+
+const changedFields = (before: Booking, after: Booking): (keyof Booking)[] => {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)] as (keyof Booking)[]);
+  return [...keys].filter(k => !IGNORED_FIELDS.includes(k) && JSON.stringify(before[k]) !== JSON.stringify(after[k]));
+};
+
+const classifyChange = (before: Booking | null, after: Booking, at: number): ActivityAction | null => {
+  if (!before) return 'CREATED';
+  const fields = changedFields(before, after);
+  if (fields.length === 0) return null;
+  if (after.status === BookingStatus.CANCELLED && isHoldLapsed(before, at)) return 'EXPIRED';
+  if (after.status === BookingStatus.COMPLETED && before.status !== BookingStatus.COMPLETED) return 'COMPLETED';
+  if (fields.includes('status')) return 'STATUS_CHANGED';
+  if (fields.includes('invoiceDetails')) return 'INVOICED';
+  if (SCHEDULE_FIELDS.some(f => fields.includes(f))) return 'RESCHEDULED';
+  return 'UPDATED';
+};
+
+/**
+ * Builds log entries for the bookings that changed between two versions of the list.
+ * Removed bookings aren't logged; bookings only disappear through restores and sync.
+ * `undone` maps booking ids to the entries an undo reverted.
+ */
+export const createActivityEntries = (
+  previous: Booking[],
+  next: Booking[],
+  user: UserAccount | null,
+  undone: Record<string, string> = {}
+): ActivityEntry[] => {
+  const before = new Map(previous.map(b => [b.id, b]));
+  const at = Date.now();
+  return next
+    .filter(b => before.get(b.id) !== b)
+    .flatMap(after => {
+      const original = before.get(after.id) || null;
+      const undoneId = undone[after.id];
+      const action = undoneId ? 'UNDONE' : classifyChange(original, after, at);
+      if (!action) return [];
+      // Nobody released an expired hold, whoever happened to be logged in
+      const by = action === 'EXPIRED' ? null : user;
+      return [{
+        id: crypto.randomUUID(),
+        bookingId: after.id,
+        action,
+        at,
+        userId: by?.id,
+        userName: by?.name,
+        before: original,
+        after,
+        undoneId
+      }];
+    });
+};
+
+export const getBookingActivity = (activity: ActivityEntry[], bookingId: string): ActivityEntry[] =>
+  activity.filter(e => e.bookingId === bookingId).sort((a, b) => b.at - a.at);
+
+/**
+ * An entry can be undone while the booking is exactly as that change left it, so
+ * undoing the latest change makes the one before it undoable. Creations aren't
+ * undone; the booking is cancelled instead. Expired holds are booked again instead.
+ */
+export const canUndo = (entry: ActivityEntry, activity: ActivityEntry[], bookings: Booking[]): boolean => {
+  // Invoices are cancelled with credit notes instead
+  if (!entry.before || entry.action === 'CREATED' || entry.action === 'EXPIRED' || entry.action === 'INVOICED' || entry.action === 'UNDONE') return false;
+  if (activity.some(e => e.undoneId === entry.id)) return false;
+  const current = bookings.find(b => b.id === entry.bookingId);
+  return !!current && changedFields(current, entry.after).length === 0;
+};
+
+const STATUS_CHANGES: Record<BookingStatus, string> = {
+  [BookingStatus.TENTATIVE]: 'Made tentative',
+  [BookingStatus.CONFIRMED]: 'Confirmed',
+  [BookingStatus.IN_PROGRESS]: 'Checked in',
+  [BookingStatus.COMPLETED]: 'Marked completed',
+  [BookingStatus.NO_SHOW]: 'Marked as a no-show',
+  [BookingStatus.RESCHEDULED]: 'Set aside to find a new slot',
+  [BookingStatus.CANCELLED]: 'Cancelled'
+};
+
+// Invoices issued before numbering have no number
+const nameInvoice = (details?: Booking['invoiceDetails']): string =>
+  details?.invoiceNumber ? `Invoice ${details.invoiceNumber}` : 'Invoice';
+
+const describeInvoice = (details: NonNullable<Booking['invoiceDetails']>): string => {
+  const time = `studio time at Rs. ${details.ratePerHour}/hr${details.overrideReason ? ` instead of Rs. ${details.quotedAmount} (${details.overrideReason})` : ''}`;
+  const extras = (details.lineItems || []).filter(line => line.kind !== 'STUDIO_TIME').length;
+  return `Invoiced${details.invoiceNumber ? ` ${details.invoiceNumber} for` : ''} Rs. ${details.totalAmount}: ${time}${extras ? `, ${extras} extra${extras === 1 ? '' : 's'}` : ''}${details.discountAmount ? `, Rs. ${details.discountAmount} off` : ''}${details.tax ? ', GST included' : ''}`;
+};
+
+// Invoice amounts are left out for people who can't see revenue
+export const describeActivity = (entry: ActivityEntry, showAmounts: boolean): string => {
+  const { before, after } = entry;
+  switch (entry.action) {
+    case 'CREATED':
+      return `Booked for ${after.date} ${after.startTime}, ${formatDuration(after.durationHours)}`;
+    case 'COMPLETED':
+      return `Completed${after.actualEndTime ? `, ended ${after.actualEndTime}` : ''}`;
+    case 'STATUS_CHANGED':
+      return STATUS_CHANGES[after.status];
+    case 'INVOICED':
+      if (!after.invoiceDetails) return `${nameInvoice(before?.invoiceDetails)} cancelled with a credit note`;
+      return showAmounts ? describeInvoice(after.invoiceDetails) : `${nameInvoice(after.invoiceDetails)} issued`;
+    case 'RESCHEDULED':
+      return `Moved from ${before?.date} ${before?.startTime} to ${after.date} ${after.startTime}`;
+    case 'UPDATED': {
+      const labels = before ? [...new Set(changedFields(before, after).map(f => FIELD_LABELS[f] || 'details'))] : [];
+      return `Changed ${labels.join(', ') || 'details'}`;
+    }
+    case 'EXPIRED':
+      return `Hold expired${before?.holdExpiresAt ? ` (${formatHoldDeadline(before.holdExpiresAt)})` : ''}, slot released`;
+    case 'UNDONE':
+      return `Undid a change (now ${BOOKING_STATUSES[after.status].label.toLowerCase()}, ${after.date} ${after.startTime})`;
+  }
+};
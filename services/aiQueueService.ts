@@ -0,0 +1,51 @@
+import { ExtractedBookingData, parseBookingRequest, parseVoiceBookingRequest } from "./geminiService";
+
+export type QueuedAiStatus = 'PENDING' | 'DONE' | 'FAILED';
+
+// An AI Quick Fill request made while offline, kept until it's turned into a draft
+export interface QueuedAiRequest {
+  id: string;
+  kind: 'TEXT' | 'VOICE';
+  text?: string;
+  audioBase64?: string;
+  mimeType?: string;
+  queuedAt: number;
+  status: QueuedAiStatus;
+  result?: ExtractedBookingData;
+}
+
+export const AI_QUEUE_KEY = 'aiQueue';
+
+export const queueTextRequest = (text: string): QueuedAiRequest => ({
+  id: crypto.randomUUID(),
+  kind: 'TEXT',
+  text,
+  queuedAt: Date.now(),
+  status: 'PENDING'
+});
+
+export const queueVoiceRequest = (audioBase64: string, mimeType: string): QueuedAiRequest => ({
+  id: crypto.randomUUID(),
+  kind: 'VOICE',
+  audioBase64,
+  mimeType,
+  queuedAt: Date.now(),
+  status: 'PENDING'
+});
+
+/**
+ * Sends one queued request to the AI. If the connection dropped again the
+ * request stays pending; otherwise an empty answer marks it as failed.
+ */
+export const runQueuedRequest = async (request: QueuedAiRequest): Promise<QueuedAiRequest> => {
+  const result = request.kind === 'TEXT'
+    ? await parseBookingRequest(request.text || '')
+    : await parseVoiceBookingRequest(request.audioBase64 || '', request.mimeType || 'audio/webm');
+
+  if (result) return { ...request, status: 'DONE', result, audioBase64: undefined };
+  if (!navigator.onLine) return request;
+  return { ...request, status: 'FAILED' };
+};
+
+export const describeQueuedRequest = (request: QueuedAiRequest): string =>
+  request.kind === 'TEXT' ? `"${request.text}"` : `Voice note from ${new Date(request.queuedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
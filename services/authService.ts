@@ -0,0 +1,46 @@
+import { UserAccount, UserRole } from "../types";
+
+export const USERS_KEY = 'users';
+// Per browser tab, so closing the app logs the user out
+const SESSION_KEY = 'scube_session';
+
+const PBKDF2_ITERATIONS = 100000;
+
+export const isValidPin = (pin: string): boolean => /^\d{4,8}$/.test(pin);
+
+const toHex = (bytes: ArrayBuffer | Uint8Array): string =>
+  Array.from(bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes), b => b.toString(16).padStart(2, '0')).join('');
+
+const hashPin = async (pin: string, salt: string): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: new TextEncoder().encode(salt), iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    key,
+    256
+  );
+  return toHex(bits);
+};
+
+const withPin = async <T extends object>(values: T, pin: string): Promise<T & Pick<UserAccount, 'pinHash' | 'pinSalt'>> => {
+  const pinSalt = toHex(crypto.getRandomValues(new Uint8Array(16)));
+  return { ...values, pinSalt, pinHash: await hashPin(pin, pinSalt) };
+};
+
+export const createAccount = (name: string, role: UserRole, pin: string, staffId?: string): Promise<UserAccount> =>
+  withPin({ id: crypto.randomUUID(), name: name.trim(), role, staffId, active: true, createdAt: Date.now() }, pin);
+
+export const changePin = (account: UserAccount, pin: string): Promise<UserAccount> => withPin(account, pin);
+
+export const verifyPin = async (account: UserAccount, pin: string): Promise<boolean> =>
+  account.active && (await hashPin(pin, account.pinSalt)) === account.pinHash;
+
+// At least one active owner must remain, or nobody could manage accounts again
+export const hasActiveOwner = (accounts: UserAccount[]): boolean =>
+  accounts.some(a => a.active && a.role === UserRole.OWNER);
+
+export const getSessionUserId = (): string | null => sessionStorage.getItem(SESSION_KEY);
+
+export const setSessionUserId = (id: string | null) => {
+  if (id) sessionStorage.setItem(SESSION_KEY, id);
+  else sessionStorage.removeItem(SESSION_KEY);
+};
@@ -0,0 +1,98 @@
+import { Booking, Room, StudioCalendar } from "../types";
+import { addDays, findOverlap, findStaffConflict, getBookingInterval, minutesToTime, toAbsoluteMinutes, toMinutes } from "./schedulingService";
+import { findRuleViolations } from "./studioCalendarService";
+import { holdsSlot } from "./bookingStatusService";
+
+export interface SlotQuery {
+  fromDate: string;
+  toDate: string;
+  durationHours: number;
+  roomId?: string; // Any room when omitted
+  engineerId?: string; // Engineer must also be free
+  assistantId?: string;
+  earliest?: string; // Earliest start time, HH:mm
+  latest?: string; // Latest end time on the same day, HH:mm
+  stepMinutes?: number;
+  calendar?: StudioCalendar; // Skips closed hours, holidays and blackouts
+}
+
+export interface FreeSlot {
+  date: string;
+  startTime: string;
+  roomId: string;
+}
+
+const DEFAULT_STEP_MINUTES = 30;
+const MAX_SEARCH_DAYS = 62;
+
+/**
+ * Lists open start times between fromDate and toDate (inclusive) where a session of
+ * the given length fits without clashing with a room booking or the engineer's other sessions.
+ */
+export const findFreeSlots = (query: SlotQuery, bookings: Booking[], rooms: Room[], limit = 50): FreeSlot[] => {
+  const durationMinutes = Math.round(query.durationHours * 60);
+  if (durationMinutes <= 0 || query.toDate < query.fromDate) return [];
+
+  const step = query.stepMinutes || DEFAULT_STEP_MINUTES;
+  const earliest = query.earliest ? toMinutes(query.earliest) : 0;
+  const latestStart = (query.latest ? toMinutes(query.latest) || 24 * 60 : 24 * 60 + durationMinutes - step) - durationMinutes;
+  const searchRooms = query.roomId ? rooms.filter(r => r.id === query.roomId) : rooms;
+
+  // Only bookings that touch the search window can clash
+  const windowStart = toAbsoluteMinutes(query.fromDate, '00:00') - 24 * 60;
+  const windowEnd = toAbsoluteMinutes(addDays(query.toDate, 2), '00:00');
+  const relevant = bookings.filter(b => {
+    if (!holdsSlot(b)) return false;
+    const { start, end } = getBookingInterval(b);
+    return start < windowEnd && end > windowStart;
+  });
+
+  const slots: FreeSlot[] = [];
+  for (let day = 0, date = query.fromDate; date <= query.toDate && day < MAX_SEARCH_DAYS; day++, date = addDays(query.fromDate, day)) {
+    for (let start = Math.ceil(earliest / step) * step; start <= latestStart; start += step) {
+      for (const room of searchRooms) {
+        const candidate: Partial<Booking> = {
+          date,
+          startTime: minutesToTime(start),
+          durationHours: query.durationHours,
+          roomId: room.id,
+          engineerId: query.engineerId,
+          assistantId: query.assistantId
+        };
+        if (findOverlap(candidate, relevant) || findStaffConflict(candidate, relevant)) continue;
+        if (query.calendar && findRuleViolations(candidate, query.calendar).length > 0) continue;
+
+        slots.push({ date, startTime: candidate.startTime!, roomId: room.id });
+        if (slots.length >= limit) return slots;
+      }
+    }
+  }
+  return slots;
+};
+
+/**
+ * Suggests the open slots closest to a rejected request, searching a few days either
+ * side. The requested room is preferred when two slots are equally close.
+ */
+export const suggestAlternatives = (request: Partial<Booking>, bookings: Booking[], rooms: Room[], calendar?: StudioCalendar, count = 3, daysAround = 3): FreeSlot[] => {
+  if (!request.date || !request.startTime || !request.durationHours) return [];
+
+  const today = new Date().toISOString().split('T')[0];
+  const fromDate = addDays(request.date, -daysAround) < today ? today : addDays(request.date, -daysAround);
+  const requestedStart = toAbsoluteMinutes(request.date, request.startTime);
+
+  const slots = findFreeSlots({
+    fromDate,
+    toDate: addDays(request.date, daysAround),
+    durationHours: request.durationHours,
+    engineerId: request.engineerId,
+    assistantId: request.assistantId,
+    stepMinutes: 15,
+    calendar
+  }, bookings, rooms, Number.MAX_SAFE_INTEGER);
+
+  const distance = (s: FreeSlot) => Math.abs(toAbsoluteMinutes(s.date, s.startTime) - requestedStart);
+  return slots
+    .sort((a, b) => distance(a) - distance(b) || Number(b.roomId === request.roomId) - Number(a.roomId === request.roomId))
+    .slice(0, count);
+};
@@ -0,0 +1,246 @@
+import { InvoiceRecord, Payment } from "../types";
+import { StudioData } from "./repository";
+import { SCHEMA_VERSION, migrateData } from "./migrations";
+import { findRecordErrors, isNumber, isObject, isString } from "./recordValidation";
+
+const BACKUP_FORMAT = 'scube-backup';
+// Version 2 added the invoice register, version 3 the payment ledger
+const FORMAT_VERSION = 3;
+const MAX_REPORTED_ERRORS = 20;
+
+// Append-only records. A restore only ever adds to them, whichever way it is done.
+export interface BackupLedgers {
+  invoices: InvoiceRecord[];
+  payments: Payment[];
+}
+
+export type BackupData = StudioData & BackupLedgers;
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  schemaVersion: number;
+  exportedAt: number;
+  data: BackupData;
+}
+
+export type BackupCollection = 'bookings' | 'clients' | 'rooms' | 'staff';
+
+export const BACKUP_COLLECTIONS: BackupCollection[] = ['bookings', 'clients', 'rooms', 'staff'];
+
+type LedgerCollection = keyof BackupLedgers;
+
+// The format version each ledger first appeared in; older backups restore without it
+const LEDGER_VERSIONS: Record<LedgerCollection, number> = {
+  invoices: 2,
+  payments: 3
+};
+
+// A record whose id exists on both sides with different contents
+export interface MergeConflict {
+  key: string; // `${collection}:${id}`
+  collection: BackupCollection;
+  current: { id: string };
+  incoming: { id: string };
+}
+
+export interface MergePlan {
+  added: number; // Records only in the backup
+  unchanged: number;
+  conflicts: MergeConflict[];
+}
+
+export type ConflictResolution = 'CURRENT' | 'BACKUP';
+
+export const createBackup = (data: BackupData): BackupFile => ({
+  format: BACKUP_FORMAT,
+  formatVersion: FORMAT_VERSION,
+  schemaVersion: SCHEMA_VERSION,
+  exportedAt: Date.now(),
+  data
+});
+
+export const downloadBackup = (data: BackupData) => {
+  const blob = new Blob([JSON.stringify(createBackup(data), null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', `scube_backup_${new Date().toISOString().split('T')[0]}.json`);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Checks each record's fields and that no id appears twice
+const checkRecords = (collection: BackupCollection | LedgerCollection, records: unknown[], errors: string[]) => {
+  const seen = new Set<string>();
+  records.forEach((record: unknown, i) => {
+    if (!isObject(record)) {
+      errors.push(`${collection}[${i}] should be an object.`);
+      return;
+    }
+    findRecordErrors(collection, record).forEach(problem => errors.push(`${collection}[${i}].${problem}.`));
+    if (!isString(record.id)) return;
+    if (seen.has(record.id)) errors.push(`${collection}[${i}] repeats id ${record.id}.`);
+    seen.add(record.id);
+  });
+};
+
+/**
+ * Parses a backup file and checks it against the schema. Returns the data migrated
+ * to the current schema, or the problems found. Nothing is restored on error.
+ */
+export const parseBackup = (text: string): { backup?: BackupFile; errors: string[] } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { errors: ['The file is not valid JSON.'] };
+  }
+
+  if (!isObject(parsed) || parsed.format !== BACKUP_FORMAT) {
+    return { errors: ['This is not an S CUBE backup file.'] };
+  }
+  const schemaVersion = parsed.schemaVersion;
+  if (!isNumber(schemaVersion) || !Number.isInteger(schemaVersion) || schemaVersion < 1) {
+    return { errors: ['The backup has no valid schema version.'] };
+  }
+  if (schemaVersion > SCHEMA_VERSION) {
+    return { errors: [`The backup was made by a newer version of the app (schema ${schemaVersion}). Please update first.`] };
+  }
+  if (!isNumber(parsed.exportedAt)) {
+    return { errors: ['The backup has no export date.'] };
+  }
+  // Backups from before the format was versioned are version 1
+  const formatVersion = parsed.formatVersion === undefined ? 1 : parsed.formatVersion;
+  if (!isNumber(formatVersion) || !Number.isInteger(formatVersion) || formatVersion < 1) {
+    return { errors: ['The backup has no valid format version.'] };
+  }
+  if (formatVersion > FORMAT_VERSION) {
+    return { errors: [`The backup was made by a newer version of the app (format ${formatVersion}). Please update first.`] };
+  }
+
+  const data = isObject(parsed.data) ? parsed.data : {};
+  const errors: string[] = [];
+
+  BACKUP_COLLECTIONS.forEach(collection => {
+    const records = data[collection];
+    if (!Array.isArray(records)) {
+      errors.push(`"${collection}" is missing or not a list.`);
+      return;
+    }
+    checkRecords(collection, records, errors);
+  });
+
+  const ledgers = {} as Record<LedgerCollection, unknown[]>;
+  (Object.keys(LEDGER_VERSIONS) as LedgerCollection[]).forEach(collection => {
+    const records = data[collection];
+    if (records === undefined && formatVersion < LEDGER_VERSIONS[collection]) {
+      ledgers[collection] = [];
+    } else if (!Array.isArray(records)) {
+      errors.push(`"${collection}" is missing or not a list.`);
+    } else {
+      checkRecords(collection, records, errors);
+      ledgers[collection] = records;
+    }
+  });
+
+  const calendar = data.studioCalendar;
+  if (!isObject(calendar) || !Array.isArray(calendar.openingHours) || !Array.isArray(calendar.holidays) || !Array.isArray(calendar.blackouts)) {
+    errors.push('"studioCalendar" is missing or incomplete.');
+  }
+
+  // Older backups have no rate card; migrating them adds the default one
+  const rateCard = data.rateCard;
+  if (rateCard !== undefined && (!isObject(rateCard) || !isNumber(rateCard.defaultRate) || !Array.isArray(rateCard.clientRates))) {
+    errors.push('"rateCard" is incomplete.');
+  }
+
+  if (errors.length > 0) {
+    const extra = errors.length - MAX_REPORTED_ERRORS;
+    return { errors: extra > 0 ? [...errors.slice(0, MAX_REPORTED_ERRORS), `…and ${extra} more.`] : errors };
+  }
+
+  return {
+    backup: {
+      format: BACKUP_FORMAT,
+      formatVersion: FORMAT_VERSION,
+      schemaVersion: SCHEMA_VERSION,
+      exportedAt: parsed.exportedAt,
+      data: { ...migrateData(data as unknown as StudioData, schemaVersion), ...(ledgers as unknown as BackupLedgers) }
+    },
+    errors: []
+  };
+};
+
+const sameRecord = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Compares a backup with the current data record by record, matching on id.
+ */
+export const planMerge = (current: StudioData, incoming: StudioData): MergePlan => {
+  const plan: MergePlan = { added: 0, unchanged: 0, conflicts: [] };
+
+  BACKUP_COLLECTIONS.forEach(collection => {
+    const existing = new Map<string, { id: string }>(current[collection].map(r => [r.id, r]));
+    (incoming[collection] as { id: string }[]).forEach(record => {
+      const match = existing.get(record.id);
+      if (!match) plan.added++;
+      else if (sameRecord(match, record)) plan.unchanged++;
+      else plan.conflicts.push({ key: `${collection}:${record.id}`, collection, current: match, incoming: record });
+    });
+  });
+  return plan;
+};
+
+const mergeById = <T extends { id: string }>(current: T[], incoming: T[], useIncoming: (id: string) => boolean): T[] => {
+  const incomingById = new Map(incoming.map(r => [r.id, r]));
+  const currentIds = new Set(current.map(r => r.id));
+  return [
+    ...current.map(r => (incomingById.has(r.id) && useIncoming(r.id) ? incomingById.get(r.id)! : r)),
+    ...incoming.filter(r => !currentIds.has(r.id))
+  ];
+};
+
+/**
+ * Adds the backup's new records and applies the chosen side for each conflict.
+ * Unresolved conflicts keep the current record. Opening hours and rates are left as
+ * they are; holidays, blackouts and client rates from both sides are kept.
+ */
+export const applyMerge = (current: StudioData, incoming: StudioData, resolutions: Record<string, ConflictResolution>): StudioData => {
+  const pick = (collection: BackupCollection) => (id: string) => resolutions[`${collection}:${id}`] === 'BACKUP';
+  return {
+    bookings: mergeById(current.bookings, incoming.bookings, pick('bookings')),
+    clients: mergeById(current.clients, incoming.clients, pick('clients')),
+    rooms: mergeById(current.rooms, incoming.rooms, pick('rooms')),
+    staff: mergeById(current.staff, incoming.staff, pick('staff')),
+    studioCalendar: {
+      ...current.studioCalendar,
+      holidays: mergeById(current.studioCalendar.holidays, incoming.studioCalendar.holidays, () => false),
+      blackouts: mergeById(current.studioCalendar.blackouts, incoming.studioCalendar.blackouts, () => false)
+    },
+    rateCard: {
+      ...current.rateCard,
+      clientRates: mergeById(current.rateCard.clientRates, incoming.rateCard.clientRates, () => false)
+    }
+  };
+};
+
+const findMissing = <T extends { id: string }>(current: T[], incoming: T[], numberOf: (record: T) => string): { added: T[]; skipped: number } => {
+  const ids = new Set(current.map(r => r.id));
+  const numbers = new Set(current.map(numberOf));
+  const missing = incoming.filter(r => !ids.has(r.id));
+  const added = missing.filter(r => !numbers.has(numberOf(r)));
+  return { added, skipped: missing.length - added.length };
+};
+
+/**
+ * The backup's issued documents and receipts that are missing here. Nothing already here
+ * is replaced, and an entry whose number is taken here by another one is left out.
+ */
+export const planLedgerRestore = (current: BackupLedgers, incoming: BackupLedgers): { added: BackupLedgers; skipped: number } => {
+  const invoices = findMissing(current.invoices, incoming.invoices, r => r.number);
+  const payments = findMissing(current.payments, incoming.payments, p => p.receiptNumber);
+  return { added: { invoices: invoices.added, payments: payments.added }, skipped: invoices.skipped + payments.skipped };
+};
@@ -0,0 +1,117 @@
+import { Booking, BookingStatus } from "../types";
+
+// How a status looks on the calendar: SOFT is a hold, FADED is history, HIDDEN isn't drawn
+export type CalendarDisplay = 'SOLID' | 'SOFT' | 'FADED' | 'HIDDEN';
+
+interface StatusConfig {
+  label: string;
+  badgeClass: string; // Tailwind classes for status badges
+  color: string; // For calendar dots and timeline blocks
+  blocksSlot: boolean; // Whether the room and staff are taken for the session's time
+  display: CalendarDisplay;
+  next: BookingStatus[]; // The statuses a booking may move to from this one
+}
+
+export const BOOKING_STATUSES: Record<BookingStatus, StatusConfig> = {
+  [BookingStatus.TENTATIVE]: {
+    label: 'Tentative',
+    badgeClass: 'bg-amber-500/20 text-amber-300 border-amber-500/30',
+    color: '#f59e0b',
+    blocksSlot: true,
+    display: 'SOFT',
+    next: [BookingStatus.CONFIRMED, BookingStatus.RESCHEDULED, BookingStatus.CANCELLED]
+  },
+  [BookingStatus.CONFIRMED]: {
+    label: 'Confirmed',
+    badgeClass: 'bg-blue-500/20 text-blue-300 border-blue-500/30',
+    color: '#3b82f6',
+    blocksSlot: true,
+    display: 'SOLID',
+    next: [BookingStatus.IN_PROGRESS, BookingStatus.COMPLETED, BookingStatus.NO_SHOW, BookingStatus.RESCHEDULED, BookingStatus.CANCELLED]
+  },
+  [BookingStatus.IN_PROGRESS]: {
+    label: 'In Progress',
+    badgeClass: 'bg-cyan-500/20 text-cyan-300 border-cyan-500/30',
+    color: '#06b6d4',
+    blocksSlot: true,
+    display: 'SOLID',
+    next: [BookingStatus.COMPLETED]
+  },
+  [BookingStatus.COMPLETED]: {
+    label: 'Completed',
+    badgeClass: 'bg-green-500/20 text-green-300 border-green-500/30',
+    color: '#22c55e',
+    blocksSlot: true,
+    display: 'FADED',
+    next: []
+  },
+  // The room sat empty, so the slot can be given to a walk-in
+  [BookingStatus.NO_SHOW]: {
+    label: 'No-show',
+    badgeClass: 'bg-orange-500/20 text-orange-300 border-orange-500/30',
+    color: '#f97316',
+    blocksSlot: false,
+    display: 'FADED',
+    next: []
+  },
+  [BookingStatus.RESCHEDULED]: {
+    label: 'Needs New Slot',
+    badgeClass: 'bg-violet-500/20 text-violet-300 border-violet-500/30',
+    color: '#8b5cf6',
+    blocksSlot: false,
+    display: 'HIDDEN',
+    next: [BookingStatus.CONFIRMED, BookingStatus.TENTATIVE, BookingStatus.CANCELLED]
+  },
+  [BookingStatus.CANCELLED]: {
+    label: 'Cancelled',
+    badgeClass: 'bg-red-500/20 text-red-300 border-red-500/30',
+    color: '#ef4444',
+    blocksSlot: false,
+    display: 'HIDDEN',
+    next: []
+  }
+};
+
+export const canTransition = (from: BookingStatus, to: BookingStatus): boolean =>
+  BOOKING_STATUSES[from].next.includes(to);
+
+export const blocksSlot = (status: BookingStatus | undefined): boolean =>
+  !status || BOOKING_STATUSES[status].blocksSlot;
+
+// A hold past its deadline no longer keeps the slot, even before it's been released
+export const isHoldLapsed = (booking: Partial<Booking>, now = Date.now()): boolean =>
+  booking.status === BookingStatus.TENTATIVE && !!booking.holdExpiresAt && booking.holdExpiresAt <= now;
+
+export const holdsSlot = (booking: Partial<Booking>, now = Date.now()): boolean =>
+  blocksSlot(booking.status) && !isHoldLapsed(booking, now);
+
+// Cancels holds whose deadline has passed; returns the same list when there are none
+export const releaseLapsedHolds = (bookings: Booking[], now = Date.now()): Booking[] =>
+  bookings.some(b => isHoldLapsed(b, now))
+    ? bookings.map(b => (isHoldLapsed(b, now) ? { ...b, status: BookingStatus.CANCELLED } : b))
+    : bookings;
+
+// Holds running out within the given window, soonest first
+export const getExpiringHolds = (bookings: Booking[], withinMs: number, now = Date.now()): Booking[] =>
+  bookings
+    .filter(b => b.status === BookingStatus.TENTATIVE && b.holdExpiresAt && b.holdExpiresAt > now && b.holdExpiresAt <= now + withinMs)
+    .sort((a, b) => a.holdExpiresAt! - b.holdExpiresAt!);
+
+export const formatHoldDeadline = (holdExpiresAt: number): string =>
+  new Date(holdExpiresAt).toLocaleString('en-US', { weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Sessions that are still to happen, and so can be edited, moved or changed as a series
+export const isOpen = (status: BookingStatus): boolean =>
+  status === BookingStatus.TENTATIVE || status === BookingStatus.CONFIRMED;
+
+// Sessions the studio actually sold, for hours and utilisation figures
+export const isSold = (status: BookingStatus): boolean =>
+  blocksSlot(status) && status !== BookingStatus.TENTATIVE;
+
+// For clash messages, so a pencilled-in hold reads differently from a firm booking
+export const describeSlotHolder = (booking: Booking): string => {
+  if (booking.status !== BookingStatus.TENTATIVE) return `booked by ${booking.clientName}`;
+  return booking.holdExpiresAt
+    ? `on hold for ${booking.clientName} until ${formatHoldDeadline(booking.holdExpiresAt)}`
+    : `held (tentative) for ${booking.clientName}`;
+};
@@ -0,0 +1,187 @@
+import { Booking, Client } from "../types";
+import { isSold } from "./bookingStatusService";
+
+export const normalizeName = (name: string): string =>
+  name.toLowerCase().replace(/[^a-z0-9஀-௿\s]/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Compare the last 10 digits so "+91 98400 12345" and "9840012345" match
+export const normalizePhone = (phone: string): string =>
+  phone.replace(/[^0-9]/g, '').slice(-10);
+
+export const getClient = (clients: Client[], clientId?: string): Client | undefined =>
+  clientId ? clients.find(c => c.id === clientId) : undefined;
+
+const tokensMatch = (a: string, b: string): boolean => {
+  const aTokens = normalizeName(a).split(' ');
+  const bTokens = normalizeName(b).split(' ');
+  if (!aTokens[0] || aTokens[0] !== bTokens[0]) return false;
+
+  // "ravi k" matches "ravi kumar": every shared token position must be a prefix of the other
+  const shared = Math.min(aTokens.length, bTokens.length);
+  for (let i = 1; i < shared; i++) {
+    if (!aTokens[i].startsWith(bTokens[i]) && !bTokens[i].startsWith(aTokens[i])) return false;
+  }
+  return true;
+};
+
+const sharesPhone = (a: Client, b: Client): boolean => {
+  const aPhones = a.phoneNumbers.map(normalizePhone).filter(p => p.length >= 6);
+  return b.phoneNumbers.some(p => aPhones.includes(normalizePhone(p)));
+};
+
+// Exact lookup used when saving: same phone number or same normalised name
+export const findExactClient = (name: string | undefined, phone: string | undefined, clients: Client[]): Client | undefined => {
+  if (phone && normalizePhone(phone).length >= 6) {
+    const byPhone = clients.find(c => c.phoneNumbers.some(p => normalizePhone(p) === normalizePhone(phone)));
+    if (byPhone) return byPhone;
+  }
+  if (!name || !normalizeName(name)) return undefined;
+  return clients.find(c => normalizeName(c.name) === normalizeName(name));
+};
+
+/**
+ * Finds the directory entry for a name (and optional phone) extracted by the AI.
+ * Exact matches win, then a single fuzzy name match. Ambiguous fuzzy matches
+ * return undefined so the user picks from the suggestions instead.
+ */
+export const matchClient = (name: string | undefined, phone: string | undefined, clients: Client[]): Client | undefined => {
+  const exact = findExactClient(name, phone, clients);
+  if (exact || !name) return exact;
+
+  const fuzzy = clients.filter(c => tokensMatch(c.name, name));
+  return fuzzy.length === 1 ? fuzzy[0] : undefined;
+};
+
+export const searchClients = (query: string, clients: Client[], limit = 6): Client[] => {
+  const q = normalizeName(query);
+  const digits = query.replace(/[^0-9]/g, '');
+  if (!q && !digits) return [];
+
+  return clients
+    .filter(c =>
+      (q && normalizeName(c.name).includes(q)) ||
+      (digits.length >= 3 && c.phoneNumbers.some(p => p.replace(/[^0-9]/g, '').includes(digits)))
+    )
+    .sort((a, b) => {
+      const aStarts = normalizeName(a.name).startsWith(q) ? 0 : 1;
+      const bStarts = normalizeName(b.name).startsWith(q) ? 0 : 1;
+      return aStarts - bStarts || a.name.localeCompare(b.name);
+    })
+    .slice(0, limit);
+};
+
+export const createClient = (name: string, phone?: string): Client => ({
+  id: crypto.randomUUID(),
+  name: name.trim(),
+  phoneNumbers: phone && phone.trim() ? [phone.trim()] : [],
+  createdAt: Date.now()
+});
+
+/**
+ * Links bookings saved before the directory existed to client records. Only exact
+ * name or phone matches are linked here; near-duplicates are left for the merge tool.
+ */
+export const linkBookingsToClients = (bookings: Booking[], clients: Client[]): { bookings: Booking[]; clients: Client[] } => {
+  const nextClients = [...clients];
+  let changed = false;
+
+  const nextBookings = bookings.map(b => {
+    if (b.clientId && nextClients.some(c => c.id === b.clientId)) return b;
+
+    let client = findExactClient(b.clientName, b.phoneNumber, nextClients);
+    if (!client) {
+      client = { ...createClient(b.clientName, b.phoneNumber), createdAt: b.createdAt };
+      nextClients.push(client);
+    } else if (b.phoneNumber && !client.phoneNumbers.some(p => normalizePhone(p) === normalizePhone(b.phoneNumber!))) {
+      const updated = { ...client, phoneNumbers: [...client.phoneNumbers, b.phoneNumber] };
+      nextClients[nextClients.indexOf(client)] = updated;
+      client = updated;
+    }
+    changed = true;
+    return { ...b, clientId: client.id };
+  });
+
+  return changed ? { bookings: nextBookings, clients: nextClients } : { bookings, clients };
+};
+
+/**
+ * Groups clients that look like the same person: a shared phone number or
+ * compatible names ("Ravi", "Ravi K", "ravi kumar").
+ */
+export const findDuplicateGroups = (clients: Client[]): Client[][] => {
+  const parent = clients.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  for (let i = 0; i < clients.length; i++) {
+    for (let j = i + 1; j < clients.length; j++) {
+      if (sharesPhone(clients[i], clients[j]) || tokensMatch(clients[i].name, clients[j].name)) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups: Record<number, Client[]> = {};
+  clients.forEach((c, i) => {
+    const root = find(i);
+    groups[root] = [...(groups[root] || []), c];
+  });
+  return Object.values(groups).filter(g => g.length > 1);
+};
+
+/**
+ * Folds the duplicates into the primary client and repoints their bookings.
+ */
+export const mergeClients = (
+  primaryId: string,
+  duplicateIds: string[],
+  clients: Client[],
+  bookings: Booking[]
+): { clients: Client[]; bookings: Booking[] } => {
+  const primary = clients.find(c => c.id === primaryId);
+  if (!primary) return { clients, bookings };
+  const duplicates = clients.filter(c => duplicateIds.includes(c.id) && c.id !== primaryId);
+
+  const phones = [...primary.phoneNumbers];
+  duplicates.forEach(d => d.phoneNumbers.forEach(p => {
+    if (!phones.some(existing => normalizePhone(existing) === normalizePhone(p))) phones.push(p);
+  }));
+
+  const merged: Client = {
+    ...primary,
+    phoneNumbers: phones,
+    email: primary.email || duplicates.find(d => d.email)?.email,
+    gstin: primary.gstin || duplicates.find(d => d.gstin)?.gstin,
+    notes: [primary.notes, ...duplicates.map(d => d.notes)].filter(Boolean).join('\n') || undefined,
+    createdAt: Math.min(primary.createdAt, ...duplicates.map(d => d.createdAt))
+  };
+
+  const removed = duplicates.map(d => d.id);
+  return {
+    clients: clients.filter(c => !removed.includes(c.id)).map(c => c.id === primaryId ? merged : c),
+    bookings: bookings.map(b =>
+      b.clientId && removed.includes(b.clientId) ? { ...b, clientId: primaryId, clientName: merged.name } : b
+    )
+  };
+};
+
+export interface ClientStats {
+  bookings: Booking[];
+  totalHours: number;
+  totalBilled: number;
+  rescheduleCount: number;
+}
+
+export const getClientStats = (clientId: string, bookings: Booking[]): ClientStats => {
+  const history = bookings
+    .filter(b => b.clientId === clientId)
+    .sort((a, b) => (b.date + b.startTime).localeCompare(a.date + a.startTime));
+
+  return {
+    bookings: history,
+    totalHours: history
+      .filter(b => isSold(b.status))
+      .reduce((acc, curr) => acc + curr.durationHours, 0),
+    totalBilled: history.reduce((acc, curr) => acc + (curr.invoiceDetails?.totalAmount || 0), 0),
+    rescheduleCount: history.reduce((acc, curr) => acc + (curr.rescheduleHistory?.length || 0), 0)
+  };
+};
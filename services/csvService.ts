@@ -0,0 +1,246 @@
+import { Booking, BookingStatus, Room } from "../types";
+import { DEFAULT_ROOM_ID, findOverlap, getBookingRoomId, isValidDuration, resolveActualEndDate, toMinutes } from "./schedulingService";
+
+// Column headers written by Reports; the importer recognises them automatically
+export const EXPORT_HEADERS = ["Date", "Time", "Client Name", "Phone", "Room", "Type", "Duration (Hrs)", "Actual End Date", "Actual End Time", "Status"];
+
+const quoteCell = (value: string | number): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: (string | number)[][]): string =>
+  rows.map(row => row.map(quoteCell).join(',')).join('\n');
+
+/**
+ * Splits CSV text into rows of cells. Handles quoted cells with commas, escaped
+ * quotes and line breaks, CRLF endings and a leading byte-order mark.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"' && input[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else cell += ch;
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(cell); cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell); cell = '';
+      if (row.some(c => c.trim())) rows.push(row);
+      row = [];
+    } else {
+      cell += ch;
+    }
+  }
+  row.push(cell);
+  if (row.some(c => c.trim())) rows.push(row);
+  return rows;
+};
+
+export type ImportField = 'date' | 'startTime' | 'endTime' | 'clientName' | 'phoneNumber' | 'room' | 'type' | 'durationHours' | 'actualEndDate' | 'actualEndTime' | 'status' | 'notes';
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required?: boolean; aliases: string[] }[] = [
+  { field: 'date', label: 'Date', required: true, aliases: ['date', 'session date', 'booking date', 'day'] },
+  { field: 'startTime', label: 'Start Time', required: true, aliases: ['time', 'start', 'start time', 'from'] },
+  { field: 'endTime', label: 'End Time', aliases: ['end', 'end time', 'to', 'till'] },
+  { field: 'durationHours', label: 'Duration (hours)', aliases: ['duration', 'duration (hrs)', 'hours', 'hrs'] },
+  { field: 'clientName', label: 'Client Name', required: true, aliases: ['client name', 'client', 'name', 'artist', 'customer'] },
+  { field: 'phoneNumber', label: 'Phone', aliases: ['phone', 'phone number', 'mobile', 'contact'] },
+  { field: 'room', label: 'Room', aliases: ['room', 'studio'] },
+  { field: 'type', label: 'Session Type', aliases: ['type', 'session type', 'session', 'work'] },
+  { field: 'status', label: 'Status', aliases: ['status'] },
+  { field: 'actualEndDate', label: 'Actual End Date', aliases: ['actual end date'] },
+  { field: 'actualEndTime', label: 'Actual End Time', aliases: ['actual end time', 'ended at'] },
+  { field: 'notes', label: 'Notes', aliases: ['notes', 'remarks', 'comments'] },
+];
+
+// Column index per field; undefined means the field isn't in the file
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/\s+/g, ' ').trim();
+
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+  IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    const index = normalized.findIndex((h, i) => aliases.includes(h) && !Object.values(mapping).includes(i));
+    if (index >= 0) mapping[field] = index;
+  });
+  return mapping;
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const buildDate = (year: number, month: number, day: number): string | null => {
+  if (year < 100) year += 2000;
+  const d = new Date(Date.UTC(year, month - 1, day));
+  if (d.getUTCFullYear() !== year || d.getUTCMonth() !== month - 1 || d.getUTCDate() !== day) return null;
+  return d.toISOString().split('T')[0];
+};
+
+/**
+ * Reads YYYY-MM-DD, DD/MM/YYYY (also with - or .), "12 Jan 2023" and "Jan 12, 2023".
+ * Numeric dates are read day-first, as written in India.
+ */
+export const parseDate = (value: string): string | null => {
+  const v = value.trim().toLowerCase();
+  let m = v.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+  if (m) return buildDate(+m[1], +m[2], +m[3]);
+
+  m = v.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/);
+  if (m) return buildDate(+m[3], +m[2], +m[1]);
+
+  m = v.match(/^(\d{1,2})(?:st|nd|rd|th)?[\s-]+([a-z]{3})[a-z]*[\s,-]+(\d{2}|\d{4})$/);
+  if (m && MONTHS.includes(m[2])) return buildDate(+m[3], MONTHS.indexOf(m[2]) + 1, +m[1]);
+
+  m = v.match(/^([a-z]{3})[a-z]*\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/);
+  if (m && MONTHS.includes(m[1])) return buildDate(+m[3], MONTHS.indexOf(m[1]) + 1, +m[2]);
+
+  return null;
+};
+
+// Reads 14:00, 14.30, 1430, 2pm and 2:30 PM
+export const parseTime = (value: string): string | null => {
+  const m = value.trim().toLowerCase().match(/^(\d{1,2})(?:[:.]?(\d{2}))?(?::\d{2})?\s*(am|pm|a\.m\.|p\.m\.)?$/);
+  if (!m) return null;
+  let hours = +m[1];
+  const minutes = m[2] ? +m[2] : 0;
+  const meridiem = m[3]?.[0];
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === 'p' ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59) return null;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+};
+
+// Reads 2, 2.5, 1:30, 1h 30m and 90m (or 90 min) as hours
+export const parseDuration = (value: string): number | null => {
+  const v = value.trim().toLowerCase();
+  let m = v.match(/^(\d+(?:\.\d+)?)\s*(?:h|hr|hrs|hours?)?$/);
+  if (m) return +m[1];
+  m = v.match(/^(\d+):(\d{2})$/);
+  if (m) return +m[1] + +m[2] / 60;
+  m = v.match(/^(?:(\d+)\s*h(?:rs?|ours?)?)?\s*(?:(\d+)\s*m(?:in|ins|inutes?)?)?$/);
+  if (m && (m[1] || m[2])) return (+(m[1] || 0)) + (+(m[2] || 0)) / 60;
+  return null;
+};
+
+export interface ImportRow {
+  line: number; // Spreadsheet row number, counting the header
+  booking?: Booking; // Set when the row can be imported
+  errors: string[];
+  warnings: string[];
+}
+
+const isBlank = (value: string | undefined) => !value || !value.trim() || value.trim().toUpperCase() === 'N/A';
+
+/**
+ * Turns mapped CSV rows into bookings and validates each one, including overlaps with
+ * existing bookings and earlier rows in the same file. Rows with errors are not imported.
+ */
+export const buildImportPreview = (rows: string[][], mapping: ColumnMapping, existing: Booking[], rooms: Room[]): ImportRow[] => {
+  const today = new Date().toISOString().split('T')[0];
+  const accepted: Booking[] = [];
+
+  return rows.map((cells, i) => {
+    const get = (field: ImportField) => {
+      const index = mapping[field];
+      return index === undefined ? undefined : cells[index]?.trim();
+    };
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const clientName = get('clientName');
+    if (isBlank(clientName)) errors.push('Missing client name');
+
+    const rawDate = get('date');
+    const date = rawDate ? parseDate(rawDate) : null;
+    if (!date) errors.push(rawDate ? `Unreadable date "${rawDate}"` : 'Missing date');
+
+    const rawStart = get('startTime');
+    const startTime = rawStart ? parseTime(rawStart) : null;
+    if (!startTime) errors.push(rawStart ? `Unreadable time "${rawStart}"` : 'Missing start time');
+
+    // Duration comes from its own column, or from an end time
+    let durationHours: number | null = null;
+    const rawDuration = get('durationHours');
+    const rawEnd = get('endTime');
+    if (!isBlank(rawDuration)) {
+      durationHours = parseDuration(rawDuration!);
+    } else if (!isBlank(rawEnd) && startTime) {
+      const endTime = parseTime(rawEnd!);
+      if (endTime) durationHours = ((toMinutes(endTime) - toMinutes(startTime) + 1440) % 1440 || 1440) / 60;
+    }
+    if (durationHours === null || !isValidDuration(durationHours)) {
+      errors.push(`Bad duration "${rawDuration || rawEnd || ''}" (15 minute steps, up to 24 hours)`);
+    }
+
+    const rawRoom = get('room');
+    let roomId = DEFAULT_ROOM_ID;
+    if (!isBlank(rawRoom)) {
+      const room = rooms.find(r => r.name.toLowerCase() === rawRoom!.toLowerCase() || r.id === rawRoom);
+      if (room) roomId = room.id;
+      else warnings.push(`Unknown room "${rawRoom}", using ${rooms.find(r => r.id === DEFAULT_ROOM_ID)?.name || 'the main room'}`);
+    }
+
+    // Accepts spreadsheet spellings such as "No-show" and "In progress"
+    const rawStatus = get('status')?.trim().toUpperCase().replace(/[\s-]+/g, '_');
+    let status = date && date < today ? BookingStatus.COMPLETED : BookingStatus.CONFIRMED;
+    if (!isBlank(rawStatus)) {
+      if (Object.values(BookingStatus).includes(rawStatus as BookingStatus)) status = rawStatus as BookingStatus;
+      else warnings.push(`Unknown status "${rawStatus}", using ${status}`);
+    }
+
+    const rawActualEnd = get('actualEndTime');
+    const actualEndTime = !isBlank(rawActualEnd) ? parseTime(rawActualEnd!) : null;
+    if (rawActualEnd && !isBlank(rawActualEnd) && !actualEndTime) warnings.push(`Ignored unreadable end time "${rawActualEnd}"`);
+    const rawActualEndDate = get('actualEndDate');
+    const actualEndDate = !isBlank(rawActualEndDate) ? parseDate(rawActualEndDate!) : null;
+
+    if (errors.length > 0) return { line: i + 2, errors, warnings };
+
+    const booking: Booking = {
+      id: crypto.randomUUID(),
+      clientName: clientName!,
+      phoneNumber: isBlank(get('phoneNumber')) ? '' : get('phoneNumber'),
+      roomId,
+      date: date!,
+      startTime: startTime!,
+      durationHours: durationHours!,
+      type: isBlank(get('type')) ? 'General' : get('type')!,
+      status,
+      createdAt: Date.now(),
+      notes: isBlank(get('notes')) ? undefined : get('notes'),
+      ...(actualEndTime ? {
+        actualEndTime,
+        actualEndDate: actualEndDate || resolveActualEndDate({ date: date!, startTime: startTime! }, actualEndTime)
+      } : {})
+    };
+
+    // Re-importing our own export shouldn't create a second copy
+    const duplicate = existing.find(b =>
+      b.date === booking.date && b.startTime === booking.startTime &&
+      getBookingRoomId(b) === roomId && b.clientName.trim().toLowerCase() === booking.clientName.toLowerCase()
+    );
+    if (duplicate) return { line: i + 2, errors: ['Already in the bookings'], warnings };
+
+    const overlap = findOverlap(booking, [...existing, ...accepted]);
+    if (overlap) {
+      return { line: i + 2, errors: [`Overlaps ${overlap.clientName} at ${overlap.startTime} on ${overlap.date}`], warnings };
+    }
+
+    accepted.push(booking);
+    return { line: i + 2, booking, errors, warnings };
+  });
+};
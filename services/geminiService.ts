@@ -1,7 +1,9 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { Booking } from "../types";
+import { Content, FunctionDeclaration, GoogleGenAI, Type } from "@google/genai";
+import { Booking, Room, StaffMember, StudioCalendar } from "../types";
+import { findFreeSlots } from "./availabilityService";
+import { getRoom } from "./schedulingService";
 
-interface ExtractedBookingData {
+export interface ExtractedBookingData {
   clientName?: string;
   phoneNumber?: string;
   date?: string;
@@ -32,7 +34,7 @@ export const parseBookingRequest = async (text: string): Promise<ExtractedBookin
             phoneNumber: { type: Type.STRING, description: "Phone number of the client" },
             date: { type: Type.STRING, description: "Date of booking in YYYY-MM-DD format" },
             startTime: { type: Type.STRING, description: "Start time in HH:mm 24-hour format" },
-            durationHours: { type: Type.NUMBER, description: "Duration in hours" },
+            durationHours: { type: Type.NUMBER, description: "Duration in hours, in quarter-hour steps (e.g. 1.5 for 90 minutes)" },
             type: { type: Type.STRING, description: "Type of recording session (e.g., Vocal, Mixing)" },
           },
         },
@@ -81,7 +83,7 @@ export const parseVoiceBookingRequest = async (base64Audio: string, mimeType: st
             phoneNumber: { type: Type.STRING, description: "Phone number of the client" },
             date: { type: Type.STRING, description: "Date of booking in YYYY-MM-DD format" },
             startTime: { type: Type.STRING, description: "Start time in HH:mm 24-hour format" },
-            durationHours: { type: Type.NUMBER, description: "Duration in hours" },
+            durationHours: { type: Type.NUMBER, description: "Duration in hours, in quarter-hour steps (e.g. 1.5 for 90 minutes)" },
             type: { type: Type.STRING, description: "Type of recording session (e.g., Vocal, Mixing)" },
           },
         },
@@ -118,7 +120,53 @@ export const generateSessionSummary = async (bookings: Booking[]): Promise<strin
     }
 };
 
-export const askStudioAssistant = async (query: string | null, audioBase64: string | null, bookings: Booking[]): Promise<string> => {
+const freeSlotsDeclaration: FunctionDeclaration = {
+  name: 'findFreeSlots',
+  description: 'Finds open studio slots where a session of the given length fits. Use this for any availability question.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      fromDate: { type: Type.STRING, description: "First date to search, YYYY-MM-DD" },
+      toDate: { type: Type.STRING, description: "Last date to search, YYYY-MM-DD" },
+      durationHours: { type: Type.NUMBER, description: "Session length in hours" },
+      roomName: { type: Type.STRING, description: "Only search this room" },
+      engineerName: { type: Type.STRING, description: "Engineer who must also be free" },
+      earliest: { type: Type.STRING, description: "Earliest start time, HH:mm 24-hour" },
+      latest: { type: Type.STRING, description: "Latest end time, HH:mm 24-hour" },
+    },
+    required: ['fromDate', 'toDate', 'durationHours'],
+  },
+};
+
+// Runs a findFreeSlots call from the model against the availability engine
+const runFreeSlotsCall = (args: Record<string, unknown>, bookings: Booking[], rooms: Room[], staff: StaffMember[], calendar: StudioCalendar) => {
+  const byName = <T extends { name: string }>(items: T[], name: unknown) =>
+    typeof name === 'string' ? items.find(i => i.name.toLowerCase().includes(name.toLowerCase())) : undefined;
+
+  const room = byName(rooms, args.roomName);
+  const engineer = byName(staff, args.engineerName);
+  const slots = findFreeSlots({
+    fromDate: String(args.fromDate),
+    toDate: String(args.toDate),
+    durationHours: Number(args.durationHours),
+    roomId: room?.id,
+    engineerId: engineer?.id,
+    earliest: typeof args.earliest === 'string' ? args.earliest : undefined,
+    latest: typeof args.latest === 'string' ? args.latest : undefined,
+    calendar,
+  }, bookings, rooms, 15);
+
+  const notes: string[] = [];
+  if (args.roomName && !room) notes.push(`No room named "${args.roomName}"; searched all rooms.`);
+  if (args.engineerName && !engineer) notes.push(`No engineer named "${args.engineerName}" on the roster.`);
+
+  return {
+    slots: slots.map(s => ({ date: s.date, startTime: s.startTime, room: getRoom(rooms, s.roomId)?.name })),
+    notes,
+  };
+};
+
+export const askStudioAssistant = async (query: string | null, audioBase64: string | null, bookings: Booking[], rooms: Room[], staff: StaffMember[], calendar: StudioCalendar): Promise<string> => {
   try {
     const ai = getAI();
     
@@ -130,7 +178,8 @@ export const askStudioAssistant = async (query: string | null, audioBase64: stri
       duration: b.durationHours,
       type: b.type,
       status: b.status,
-      phone: b.phoneNumber
+      phone: b.phoneNumber,
+      room: getRoom(rooms, b.roomId)?.name
     })));
 
     const today = new Date().toISOString().split('T')[0];
@@ -144,6 +193,7 @@ export const askStudioAssistant = async (query: string | null, audioBase64: stri
       Answer the user's question based strictly on this data.
       If the user asks about a specific date, check the data for that date.
       If the user asks "When is [Name] recording", search for that name.
+      For free slots or availability, call findFreeSlots instead of working it out from the bookings.
       
       Important:
       1. If the input is in Tamil, reply in Tamil (or Tanglish if casual).
@@ -166,10 +216,27 @@ export const askStudioAssistant = async (query: string | null, audioBase64: stri
       parts.push({ text: `User Question: ${query}` });
     }
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: { parts }
-    });
+    const config = { tools: [{ functionDeclarations: [freeSlotsDeclaration] }] };
+    const contents: Content[] = [{ role: 'user', parts }];
+    let response = await ai.models.generateContent({ model: 'gemini-2.5-flash', contents, config });
+
+    // Answer tool calls until the model replies in text
+    for (let round = 0; round < 3 && response.functionCalls?.length; round++) {
+      const modelTurn = response.candidates?.[0]?.content;
+      if (modelTurn) contents.push(modelTurn);
+      contents.push({
+        role: 'user',
+        parts: response.functionCalls.map(call => ({
+          functionResponse: {
+            name: call.name,
+            response: call.name === freeSlotsDeclaration.name
+              ? runFreeSlotsCall(call.args || {}, bookings, rooms, staff, calendar)
+              : { error: `Unknown function ${call.name}` }
+          }
+        }))
+      });
+      response = await ai.models.generateContent({ model: 'gemini-2.5-flash', contents, config });
+    }
 
     return response.text || "I'm sorry, I couldn't process that.";
 
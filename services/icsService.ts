@@ -0,0 +1,261 @@
+import { Booking, BookingStatus, Room, StaffMember } from "../types";
+import { getBookingEnd, getRoom, getStaffMember } from "./schedulingService";
+
+const PRODID = '-//S CUBE STUDIOZ//Studio Bookings//EN';
+const UID_DOMAIN = 'scube-studioz';
+const STUDIO_TIMEZONE = 'Asia/Kolkata';
+
+// India has no daylight saving, so one fixed standard-time rule covers every date
+const VTIMEZONE = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${STUDIO_TIMEZONE}`,
+  'BEGIN:STANDARD',
+  'DTSTART:19700101T000000',
+  'TZOFFSETFROM:+0530',
+  'TZOFFSETTO:+0530',
+  'TZNAME:IST',
+  'END:STANDARD',
+  'END:VTIMEZONE'
+];
+
+// Stable per booking, so a re-exported event replaces the one already in the calendar
+export const getBookingUid = (booking: Booking): string => `${booking.id}@${UID_DOMAIN}`;
+
+const escapeText = (text: string): string =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const unescapeText = (text: string): string =>
+  text.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1');
+
+// Lines longer than 75 octets are folded with CRLF and a leading space (RFC 5545 §3.1)
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const ch of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + ch).length > limit) {
+      parts.push(current);
+      current = ch;
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const formatLocal = (date: string, time: string): string =>
+  `${date.replace(/-/g, '')}T${time.replace(':', '')}00`;
+
+const formatUtc = (timestamp: number): string =>
+  new Date(timestamp).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Bookings waiting for a new slot come off calendars until they get one
+const getIcsStatus = (status: BookingStatus): string => {
+  switch (status) {
+    case BookingStatus.TENTATIVE: return 'TENTATIVE';
+    case BookingStatus.CANCELLED:
+    case BookingStatus.RESCHEDULED: return 'CANCELLED';
+    default: return 'CONFIRMED';
+  }
+};
+
+/**
+ * Builds a VEVENT for one booking. SEQUENCE grows with every saved change so
+ * calendar apps apply updates and cancellations over the earlier copy.
+ */
+const buildEvent = (booking: Booking, rooms: Room[], staff: StaffMember[]): string[] => {
+  const end = getBookingEnd(booking);
+  const updatedAt = booking.updatedAt || booking.createdAt;
+  const room = getRoom(rooms, booking.roomId);
+  const engineer = getStaffMember(staff, booking.engineerId);
+  const assistant = getStaffMember(staff, booking.assistantId);
+
+  const description = [
+    engineer && `Engineer: ${engineer.name}`,
+    assistant && `Assistant: ${assistant.name}`,
+    booking.phoneNumber && `Phone: ${booking.phoneNumber}`,
+    booking.notes
+  ].filter(Boolean).join('\n');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${getBookingUid(booking)}`,
+    `DTSTAMP:${formatUtc(Date.now())}`,
+    `DTSTART;TZID=${STUDIO_TIMEZONE}:${formatLocal(booking.date, booking.startTime)}`,
+    `DTEND;TZID=${STUDIO_TIMEZONE}:${formatLocal(end.date, end.time)}`,
+    `SEQUENCE:${Math.max(0, Math.floor((updatedAt - booking.createdAt) / 1000))}`,
+    `LAST-MODIFIED:${formatUtc(updatedAt)}`,
+    `SUMMARY:${escapeText(`${booking.type} — ${booking.clientName}`)}`,
+    `LOCATION:${escapeText(`S CUBE STUDIOZ${room ? `, ${room.name}` : ''}`)}`,
+    ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+    `STATUS:${getIcsStatus(booking.status)}`,
+    // Our own fields, so importing an exported file restores the booking exactly
+    `X-SCUBE-CLIENT:${escapeText(booking.clientName)}`,
+    `X-SCUBE-TYPE:${escapeText(booking.type)}`,
+    ...(room ? [`X-SCUBE-ROOM:${escapeText(room.name)}`] : []),
+    'END:VEVENT'
+  ];
+};
+
+export const buildIcs = (bookings: Booking[], rooms: Room[], staff: StaffMember[]): string =>
+  [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...VTIMEZONE,
+    ...bookings.flatMap(b => buildEvent(b, rooms, staff)),
+    'END:VCALENDAR'
+  ].map(foldLine).join('\r\n') + '\r\n';
+
+export const downloadIcs = (bookings: Booking[], rooms: Room[], staff: StaffMember[], fileName: string) => {
+  const blob = new Blob([buildIcs(bookings, rooms, staff)], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', `${fileName.replace(/\s+/g, '_')}.ics`);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export interface IcsEvent {
+  uid?: string;
+  summary: string;
+  date: string; // Studio-local YYYY-MM-DD
+  startTime: string; // Studio-local HH:mm
+  durationHours: number;
+  location?: string;
+  description?: string;
+  cancelled: boolean;
+  tentative: boolean;
+  client?: string; // X-SCUBE-* fields from our own exports
+  type?: string;
+  room?: string;
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const parseProperty = (line: string): IcsProperty | null => {
+  const colon = line.search(/:(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  if (colon < 0) return null;
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  paramParts.forEach(p => {
+    const [key, value = ''] = p.split('=');
+    params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+// Wall-clock date and time at the studio, whatever zone the browser is in
+const toStudioTime = (at: Date): { date: string; time: string } => {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: STUDIO_TIMEZONE, year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hourCycle: 'h23'
+  }).formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '';
+  return { date: `${part('year')}-${part('month')}-${part('day')}`, time: `${part('hour')}:${part('minute')}` };
+};
+
+/**
+ * Reads DATE-TIME values as studio wall time. UTC values (ending in Z) are converted
+ * to the studio's time zone; values with a TZID or with no zone are taken as written,
+ * on the assumption that they are already in the studio's zone.
+ */
+const parseDateTime = (prop: IcsProperty): { date: string; time: string; allDay: boolean } | null => {
+  const m = prop.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!m) return null;
+  if (!m[4]) return { date: `${m[1]}-${m[2]}-${m[3]}`, time: '00:00', allDay: true };
+  if (m[7]) {
+    return { ...toStudioTime(new Date(Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5]))), allDay: false };
+  }
+  return { date: `${m[1]}-${m[2]}-${m[3]}`, time: `${m[4]}:${m[5]}`, allDay: false };
+};
+
+// ISO 8601 durations such as PT2H30M or P1D
+const parseIcsDuration = (value: string): number | null => {
+  const m = value.match(/^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:\d+S)?)?$/);
+  if (!m) return null;
+  return (+(m[1] || 0)) * 168 + (+(m[2] || 0)) * 24 + (+(m[3] || 0)) + (+(m[4] || 0)) / 60;
+};
+
+const minutesBetween = (start: { date: string; time: string }, end: { date: string; time: string }): number =>
+  (Date.parse(`${end.date}T${end.time}:00Z`) - Date.parse(`${start.date}T${start.time}:00Z`)) / 60000;
+
+/**
+ * Extracts timed events from an .ics file. All-day events and events without a
+ * usable start are skipped, since they can't become studio sessions.
+ */
+export const parseIcs = (text: string): IcsEvent[] => {
+  // Unfold continuation lines first
+  const lines = text.replace(/\r\n[ \t]/g, '').replace(/\n[ \t]/g, '').split(/\r?\n/);
+  const events: IcsEvent[] = [];
+  let props: IcsProperty[] | null = null;
+
+  lines.forEach(line => {
+    if (line === 'BEGIN:VEVENT') { props = []; return; }
+    if (line === 'END:VEVENT' && props) {
+      const get = (name: string) => props!.find(p => p.name === name);
+      const start = get('DTSTART') && parseDateTime(get('DTSTART')!);
+      const endProp = get('DTEND');
+      const end = endProp && parseDateTime(endProp);
+      const durationProp = get('DURATION');
+
+      if (start && !start.allDay) {
+        const durationHours = end
+          ? minutesBetween(start, end) / 60
+          : (durationProp && parseIcsDuration(durationProp.value)) || 0;
+        const text = (name: string) => { const p = get(name); return p ? unescapeText(p.value) : undefined; };
+        events.push({
+          uid: get('UID')?.value,
+          summary: text('SUMMARY') || '',
+          date: start.date,
+          startTime: start.time,
+          durationHours,
+          location: text('LOCATION'),
+          description: text('DESCRIPTION'),
+          cancelled: get('STATUS')?.value.toUpperCase() === 'CANCELLED',
+          tentative: get('STATUS')?.value.toUpperCase() === 'TENTATIVE',
+          client: text('X-SCUBE-CLIENT'),
+          type: text('X-SCUBE-TYPE'),
+          room: text('X-SCUBE-ROOM')
+        });
+      }
+      props = null;
+      return;
+    }
+    if (props) {
+      const prop = parseProperty(line);
+      if (prop) props.push(prop);
+    }
+  });
+  return events;
+};
+
+export const ICS_IMPORT_HEADERS = ['Date', 'Time', 'Duration', 'Client Name', 'Room', 'Type', 'Notes', 'Status'];
+
+/**
+ * Lays events out as import rows so they go through the same validation and
+ * preview as a CSV. Cancelled events are left out; tentative ones stay tentative.
+ */
+export const icsEventsToRows = (events: IcsEvent[]): string[][] =>
+  events
+    .filter(e => !e.cancelled)
+    .map(e => [
+      e.date,
+      e.startTime,
+      String(e.durationHours),
+      e.client || e.summary,
+      e.room || '',
+      e.type || '',
+      e.client ? '' : [e.location, e.description].filter(Boolean).join(' — '),
+      e.tentative ? BookingStatus.TENTATIVE : ''
+    ]);
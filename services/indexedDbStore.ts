@@ -0,0 +1,77 @@
+import { KeyValueStore, Repository, StudioStore } from "./repository";
+
+const DB_NAME = 'scube_studio';
+// Bump when adding object stores; data changes belong in migrations.ts
+const DB_VERSION = 4;
+
+const ENTITY_STORES = ['bookings', 'clients', 'rooms', 'staff', 'activity', 'invoices', 'payments'] as const;
+const META_STORE = 'meta';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      ENTITY_STORES.forEach(name => {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: 'id' });
+      });
+      if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const createRepository = <T extends { id: string }>(db: IDBDatabase, storeName: string): Repository<T> => ({
+  getAll: () => promisify(db.transaction(storeName).objectStore(storeName).getAll() as IDBRequest<T[]>),
+
+  // One transaction per batch so a failed write leaves nothing half-saved
+  putMany: (items) => {
+    const tx = db.transaction(storeName, 'readwrite');
+    const store = tx.objectStore(storeName);
+    items.forEach(item => store.put(item));
+    return transactionDone(tx);
+  },
+
+  deleteMany: (ids) => {
+    const tx = db.transaction(storeName, 'readwrite');
+    const store = tx.objectStore(storeName);
+    ids.forEach(id => store.delete(id));
+    return transactionDone(tx);
+  }
+});
+
+const createKeyValueStore = (db: IDBDatabase): KeyValueStore => ({
+  get: <T>(key: string) => promisify(db.transaction(META_STORE).objectStore(META_STORE).get(key) as IDBRequest<T | undefined>),
+  set: (key, value) => {
+    const tx = db.transaction(META_STORE, 'readwrite');
+    tx.objectStore(META_STORE).put(value, key);
+    return transactionDone(tx);
+  }
+});
+
+export const openIndexedDbStore = async (): Promise<StudioStore> => {
+  const db = await openDatabase();
+  return {
+    bookings: createRepository(db, 'bookings'),
+    clients: createRepository(db, 'clients'),
+    rooms: createRepository(db, 'rooms'),
+    staff: createRepository(db, 'staff'),
+    activity: createRepository(db, 'activity'),
+    invoices: createRepository(db, 'invoices'),
+    payments: createRepository(db, 'payments'),
+    meta: createKeyValueStore(db)
+  };
+};
@@ -0,0 +1,126 @@
+import { Booking, InvoiceDocumentType, InvoiceRecord, UserAccount } from "../types";
+import { SyncConnection, reserveNumber } from "./syncService";
+
+const NUMBER_PREFIXES: Record<InvoiceDocumentType, string> = {
+  INVOICE: 'SCS',
+  CREDIT_NOTE: 'SCS/CN'
+};
+
+export const DOCUMENT_LABELS: Record<InvoiceDocumentType, string> = {
+  INVOICE: 'Invoice',
+  CREDIT_NOTE: 'Credit note'
+};
+
+// Indian financial years run April to March, e.g. 2026-27
+export const getFinancialYear = (at: number): string => {
+  const date = new Date(at);
+  const start = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, '0')}`;
+};
+
+export type NumberedDocument = Pick<InvoiceRecord, 'number' | 'financialYear' | 'sequence'>;
+
+type IssuedSeries = Pick<InvoiceRecord, 'financialYear' | 'sequence'>[];
+
+// Gives the next number in a series to a document issued at the given time
+export type NumberAllocator = (prefix: string, at: number, issued: IssuedSeries) => Promise<NumberedDocument>;
+
+const getHighestInYear = (issued: IssuedSeries, financialYear: string): number =>
+  issued.filter(r => r.financialYear === financialYear).reduce((max, r) => Math.max(max, r.sequence), 0);
+
+const formatNumber = (prefix: string, financialYear: string, sequence: number): string =>
+  `${prefix}/${financialYear}/${String(sequence).padStart(4, '0')}`;
+
+/**
+ * The next number in a series for the financial year. Documents are never removed,
+ * so numbering on from the highest one issued leaves no gaps.
+ */
+export const getNextInSeries = (issued: IssuedSeries, prefix: string, at: number): NumberedDocument => {
+  const financialYear = getFinancialYear(at);
+  const sequence = getHighestInYear(issued, financialYear) + 1;
+  return { number: formatNumber(prefix, financialYear, sequence), financialYear, sequence };
+};
+
+/**
+ * With sync on, the server hands out numbers so no two devices issue the same one,
+ * and issuing needs the server to be reachable. Otherwise they're numbered here.
+ */
+export const allocateNumber = async (connection: SyncConnection | null, prefix: string, at: number, issued: IssuedSeries): Promise<NumberedDocument> => {
+  if (!connection) return getNextInSeries(issued, prefix, at);
+  const financialYear = getFinancialYear(at);
+  const sequence = await reserveNumber(connection, `${prefix}/${financialYear}`, getHighestInYear(issued, financialYear));
+  return { number: formatNumber(prefix, financialYear, sequence), financialYear, sequence };
+};
+
+// What issuing gives back: the registered document, or why nothing was issued
+export type IssueResult<T> = { record: T } | { error: string };
+
+/**
+ * Checks the booking can take the document, reserves its number and registers what
+ * `build` makes with it. Nothing is refused once a number is reserved, so series have no gaps.
+ */
+export type InvoiceIssuer = (
+  bookingId: string,
+  type: InvoiceDocumentType,
+  at: number,
+  build: (numbering: NumberedDocument) => InvoiceRecord
+) => Promise<IssueResult<InvoiceRecord>>;
+
+export const allocateDocumentNumber = (allocate: NumberAllocator, records: InvoiceRecord[], type: InvoiceDocumentType, at: number): Promise<NumberedDocument> =>
+  allocate(NUMBER_PREFIXES[type], at, records.filter(r => r.type === type));
+
+export const getCreditNote = (records: InvoiceRecord[], invoiceId: string): InvoiceRecord | undefined =>
+  records.find(r => r.type === 'CREDIT_NOTE' && r.cancelsId === invoiceId);
+
+// The booking's invoice that no credit note has cancelled
+export const getActiveInvoice = (records: InvoiceRecord[], bookingId: string): InvoiceRecord | undefined =>
+  records.find(r => r.type === 'INVOICE' && r.bookingId === bookingId && !getCreditNote(records, r.id));
+
+// The booking's newest invoice, whether or not a credit note has cancelled it
+export const getLatestInvoice = (records: InvoiceRecord[], bookingId: string): InvoiceRecord | undefined =>
+  getRegister(records).find(r => r.type === 'INVOICE' && r.bookingId === bookingId);
+
+// Every document ever issued, newest first
+export const getRegister = (records: InvoiceRecord[]): InvoiceRecord[] =>
+  [...records].sort((a, b) => b.issuedAt - a.issuedAt || b.sequence - a.sequence);
+
+export const createInvoiceRecord = (
+  numbering: NumberedDocument,
+  booking: Booking,
+  details: InvoiceRecord['details'],
+  renderPdf: (number: string) => string,
+  user: UserAccount | null
+): InvoiceRecord => ({
+  id: crypto.randomUUID(),
+  type: 'INVOICE',
+  ...numbering,
+  bookingId: booking.id,
+  clientId: booking.clientId,
+  clientName: booking.clientName,
+  issuedAt: details.generatedAt,
+  issuedBy: user?.id,
+  details,
+  pdf: renderPdf(numbering.number)
+});
+
+export const createCreditNote = (
+  numbering: NumberedDocument,
+  issuedAt: number,
+  invoice: InvoiceRecord,
+  reason: string,
+  renderPdf: (number: string, issuedAt: number) => string,
+  user: UserAccount | null
+): InvoiceRecord => ({
+  id: crypto.randomUUID(),
+  type: 'CREDIT_NOTE',
+  ...numbering,
+  bookingId: invoice.bookingId,
+  clientId: invoice.clientId,
+  clientName: invoice.clientName,
+  issuedAt,
+  issuedBy: user?.id,
+  details: invoice.details,
+  cancelsId: invoice.id,
+  reason: reason.trim(),
+  pdf: renderPdf(numbering.number, issuedAt)
+});
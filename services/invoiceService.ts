@@ -0,0 +1,366 @@
+import jsPDF from 'jspdf';
+import { Booking, GstSplit, InvoiceDiscount, InvoiceItemKind, InvoiceLineItem, InvoiceRecord, InvoiceTax, Payment, RateCard, StaffMember } from "../types";
+import { formatDuration, getBookingEnd, getStaffMember } from "./schedulingService";
+import { BilledTime, InvoiceAmounts, InvoiceQuote, PRICE_BAND_LABELS, getBilledHours } from "./pricingService";
+import { PAYMENT_KIND_LABELS, PAYMENT_MODE_LABELS } from "./paymentService";
+
+export type ExtraItemKind = Exclude<InvoiceItemKind, 'STUDIO_TIME'>;
+
+export const INVOICE_ITEM_KINDS: Record<InvoiceItemKind, { label: string; unit: string }> = {
+  STUDIO_TIME: { label: 'Studio time', unit: 'hr' },
+  MUSICIAN: { label: 'Session musician', unit: 'musician' },
+  INSTRUMENT_RENTAL: { label: 'Instrument rental', unit: 'day' },
+  MASTERING: { label: 'Mastering', unit: 'track' },
+  TRAVEL: { label: 'Travel', unit: 'trip' },
+  OTHER: { label: 'Other', unit: 'item' }
+};
+
+export const EXTRA_ITEM_KINDS: ExtraItemKind[] = ['MUSICIAN', 'INSTRUMENT_RENTAL', 'MASTERING', 'TRAVEL', 'OTHER'];
+
+// GSTINs start with the two digit code of the state they're registered in
+export const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export const isValidGstin = (gstin: string): boolean => GSTIN_PATTERN.test(gstin.trim().toUpperCase());
+
+const getStateCode = (gstin: string): string => gstin.trim().slice(0, 2);
+
+// Rounds rupees to the nearest paisa; tax and balances are worked out to the paisa
+export const roundToPaise = (amount: number): number => Math.round(amount * 100) / 100;
+
+export const formatAmount = (amount: number): string =>
+  Number.isInteger(amount) ? `${amount}` : amount.toFixed(2);
+
+export const getLineAmount = (quantity: number, unitPrice: number): number => roundToPaise(quantity * unitPrice);
+
+export const describePlannedTime = (booking: Booking): string =>
+  `${booking.startTime}–${getBookingEnd(booking).time} (${formatDuration(booking.durationHours)})`;
+
+export const describeActualTime = (booking: Booking, time: BilledTime): string =>
+  time.actualHours !== undefined
+    ? `${time.actualStart}–${booking.actualEndTime} (${formatDuration(time.actualHours)})`
+    : 'not recorded';
+
+// One line per price band, or a single line at the agreed rate when it was overridden
+export const getStudioTimeLines = (card: RateCard, booking: Booking, quote: InvoiceQuote, amounts: InvoiceAmounts): InvoiceLineItem[] => {
+  const sacCode = card.sacCodes.STUDIO_TIME;
+  if (amounts.overrideReason) {
+    const hours = getBilledHours(quote);
+    return [{
+      id: 'studio-time',
+      kind: 'STUDIO_TIME',
+      description: `${booking.type} Session (Agreed rate)`,
+      quantity: hours,
+      unitPrice: amounts.ratePerHour,
+      sacCode,
+      amount: Math.round(amounts.ratePerHour * hours)
+    }];
+  }
+  return quote.lines.map((line, i) => ({
+    id: `studio-time-${i}`,
+    kind: 'STUDIO_TIME',
+    description: `${booking.type} Session (${PRICE_BAND_LABELS[line.band]})`,
+    quantity: line.hours,
+    unitPrice: line.ratePerHour,
+    sacCode,
+    amount: line.amount
+  }));
+};
+
+export const createExtraLine = (card: RateCard, kind: ExtraItemKind): InvoiceLineItem => ({
+  id: crypto.randomUUID(),
+  kind,
+  description: INVOICE_ITEM_KINDS[kind].label,
+  quantity: 1,
+  unitPrice: card.extraRates[kind],
+  sacCode: card.sacCodes[kind],
+  amount: card.extraRates[kind]
+});
+
+/**
+ * Inter-state supplies are charged IGST, the rest CGST and SGST. Clients without a
+ * GSTIN are taken to be in the studio's state.
+ */
+export const getGstSplit = (studioGstin: string, clientGstin?: string): GstSplit =>
+  clientGstin && isValidGstin(clientGstin) && getStateCode(clientGstin) !== getStateCode(studioGstin) ? 'IGST' : 'CGST_SGST';
+
+export interface InvoiceTotals {
+  subtotal: number;
+  discountAmount: number;
+  taxableAmount: number;
+  tax?: InvoiceTax;
+  totalAmount: number;
+}
+
+// The discount comes off the subtotal before GST, and never takes it below zero
+export const calculateInvoiceTotals = (card: RateCard, lines: InvoiceLineItem[], discount?: InvoiceDiscount, clientGstin?: string): InvoiceTotals => {
+  const subtotal = roundToPaise(lines.reduce((sum, line) => sum + line.amount, 0));
+  const discountAmount = !discount
+    ? 0
+    : roundToPaise(Math.min(subtotal, discount.type === 'PERCENT' ? subtotal * Math.min(discount.value, 100) / 100 : discount.value));
+  const taxableAmount = roundToPaise(subtotal - discountAmount);
+
+  if (!card.studioGstin || !isValidGstin(card.studioGstin) || card.gstRate <= 0) {
+    return { subtotal, discountAmount, taxableAmount, totalAmount: taxableAmount };
+  }
+
+  const split = getGstSplit(card.studioGstin, clientGstin);
+  const half = roundToPaise(taxableAmount * card.gstRate / 200);
+  const tax: InvoiceTax = split === 'IGST'
+    ? { split, rate: card.gstRate, placeOfSupply: getStateCode(clientGstin || ''), cgst: 0, sgst: 0, igst: roundToPaise(taxableAmount * card.gstRate / 100) }
+    : { split, rate: card.gstRate, placeOfSupply: getStateCode(card.studioGstin), cgst: half, sgst: half, igst: 0 };
+  return { subtotal, discountAmount, taxableAmount, tax, totalAmount: roundToPaise(taxableAmount + tax.cgst + tax.sgst + tax.igst) };
+};
+
+export const getTaxLines = (tax: InvoiceTax): { label: string; amount: number }[] =>
+  tax.split === 'IGST'
+    ? [{ label: `IGST @ ${tax.rate}%`, amount: tax.igst }]
+    : [{ label: `CGST @ ${tax.rate / 2}%`, amount: tax.cgst }, { label: `SGST @ ${tax.rate / 2}%`, amount: tax.sgst }];
+
+const PAGE_BOTTOM = 265;
+
+type InvoiceDetails = NonNullable<Booking['invoiceDetails']>;
+
+const drawHeader = (doc: jsPDF, title: string, studioGstin?: string) => {
+  doc.setFillColor(15, 5, 24); // Dark background
+  doc.rect(0, 0, 210, 40, 'F');
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(22);
+  doc.setTextColor(255, 255, 255);
+  doc.text("S CUBE STUDIOZ", 20, 20);
+  doc.setFontSize(10);
+  doc.text("Professional Recording Studio", 20, 28);
+  if (studioGstin) doc.text(`GSTIN: ${studioGstin}`, 190, 28, { align: 'right' });
+
+  doc.setTextColor(0, 0, 0);
+  doc.setFontSize(16);
+  doc.text(title, 20, 60);
+  doc.setFontSize(10);
+};
+
+const drawBillTo = (doc: jsPDF, booking: Pick<Booking, 'clientName' | 'phoneNumber'>, details: InvoiceDetails) => {
+  doc.setFont("helvetica", "bold");
+  doc.text("Bill To:", 20, 90);
+  doc.setFont("helvetica", "normal");
+  const billTo = [
+    booking.clientName,
+    booking.phoneNumber,
+    details.clientGstin && `GSTIN: ${details.clientGstin}`,
+    details.tax && `Place of Supply: State ${details.tax.placeOfSupply}`
+  ].filter((text): text is string => !!text);
+  billTo.forEach((text, i) => doc.text(text, 20, 95 + i * 5));
+};
+
+const drawTotal = (doc: jsPDF, y: number, label: string, amount: number) => {
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(14);
+  doc.text(`${label}:`, 120, y);
+  doc.text(`Rs. ${formatAmount(amount)}`, 185, y, { align: 'right' });
+};
+
+// Footer on every page
+const drawFooters = (doc: jsPDF) => {
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    doc.setTextColor(100, 100, 100);
+    doc.text("Thank you for choosing S CUBE STUDIOZ!", 105, 280, { align: 'center' });
+    if (pageCount > 1) doc.text(`Page ${page} of ${pageCount}`, 190, 280, { align: 'right' });
+  }
+};
+
+/**
+ * Draws the invoice and returns it as a data URI, kept so the same file can be
+ * downloaded again later. Lines that don't fit move onto further pages, each
+ * starting with the table header again, and every page is numbered.
+ */
+export const renderInvoicePdf = (number: string, booking: Booking, details: InvoiceDetails, time: BilledTime, staff: StaffMember[], studioGstin?: string): string => {
+  const doc = new jsPDF();
+  const lines = details.lineItems || [];
+
+  drawHeader(doc, details.tax ? "TAX INVOICE" : "INVOICE", details.tax ? studioGstin : undefined);
+
+  // Invoice Info
+  doc.text(`Invoice No: ${number}`, 20, 70);
+  doc.text(`Invoice Date: ${new Date(details.generatedAt).toLocaleDateString()}`, 20, 75);
+  doc.text(`Booking Ref: #${booking.id.slice(0, 8).toUpperCase()}`, 20, 80);
+  const engineer = getStaffMember(staff, booking.engineerId);
+  if (engineer) doc.text(`Engineer: ${engineer.name}`, 120, 70);
+  const assistant = getStaffMember(staff, booking.assistantId);
+  if (assistant) doc.text(`Assistant: ${assistant.name}`, 120, 75);
+
+  // Session Time
+  doc.setFont("helvetica", "bold");
+  doc.text("Session Time:", 120, 90);
+  doc.setFont("helvetica", "normal");
+  doc.text(`Planned: ${describePlannedTime(booking)}`, 120, 95);
+  doc.text(`Actual: ${describeActualTime(booking, time)}`, 120, 100);
+
+  drawBillTo(doc, booking, details);
+
+  const drawTableHeader = (y: number) => {
+    doc.setFillColor(240, 240, 240);
+    doc.rect(20, y - 5, 170, 10, 'F');
+    doc.setFont("helvetica", "bold");
+    doc.text("Description", 25, y);
+    doc.text("HSN/SAC", 105, y);
+    doc.text("Qty", 130, y);
+    doc.text("Rate", 150, y);
+    doc.text("Amount", 185, y, { align: 'right' });
+    doc.setFont("helvetica", "normal");
+  };
+
+  // Starts a new page when the next block won't fit
+  let y = 125;
+  const ensureSpace = (height: number, withHeader: boolean) => {
+    if (y + height <= PAGE_BOTTOM) return;
+    doc.addPage();
+    y = 20;
+    if (withHeader) {
+      drawTableHeader(y);
+      y += 5;
+    }
+  };
+
+  // Table Content; long descriptions wrap onto further rows
+  drawTableHeader(y);
+  y += 5;
+  lines.forEach(line => {
+    const description = doc.splitTextToSize(line.description, 75) as string[];
+    const height = description.length * 5 + 5;
+    ensureSpace(height, true);
+    y += 7;
+    doc.text(description, 25, y);
+    doc.text(line.sacCode || '-', 105, y);
+    doc.text(line.kind === 'STUDIO_TIME' ? formatDuration(line.quantity) : `${line.quantity} ${INVOICE_ITEM_KINDS[line.kind].unit}`, 130, y);
+    doc.text(formatAmount(line.unitPrice), 150, y);
+    doc.text(formatAmount(line.amount), 185, y, { align: 'right' });
+    y += height - 7;
+  });
+
+  // Totals, kept together on one page
+  const totals: { label: string; amount: number }[] = [];
+  if (details.subtotal !== undefined) totals.push({ label: 'Subtotal', amount: details.subtotal });
+  if (details.discountAmount) {
+    const discount = details.discount?.type === 'PERCENT' ? `Discount (${details.discount.value}%)` : 'Discount';
+    totals.push({ label: discount, amount: -details.discountAmount });
+    totals.push({ label: 'Taxable Value', amount: details.taxableAmount ?? details.totalAmount });
+  }
+  if (details.tax) totals.push(...getTaxLines(details.tax));
+
+  ensureSpace(totals.length * 6 + 25, false);
+  y += 10;
+  doc.setDrawColor(200, 200, 200);
+  doc.line(20, y, 190, y);
+  totals.forEach(({ label, amount }) => {
+    y += 6;
+    doc.text(`${label}:`, 120, y);
+    doc.text(`${amount < 0 ? '- ' : ''}Rs. ${formatAmount(Math.abs(amount))}`, 185, y, { align: 'right' });
+  });
+  drawTotal(doc, y + 10, "Total Amount", details.totalAmount);
+
+  drawFooters(doc);
+  return doc.output('datauristring');
+};
+
+// Reverses the whole invoice, tax included
+export const renderCreditNotePdf = (number: string, issuedAt: number, reason: string, invoice: InvoiceRecord, studioGstin?: string): string => {
+  const doc = new jsPDF();
+  const { details } = invoice;
+
+  drawHeader(doc, "CREDIT NOTE", details.tax ? studioGstin : undefined);
+
+  doc.text(`Credit Note No: ${number}`, 20, 70);
+  doc.text(`Date: ${new Date(issuedAt).toLocaleDateString()}`, 20, 75);
+  doc.text(`Against Invoice: ${invoice.number}`, 120, 70);
+  doc.text(`Invoice Date: ${new Date(invoice.issuedAt).toLocaleDateString()}`, 120, 75);
+
+  drawBillTo(doc, { clientName: invoice.clientName }, details);
+
+  let y = 125;
+  doc.setFont("helvetica", "bold");
+  doc.text("Reason:", 20, y);
+  doc.setFont("helvetica", "normal");
+  const reasonLines = doc.splitTextToSize(reason, 150) as string[];
+  doc.text(reasonLines, 40, y);
+  y += reasonLines.length * 5 + 10;
+
+  doc.setDrawColor(200, 200, 200);
+  doc.line(20, y, 190, y);
+  const credits = [
+    { label: 'Taxable Value', amount: details.taxableAmount ?? details.totalAmount },
+    ...(details.tax ? getTaxLines(details.tax) : [])
+  ];
+  credits.forEach(({ label, amount }) => {
+    y += 6;
+    doc.text(`${label}:`, 120, y);
+    doc.text(`Rs. ${formatAmount(amount)}`, 185, y, { align: 'right' });
+  });
+  drawTotal(doc, y + 10, "Total Credited", details.totalAmount);
+
+  drawFooters(doc);
+  return doc.output('datauristring');
+};
+
+// A receipt for money taken or refunded, with what the booking still owes after it
+export const downloadReceiptPdf = (payment: Payment, booking: Booking, paidToDate: number) => {
+  const doc = new jsPDF();
+  const refund = payment.kind === 'REFUND';
+
+  drawHeader(doc, refund ? "REFUND RECEIPT" : "PAYMENT RECEIPT");
+
+  doc.text(`Receipt No: ${payment.receiptNumber}`, 20, 70);
+  doc.text(`Date: ${new Date(payment.receivedAt).toLocaleDateString()}`, 20, 75);
+  doc.text(`Booking Ref: #${booking.id.slice(0, 8).toUpperCase()}`, 120, 70);
+  doc.text(`Session: ${booking.type}, ${booking.date} ${booking.startTime}`, 120, 75);
+  if (booking.invoiceDetails?.invoiceNumber) doc.text(`Invoice: ${booking.invoiceDetails.invoiceNumber}`, 120, 80);
+
+  doc.setFont("helvetica", "bold");
+  doc.text(refund ? "Refunded To:" : "Received From:", 20, 90);
+  doc.setFont("helvetica", "normal");
+  doc.text(payment.clientName, 20, 95);
+  if (booking.phoneNumber) doc.text(booking.phoneNumber, 20, 100);
+
+  let y = 115;
+  const details = [
+    `${PAYMENT_KIND_LABELS[payment.kind]} by ${PAYMENT_MODE_LABELS[payment.mode]}`,
+    payment.reference && `Reference: ${payment.reference}`,
+    payment.notes
+  ].filter((text): text is string => !!text);
+  details.forEach(text => {
+    doc.text(text, 20, y);
+    y += 5;
+  });
+
+  y += 5;
+  doc.setDrawColor(200, 200, 200);
+  doc.line(20, y, 190, y);
+  if (booking.invoiceDetails) {
+    const due = booking.invoiceDetails.totalAmount - paidToDate;
+    [
+      { label: 'Invoice Total', amount: booking.invoiceDetails.totalAmount },
+      { label: 'Paid to Date', amount: paidToDate },
+      { label: due < 0 ? 'Paid in Excess' : 'Balance Due', amount: Math.abs(due) }
+    ].forEach(({ label, amount }) => {
+      y += 6;
+      doc.text(`${label}:`, 120, y);
+      doc.text(`Rs. ${formatAmount(roundToPaise(amount))}`, 185, y, { align: 'right' });
+    });
+  }
+  drawTotal(doc, y + 10, refund ? "Amount Refunded" : "Amount Received", payment.amount);
+
+  drawFooters(doc);
+  doc.save(`${payment.receiptNumber.replace(/\//g, '-')}.pdf`);
+};
+
+// Saves a stored PDF under its invoice or credit note number
+export const downloadPdf = (dataUri: string, number: string) => {
+  const link = document.createElement('a');
+  link.setAttribute('href', dataUri);
+  link.setAttribute('download', `${number.replace(/\//g, '-')}.pdf`);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
@@ -0,0 +1,126 @@
+import { Booking, Client, RateCard, Room, StaffMember, StudioCalendar } from "../types";
+import { RATE_CARD_KEY, STUDIO_CALENDAR_KEY, StudioData, StudioStore } from "./repository";
+import { DEFAULT_ROOMS } from "./schedulingService";
+import { DEFAULT_STUDIO_CALENDAR } from "./studioCalendarService";
+import { linkBookingsToClients } from "./clientService";
+import { DEFAULT_RATE_CARD } from "./pricingService";
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (data: StudioData) => StudioData;
+}
+
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+// Reads a legacy localStorage key, skipping values that no longer parse
+const readLegacy = <T>(key: string): T | undefined => {
+  const raw = localStorage.getItem(key);
+  if (!raw) return undefined;
+  try {
+    return JSON.parse(raw) as T;
+  } catch (e) {
+    console.error(`Skipping corrupt ${key} in localStorage:`, e);
+    return undefined;
+  }
+};
+
+const asArray = <T>(value: unknown): T[] => (Array.isArray(value) ? value : []);
+
+/**
+ * Ordered data migrations. Each runs once, in order, for every version above the
+ * one stored in the database. Append new entries; never edit shipped ones.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Import data saved in localStorage before IndexedDB',
+    migrate: (data) => {
+      // The old keys stay in place as a fallback copy
+      const bookings = asArray<Booking>(readLegacy('scube_bookings'));
+      const clients = asArray<Client>(readLegacy('scube_clients'));
+      const rooms = asArray<Room>(readLegacy('scube_rooms'));
+      const staff = asArray<StaffMember>(readLegacy('scube_staff'));
+      const calendar = readLegacy<Partial<StudioCalendar>>('scube_calendar');
+
+      return {
+        bookings: data.bookings.length > 0 ? data.bookings : bookings,
+        clients: data.clients.length > 0 ? data.clients : clients,
+        rooms: data.rooms.length > 0 ? data.rooms : (rooms.length > 0 ? rooms : DEFAULT_ROOMS),
+        staff: data.staff.length > 0 ? data.staff : staff,
+        studioCalendar: calendar ? { ...DEFAULT_STUDIO_CALENDAR, ...calendar } : data.studioCalendar,
+        rateCard: data.rateCard
+      };
+    }
+  },
+  {
+    version: 2,
+    description: 'Link free-text booking names to client directory entries',
+    migrate: (data) => ({ ...data, ...linkBookingsToClients(data.bookings, data.clients) })
+  },
+  {
+    version: 3,
+    description: 'Add the default rate card for invoice pricing',
+    // Backups from before the rate card have none
+    migrate: (data) => ({ ...data, rateCard: data.rateCard ? { ...DEFAULT_RATE_CARD, ...data.rateCard } : DEFAULT_RATE_CARD })
+  },
+  {
+    version: 4,
+    description: 'Add overtime billing rules to the rate card',
+    migrate: (data) => ({ ...data, rateCard: { ...DEFAULT_RATE_CARD, ...data.rateCard } })
+  },
+  {
+    version: 5,
+    description: 'Add GST and invoice extras to the rate card',
+    migrate: (data) => ({ ...data, rateCard: { ...DEFAULT_RATE_CARD, ...data.rateCard } })
+  }
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Also used to bring older backup files up to date before restoring them
+export const migrateData = (data: StudioData, fromVersion: number): StudioData =>
+  MIGRATIONS
+    .filter(m => m.version > fromVersion)
+    .reduce((current, m) => m.migrate(current), data);
+
+/**
+ * Loads everything from the store, brings it up to the current schema version and
+ * saves the migrated data back before handing it to the app.
+ */
+export const loadStudioData = async (store: StudioStore): Promise<StudioData> => {
+  const [bookings, clients, rooms, staff, studioCalendar, rateCard, storedVersion] = await Promise.all([
+    store.bookings.getAll(),
+    store.clients.getAll(),
+    store.rooms.getAll(),
+    store.staff.getAll(),
+    store.meta.get<StudioCalendar>(STUDIO_CALENDAR_KEY),
+    store.meta.get<RateCard>(RATE_CARD_KEY),
+    store.meta.get<number>(SCHEMA_VERSION_KEY)
+  ]);
+
+  const version = storedVersion || 0;
+  if (version > SCHEMA_VERSION) {
+    throw new Error(`Data was saved by a newer version of the app (schema ${version}). Please update.`);
+  }
+
+  const loaded: StudioData = {
+    bookings, clients, rooms, staff,
+    studioCalendar: studioCalendar || DEFAULT_STUDIO_CALENDAR,
+    rateCard: rateCard || DEFAULT_RATE_CARD
+  };
+  if (version === SCHEMA_VERSION) return loaded;
+
+  const data = migrateData(loaded, version);
+
+  await Promise.all([
+    store.bookings.putMany(data.bookings),
+    store.clients.putMany(data.clients),
+    store.rooms.putMany(data.rooms),
+    store.staff.putMany(data.staff),
+    store.meta.set(STUDIO_CALENDAR_KEY, data.studioCalendar),
+    store.meta.set(RATE_CARD_KEY, data.rateCard)
+  ]);
+  await store.meta.set(SCHEMA_VERSION_KEY, SCHEMA_VERSION);
+  return data;
+};
@@ -0,0 +1,96 @@
+import { Booking, Payment, PaymentKind, PaymentMode, UserAccount } from "../types";
+import { IssueResult, NumberAllocator, NumberedDocument } from "./invoiceRegistryService";
+import { roundToPaise } from "./invoiceService";
+
+const RECEIPT_PREFIX = 'SCS/RC';
+
+export const PAYMENT_KIND_LABELS: Record<PaymentKind, string> = {
+  ADVANCE: 'Advance',
+  PAYMENT: 'Payment',
+  REFUND: 'Refund'
+};
+
+export const PAYMENT_MODE_LABELS: Record<PaymentMode, string> = {
+  CASH: 'Cash',
+  UPI: 'UPI',
+  BANK_TRANSFER: 'Bank transfer'
+};
+
+// Records a payment the way InvoiceIssuer issues an invoice: checked first, then numbered
+export type PaymentRecorder = (bookingId: string, build: (numbering: NumberedDocument) => Payment) => Promise<IssueResult<Payment>>;
+
+export type PaymentInput = Pick<Payment, 'kind' | 'amount' | 'mode' | 'reference' | 'notes' | 'receivedAt'>;
+
+// Receipts are numbered in the order they're recorded, whatever date the money came in
+export const allocateReceiptNumber = (allocate: NumberAllocator, payments: Payment[]): Promise<NumberedDocument> =>
+  allocate(RECEIPT_PREFIX, Date.now(), payments);
+
+export const createPayment = (
+  { number, financialYear, sequence }: NumberedDocument,
+  booking: Booking,
+  input: PaymentInput,
+  user: UserAccount | null
+): Payment => ({
+  id: crypto.randomUUID(),
+  ...input,
+  reference: input.reference?.trim() || undefined,
+  notes: input.notes?.trim() || undefined,
+  bookingId: booking.id,
+  invoiceId: booking.invoiceDetails?.invoiceId,
+  clientId: booking.clientId,
+  clientName: booking.clientName,
+  recordedBy: user?.id,
+  receiptNumber: number,
+  financialYear,
+  sequence
+});
+
+export const getBookingPayments = (payments: Payment[], bookingId: string): Payment[] =>
+  payments
+    .filter(p => p.bookingId === bookingId)
+    .sort((a, b) => a.receivedAt - b.receivedAt || a.sequence - b.sequence);
+
+// What was paid, less what was refunded
+export const getAmountPaid = (payments: Payment[]): number =>
+  roundToPaise(payments.reduce((sum, p) => sum + (p.kind === 'REFUND' ? -p.amount : p.amount), 0));
+
+export interface Balance {
+  billed: number; // The current invoice; nothing until one is issued
+  paid: number;
+  outstanding: number; // Negative when the client has paid ahead or is owed a refund
+}
+
+export const getBookingBalance = (booking: Booking, payments: Payment[]): Balance => {
+  const billed = booking.invoiceDetails?.totalAmount || 0;
+  const paid = getAmountPaid(getBookingPayments(payments, booking.id));
+  return { billed, paid, outstanding: roundToPaise(billed - paid) };
+};
+
+// Summed over all of the client's bookings, so an advance on one offsets a balance on another
+export const getClientBalance = (clientId: string, bookings: Booking[], payments: Payment[]): Balance =>
+  bookings
+    .filter(b => b.clientId === clientId)
+    .map(b => getBookingBalance(b, payments))
+    .reduce((total, b) => ({
+      billed: roundToPaise(total.billed + b.billed),
+      paid: roundToPaise(total.paid + b.paid),
+      outstanding: roundToPaise(total.outstanding + b.outstanding)
+    }), { billed: 0, paid: 0, outstanding: 0 });
+
+export type PaymentStatus = 'PAID' | 'PART_PAID' | 'UNPAID' | 'ADVANCE' | 'OVERPAID';
+
+export const PAYMENT_STATUSES: Record<PaymentStatus, { label: string; badgeClass: string }> = {
+  PAID: { label: 'Paid', badgeClass: 'bg-green-500/20 text-green-300 border-green-500/30' },
+  PART_PAID: { label: 'Part paid', badgeClass: 'bg-amber-500/20 text-amber-300 border-amber-500/30' },
+  UNPAID: { label: 'Unpaid', badgeClass: 'bg-red-500/20 text-red-300 border-red-500/30' },
+  ADVANCE: { label: 'Advance paid', badgeClass: 'bg-blue-500/20 text-blue-300 border-blue-500/30' },
+  OVERPAID: { label: 'Overpaid', badgeClass: 'bg-purple-500/20 text-purple-300 border-purple-500/30' }
+};
+
+// Nothing to show for a booking with no invoice and no money taken
+export const getPaymentStatus = (balance: Balance): PaymentStatus | null => {
+  if (balance.billed === 0) return balance.paid > 0 ? 'ADVANCE' : null;
+  if (balance.outstanding < 0) return 'OVERPAID';
+  if (balance.outstanding === 0) return 'PAID';
+  return balance.paid > 0 ? 'PART_PAID' : 'UNPAID';
+};
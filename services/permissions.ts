@@ -0,0 +1,92 @@
+import { Booking, BookingStatus, UserAccount, UserRole, ViewMode } from "../types";
+
+export type Permission =
+  | 'bookings.viewAll' // Every booking, not only the user's own sessions
+  | 'bookings.create'
+  | 'bookings.edit' // Change, reschedule and cancel
+  | 'bookings.override' // Book outside studio hours, on holidays and in blackouts
+  | 'bookings.complete' // Check in and complete sessions
+  | 'invoices.issue' // Set rates and issue invoices
+  | 'payments.record' // Take payments and see what clients owe
+  | 'activity.view' // Booking history, and undoing changes the user may make
+  | 'revenue.view'
+  | 'reports.view'
+  | 'clients.view'
+  | 'clients.manage' // Add, edit and merge clients
+  | 'data.import'
+  | 'data.export' // Bulk exports, which include client phone numbers
+  | 'settings.manage' // Rooms, staff, studio hours, sync and backups
+  | 'users.manage';
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  [UserRole.OWNER]: 'Owner',
+  [UserRole.FRONT_DESK]: 'Front Desk',
+  [UserRole.ENGINEER]: 'Engineer'
+};
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  [UserRole.OWNER]: [
+    'bookings.viewAll', 'bookings.create', 'bookings.edit', 'bookings.override', 'bookings.complete', 'invoices.issue', 'payments.record',
+    'activity.view', 'revenue.view', 'reports.view', 'clients.view', 'clients.manage', 'data.import', 'data.export', 'settings.manage', 'users.manage'
+  ],
+  [UserRole.FRONT_DESK]: [
+    'bookings.viewAll', 'bookings.create', 'bookings.edit', 'bookings.complete', 'payments.record', 'activity.view',
+    'reports.view', 'clients.view', 'clients.manage', 'data.import'
+  ],
+  [UserRole.ENGINEER]: ['bookings.complete']
+};
+
+export const can = (user: UserAccount | null | undefined, permission: Permission): boolean =>
+  !!user && user.active && ROLE_PERMISSIONS[user.role].includes(permission);
+
+// Staff Schedule is open to everyone; engineers only ever see their own there
+const VIEW_PERMISSIONS: Record<ViewMode, Permission | null> = {
+  [ViewMode.DASHBOARD]: 'bookings.viewAll',
+  [ViewMode.CALENDAR]: 'bookings.viewAll',
+  [ViewMode.REPORTS]: 'reports.view',
+  [ViewMode.CLIENTS]: 'clients.view',
+  [ViewMode.STAFF]: null,
+  [ViewMode.SETTINGS]: 'settings.manage'
+};
+
+export const canOpenView = (user: UserAccount | null | undefined, view: ViewMode): boolean => {
+  const permission = VIEW_PERMISSIONS[view];
+  return !!user && user.active && (permission === null || can(user, permission));
+};
+
+export const getHomeView = (user: UserAccount | null | undefined): ViewMode =>
+  canOpenView(user, ViewMode.DASHBOARD) ? ViewMode.DASHBOARD : ViewMode.STAFF;
+
+const isAssigned = (user: UserAccount, booking: Booking): boolean =>
+  !!user.staffId && (booking.engineerId === user.staffId || booking.assistantId === user.staffId);
+
+export const getVisibleBookings = (user: UserAccount | null | undefined, bookings: Booking[]): Booking[] => {
+  if (!user) return [];
+  return can(user, 'bookings.viewAll') ? bookings : bookings.filter(b => isAssigned(user, b));
+};
+
+export const canCompleteBooking = (user: UserAccount | null | undefined, booking: Booking): boolean =>
+  can(user, 'bookings.complete') && (can(user, 'bookings.viewAll') || isAssigned(user!, booking));
+
+// Checking in and completing belong with completion, so engineers can do both for their sessions
+export const canChangeStatus = (user: UserAccount | null | undefined, booking: Booking, status: BookingStatus): boolean =>
+  status === BookingStatus.IN_PROGRESS || status === BookingStatus.COMPLETED
+    ? canCompleteBooking(user, booking)
+    : can(user, 'bookings.edit');
+
+// A booking that gains an override was saved past the studio calendar rules
+export const canSaveOverrides = (user: UserAccount | null | undefined, before: Booking | undefined, after: Booking): boolean =>
+  (after.overrides?.length || 0) <= (before?.overrides?.length || 0) || can(user, 'bookings.override');
+
+/**
+ * Checks a saved change to an existing booking. Issuing an invoice is a separate
+ * permission from editing the session itself.
+ */
+export const canSaveBookingChange = (user: UserAccount | null | undefined, before: Booking, after: Booking): boolean => {
+  const invoiceChanged = JSON.stringify(before.invoiceDetails) !== JSON.stringify(after.invoiceDetails);
+  const { invoiceDetails: _a, ...restBefore } = before;
+  const { invoiceDetails: _b, ...restAfter } = after;
+  const sessionChanged = JSON.stringify(restBefore) !== JSON.stringify(restAfter);
+  return (!invoiceChanged || can(user, 'invoices.issue')) && (!sessionChanged || can(user, 'bookings.edit'))
+    && canSaveOverrides(user, before, after);
+};
@@ -0,0 +1,201 @@
+import { Booking, ClientRate, RateCard } from "../types";
+import { DURATION_STEP_HOURS, SESSION_TYPES, fromAbsoluteMinutes, toAbsoluteMinutes, toMinutes } from "./schedulingService";
+
+export const DEFAULT_RATE_CARD: RateCard = {
+  defaultRate: 1000,
+  sessionRates: Object.fromEntries(SESSION_TYPES.map(type => [type, 1000])),
+  peakStart: '18:00',
+  peakEnd: '23:00',
+  peakMultiplier: 1.25,
+  offPeakMultiplier: 1,
+  weekendMultiplier: 1.25,
+  clientRates: [],
+  overtimeRate: 1500,
+  gracePeriodMinutes: 10,
+  billingIncrementMinutes: 30,
+  gstRate: 18,
+  sacCodes: {
+    STUDIO_TIME: '999611', // Sound recording services
+    MUSICIAN: '999631', // Performing artists
+    INSTRUMENT_RENTAL: '997329', // Rental of other goods
+    MASTERING: '999613', // Audio editing services
+    TRAVEL: '9964', // Passenger transport
+    OTHER: ''
+  },
+  extraRates: {
+    MUSICIAN: 2000,
+    INSTRUMENT_RENTAL: 500,
+    MASTERING: 1500,
+    TRAVEL: 0,
+    OTHER: 0
+  }
+};
+
+export type PriceBand = 'PEAK' | 'OFF_PEAK' | 'WEEKEND' | 'NEGOTIATED' | 'OVERTIME';
+
+export const PRICE_BAND_LABELS: Record<PriceBand, string> = {
+  PEAK: 'Peak',
+  OFF_PEAK: 'Off-peak',
+  WEEKEND: 'Weekend',
+  NEGOTIATED: 'Negotiated rate',
+  OVERTIME: 'Overtime'
+};
+
+export interface PriceLine {
+  band: PriceBand;
+  hours: number;
+  ratePerHour: number;
+  amount: number;
+}
+
+export interface PriceQuote {
+  lines: PriceLine[];
+  totalAmount: number;
+  ratePerHour: number; // Average over all hours
+  clientRate?: ClientRate;
+}
+
+export const getSessionRate = (card: RateCard, type: string): number =>
+  card.sessionRates[type] ?? card.defaultRate;
+
+// A rate for the client and session type wins over one for all of the client's sessions
+export const findClientRate = (card: RateCard, clientId: string | undefined, type: string): ClientRate | undefined => {
+  if (!clientId) return undefined;
+  const rates = card.clientRates.filter(r => r.clientId === clientId);
+  return rates.find(r => r.sessionType === type) || rates.find(r => !r.sessionType);
+};
+
+const isWeekend = (date: string): boolean => {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return weekday === 0 || weekday === 6;
+};
+
+const isPeak = (card: RateCard, time: string): boolean => {
+  const minute = toMinutes(time);
+  const start = toMinutes(card.peakStart);
+  const end = toMinutes(card.peakEnd);
+  return end > start ? minute >= start && minute < end : minute >= start || minute < end;
+};
+
+type CardBand = Exclude<PriceBand, 'NEGOTIATED' | 'OVERTIME'>;
+
+const getBand = (card: RateCard, date: string, time: string): CardBand => {
+  if (isWeekend(date)) return 'WEEKEND';
+  return isPeak(card, time) ? 'PEAK' : 'OFF_PEAK';
+};
+
+const BAND_MULTIPLIERS: Record<CardBand, (card: RateCard) => number> = {
+  PEAK: card => card.peakMultiplier,
+  OFF_PEAK: card => card.offPeakMultiplier,
+  WEEKEND: card => card.weekendMultiplier
+};
+
+/**
+ * Prices a session from the rate card. Each 15 minute step is charged by the band it
+ * starts in, so a session running into the evening is part off-peak, part peak.
+ * Negotiated client rates are charged flat. Defaults to the booked length.
+ */
+export const priceSession = (card: RateCard, booking: Pick<Booking, 'clientId' | 'type' | 'date' | 'startTime' | 'durationHours'>, hours = booking.durationHours): PriceQuote => {
+  const clientRate = findClientRate(card, booking.clientId, booking.type);
+  if (clientRate) {
+    const amount = Math.round(clientRate.ratePerHour * hours);
+    return {
+      lines: [{ band: 'NEGOTIATED', hours, ratePerHour: clientRate.ratePerHour, amount }],
+      totalAmount: amount,
+      ratePerHour: clientRate.ratePerHour,
+      clientRate
+    };
+  }
+
+  const baseRate = getSessionRate(card, booking.type);
+  const start = toAbsoluteMinutes(booking.date, booking.startTime);
+  const stepMinutes = DURATION_STEP_HOURS * 60;
+  const lines: PriceLine[] = [];
+  for (let offset = 0; offset < hours * 60; offset += stepMinutes) {
+    const { date, time } = fromAbsoluteMinutes(start + offset);
+    const band = getBand(card, date, time);
+    const stepHours = Math.min(stepMinutes, hours * 60 - offset) / 60;
+    const last = lines[lines.length - 1];
+    if (last && last.band === band) last.hours += stepHours;
+    else lines.push({ band, hours: stepHours, ratePerHour: Math.round(baseRate * BAND_MULTIPLIERS[band](card)), amount: 0 });
+  }
+  lines.forEach(line => { line.amount = Math.round(line.ratePerHour * line.hours); });
+
+  const totalAmount = lines.reduce((sum, line) => sum + line.amount, 0);
+  return { lines, totalAmount, ratePerHour: hours > 0 ? Math.round(totalAmount / hours) : baseRate };
+};
+
+export interface BilledTime {
+  plannedHours: number;
+  actualStart: string; // HH:mm, the booked start unless checked in at another time
+  actualHours?: number; // Once the end time is recorded
+  overtimeHours: number; // Charged past the booked length, after grace and rounding
+}
+
+/**
+ * Works out the time to bill from the actual start and end. The booked time is
+ * always charged; running over is charged once it's past the grace period, rounded
+ * up to the billing increment from the booked length.
+ */
+export const getBilledTime = (card: RateCard, booking: Booking): BilledTime => {
+  const plannedHours = booking.durationHours;
+  const actualStart = booking.actualStartTime || booking.startTime;
+  if (!booking.actualEndTime) return { plannedHours, actualStart, overtimeHours: 0 };
+
+  const actualMinutes = toAbsoluteMinutes(booking.actualEndDate || booking.date, booking.actualEndTime) - toAbsoluteMinutes(booking.date, actualStart);
+  if (actualMinutes <= 0) return { plannedHours, actualStart, overtimeHours: 0 };
+
+  const overMinutes = actualMinutes - plannedHours * 60;
+  const increment = Math.max(1, card.billingIncrementMinutes);
+  const chargedMinutes = overMinutes > card.gracePeriodMinutes ? Math.ceil(overMinutes / increment) * increment : 0;
+  return { plannedHours, actualStart, actualHours: actualMinutes / 60, overtimeHours: chargedMinutes / 60 };
+};
+
+export interface InvoiceQuote extends PriceQuote {
+  time: BilledTime;
+}
+
+// The booked session from the rate card, plus overtime at the overtime rate
+export const priceBooking = (card: RateCard, booking: Booking): InvoiceQuote => {
+  const time = getBilledTime(card, booking);
+  const quote = priceSession(card, booking, time.plannedHours);
+  if (time.overtimeHours === 0) return { ...quote, time };
+
+  const overtime: PriceLine = {
+    band: 'OVERTIME',
+    hours: time.overtimeHours,
+    ratePerHour: card.overtimeRate,
+    amount: Math.round(card.overtimeRate * time.overtimeHours)
+  };
+  const totalAmount = quote.totalAmount + overtime.amount;
+  return {
+    ...quote,
+    lines: [...quote.lines, overtime],
+    totalAmount,
+    ratePerHour: Math.round(totalAmount / (time.plannedHours + time.overtimeHours)),
+    time
+  };
+};
+
+export const getBilledHours = (quote: InvoiceQuote): number => quote.time.plannedHours + quote.time.overtimeHours;
+
+export interface RateOverride {
+  ratePerHour: number;
+  reason: string;
+}
+
+export type InvoiceAmounts = Omit<NonNullable<Booking['invoiceDetails']>, 'generatedAt'>;
+
+// What goes on the invoice: the quote, or the overriding rate with the quote kept alongside
+export const getInvoiceAmounts = (quote: InvoiceQuote, override?: RateOverride | null): InvoiceAmounts => {
+  const billedHours = getBilledHours(quote);
+  return override
+    ? {
+        ratePerHour: override.ratePerHour,
+        totalAmount: Math.round(override.ratePerHour * billedHours),
+        billedHours,
+        quotedAmount: quote.totalAmount,
+        overrideReason: override.reason.trim()
+      }
+    : { ratePerHour: quote.ratePerHour, totalAmount: quote.totalAmount, billedHours };
+};
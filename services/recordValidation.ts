@@ -0,0 +1,80 @@
+import { BookingStatus, StaffRole, SyncCollection } from "../types";
+
+// Field checks for stored records, shared by backup restore and the sync server
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^\d{2}:\d{2}$/;
+
+type FieldCheck = [field: string, check: (value: unknown) => boolean, expected: string];
+
+export const isString = (v: unknown): v is string => typeof v === 'string';
+const isNonEmptyString = (v: unknown) => typeof v === 'string' && v.trim().length > 0;
+export const isNumber = (v: unknown): v is number => typeof v === 'number' && !Number.isNaN(v);
+const isDate = (v: unknown) => typeof v === 'string' && DATE_PATTERN.test(v);
+const isTime = (v: unknown) => typeof v === 'string' && TIME_PATTERN.test(v);
+const optional = (check: (v: unknown) => boolean) => (v: unknown) => v === undefined || v === null || check(v);
+export const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const RECORD_CHECKS: Record<SyncCollection, FieldCheck[]> = {
+  bookings: [
+    ['id', isNonEmptyString, 'a non-empty string'],
+    ['clientName', isString, 'a string'],
+    ['date', isDate, 'a YYYY-MM-DD date'],
+    ['startTime', isTime, 'an HH:mm time'],
+    ['durationHours', v => isNumber(v) && v > 0, 'a positive number'],
+    ['roomId', optional(isString), 'a room id'],
+    ['engineerId', optional(isString), 'a staff id'],
+    ['assistantId', optional(isString), 'a staff id'],
+    ['type', isString, 'a string'],
+    ['status', v => Object.values(BookingStatus).includes(v as BookingStatus), 'a booking status'],
+    ['createdAt', isNumber, 'a timestamp'],
+    ['actualStartTime', optional(isTime), 'an HH:mm time'],
+    ['actualEndTime', optional(isTime), 'an HH:mm time'],
+    ['actualEndDate', optional(isDate), 'a YYYY-MM-DD date'],
+  ],
+  clients: [
+    ['id', isNonEmptyString, 'a non-empty string'],
+    ['name', isString, 'a string'],
+    ['phoneNumbers', v => Array.isArray(v) && v.every(isString), 'a list of strings'],
+  ],
+  rooms: [
+    ['id', isNonEmptyString, 'a non-empty string'],
+    ['name', isString, 'a string'],
+    ['color', isString, 'a colour'],
+  ],
+  staff: [
+    ['id', isNonEmptyString, 'a non-empty string'],
+    ['name', isString, 'a string'],
+    ['role', v => Object.values(StaffRole).includes(v as StaffRole), 'a staff role'],
+    ['active', v => typeof v === 'boolean', 'true or false'],
+  ],
+  invoices: [
+    ['id', isNonEmptyString, 'a non-empty string'],
+    ['type', v => v === 'INVOICE' || v === 'CREDIT_NOTE', 'INVOICE or CREDIT_NOTE'],
+    ['number', isNonEmptyString, 'a non-empty string'],
+    ['financialYear', isNonEmptyString, 'a financial year'],
+    ['sequence', isNumber, 'a number'],
+    ['bookingId', isString, 'a string'],
+    ['issuedAt', isNumber, 'a timestamp'],
+    ['details', v => isObject(v) && isNumber(v.totalAmount), 'invoice details'],
+    ['pdf', isString, 'the issued PDF'],
+  ],
+  payments: [
+    ['id', isNonEmptyString, 'a non-empty string'],
+    ['kind', v => v === 'ADVANCE' || v === 'PAYMENT' || v === 'REFUND', 'ADVANCE, PAYMENT or REFUND'],
+    ['bookingId', isString, 'a string'],
+    ['clientName', isString, 'a string'],
+    ['amount', v => isNumber(v) && v > 0, 'a positive number'],
+    ['mode', v => v === 'CASH' || v === 'UPI' || v === 'BANK_TRANSFER', 'CASH, UPI or BANK_TRANSFER'],
+    ['receivedAt', isNumber, 'a timestamp'],
+    ['receiptNumber', isNonEmptyString, 'a non-empty string'],
+    ['financialYear', isNonEmptyString, 'a financial year'],
+    ['sequence', isNumber, 'a number'],
+  ],
+};
+
+// What is wrong with a record, one entry per bad field, such as "date should be a YYYY-MM-DD date"
+export const findRecordErrors = (collection: SyncCollection, record: Record<string, unknown>): string[] =>
+  RECORD_CHECKS[collection]
+    .filter(([field, check]) => !check(record[field]))
+    .map(([field, , expected]) => `${field} should be ${expected}`);
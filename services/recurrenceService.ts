@@ -0,0 +1,82 @@
+import { Booking, RecurrenceFrequency, RecurrenceRule, SeriesScope, StudioCalendar } from "../types";
+import { addDays, findOverlap, findStaffConflict } from "./schedulingService";
+import { findRuleViolations } from "./studioCalendarService";
+import { isOpen } from "./bookingStatusService";
+
+export const MAX_OCCURRENCES = 104;
+
+const addMonths = (date: string, months: number): string | null => {
+  const [y, m, d] = date.split('-').map(Number);
+  const target = new Date(Date.UTC(y, m - 1 + months, d));
+  // Skip months that don't have this day (e.g. the 31st)
+  if (target.getUTCDate() !== d) return null;
+  return target.toISOString().split('T')[0];
+};
+
+/**
+ * Expands a recurrence rule into occurrence dates, starting with the first booking's date.
+ */
+export const generateOccurrenceDates = (startDate: string, rule: RecurrenceRule): string[] => {
+  const dates: string[] = [];
+  const limit = Math.min(rule.count || MAX_OCCURRENCES, MAX_OCCURRENCES);
+
+  for (let step = 0; dates.length < limit && step < MAX_OCCURRENCES * 2; step++) {
+    let date: string | null;
+    switch (rule.frequency) {
+      case RecurrenceFrequency.DAILY: date = addDays(startDate, step); break;
+      case RecurrenceFrequency.WEEKLY: date = addDays(startDate, step * 7); break;
+      case RecurrenceFrequency.MONTHLY: date = addMonths(startDate, step); break;
+      default: date = null;
+    }
+    if (!date) continue;
+    if (rule.until && date > rule.until) break;
+    dates.push(date);
+  }
+  return dates;
+};
+
+export interface PlannedOccurrence {
+  booking: Booking;
+  conflict?: Booking; // Room already taken
+  staffConflict?: Booking; // Engineer or assistant already on another session
+  violations?: string[]; // Studio closed, holiday or blackout
+}
+
+export const isClash = (occurrence: PlannedOccurrence): boolean =>
+  !!(occurrence.conflict || occurrence.staffConflict || occurrence.violations);
+
+/**
+ * Builds every occurrence of a new series and runs each through the overlap checks,
+ * including against earlier occurrences of the same series.
+ */
+export const planSeries = (template: Booking, rule: RecurrenceRule, existingBookings: Booking[], calendar?: StudioCalendar): PlannedOccurrence[] => {
+  const seriesId = crypto.randomUUID();
+  const planned: PlannedOccurrence[] = [];
+
+  generateOccurrenceDates(template.date, rule).forEach(date => {
+    const booking: Booking = { ...template, id: crypto.randomUUID(), date, seriesId, recurrence: rule };
+    const others = [...existingBookings, ...planned.map(p => p.booking)];
+    const violations = calendar ? findRuleViolations(booking, calendar) : [];
+    planned.push({
+      booking,
+      conflict: findOverlap(booking, others),
+      staffConflict: findStaffConflict(booking, others)?.booking,
+      violations: violations.length > 0 ? violations : undefined
+    });
+  });
+  return planned;
+};
+
+/**
+ * Returns the occurrences an action applies to. Only sessions still to happen are
+ * changed through a series action; everything else is history.
+ */
+export const getSeriesTargets = (booking: Booking, scope: SeriesScope, bookings: Booking[]): Booking[] => {
+  if (!booking.seriesId || scope === SeriesScope.THIS) return [booking];
+
+  return bookings.filter(b =>
+    b.seriesId === booking.seriesId &&
+    isOpen(b.status) &&
+    (scope === SeriesScope.ALL || b.date >= booking.date)
+  );
+};
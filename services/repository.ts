@@ -0,0 +1,66 @@
+import { ActivityEntry, Booking, Client, InvoiceRecord, Payment, RateCard, Room, StaffMember, StudioCalendar } from "../types";
+
+export interface Repository<T extends { id: string }> {
+  getAll(): Promise<T[]>;
+  putMany(items: T[]): Promise<void>;
+  deleteMany(ids: string[]): Promise<void>;
+}
+
+// Single values such as the schema version and studio settings
+export interface KeyValueStore {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T): Promise<void>;
+}
+
+export interface StudioStore {
+  bookings: Repository<Booking>;
+  clients: Repository<Client>;
+  rooms: Repository<Room>;
+  staff: Repository<StaffMember>;
+  activity: Repository<ActivityEntry>; // Append-only; loaded by the app, not part of StudioData
+  invoices: Repository<InvoiceRecord>; // Append-only, like activity
+  payments: Repository<Payment>; // Append-only ledger
+  meta: KeyValueStore;
+}
+
+// Everything the app loads on start-up
+export interface StudioData {
+  bookings: Booking[];
+  clients: Client[];
+  rooms: Room[];
+  staff: StaffMember[];
+  studioCalendar: StudioCalendar;
+  rateCard: RateCard;
+}
+
+export const STUDIO_CALENDAR_KEY = 'studioCalendar';
+export const RATE_CARD_KEY = 'rateCard';
+
+/**
+ * Sets updatedAt on every record that is new or replaced in the next version of a
+ * collection. Calendar exports use it to order revisions of the same booking.
+ */
+export const stampChanges = <T extends { id: string; updatedAt?: number }>(previous: T[], next: T[]): T[] => {
+  const before = new Map(previous.map(item => [item.id, item]));
+  const now = Date.now();
+  return next.map(item => (before.get(item.id) === item ? item : { ...item, updatedAt: now }));
+};
+
+/**
+ * Finds what changed between two versions of a collection. State updates replace
+ * changed items, so a new object reference means that item changed.
+ */
+export const diffCollection = <T extends { id: string }>(previous: T[], next: T[]): { changed: T[]; removed: string[] } => {
+  const before = new Map(previous.map(item => [item.id, item]));
+  const changed = next.filter(item => before.get(item.id) !== item);
+  const nextIds = new Set(next.map(item => item.id));
+  const removed = previous.filter(item => !nextIds.has(item.id)).map(item => item.id);
+  return { changed, removed };
+};
+
+// Writes only what changed between two versions of a collection
+export const syncCollection = async <T extends { id: string }>(repo: Repository<T>, previous: T[], next: T[]): Promise<void> => {
+  const { changed, removed } = diffCollection(previous, next);
+  if (changed.length > 0) await repo.putMany(changed);
+  if (removed.length > 0) await repo.deleteMany(removed);
+};
@@ -0,0 +1,188 @@
+import { Booking, Room, StaffMember } from "../types";
+import { holdsSlot } from "./bookingStatusService";
+
+export const DEFAULT_ROOM_ID = 'main';
+
+export const DEFAULT_ROOMS: Room[] = [
+  { id: DEFAULT_ROOM_ID, name: 'Main Tracking Room', color: '#8b5cf6' },
+  { id: 'booth', name: 'Vocal Booth', color: '#ec4899' },
+  { id: 'edit', name: 'Edit Suite', color: '#06b6d4' },
+];
+
+export const SESSION_TYPES = [
+  'Vocal Recording',
+  'Music Production',
+  'Mixing & Mastering',
+  'Dubbing',
+  'Jamming',
+  'Podcast',
+];
+
+// Bookings created before rooms existed are treated as main room sessions
+export const getBookingRoomId = (booking: Partial<Booking>): string =>
+  booking.roomId || DEFAULT_ROOM_ID;
+
+export const getRoom = (rooms: Room[], roomId?: string): Room | undefined =>
+  rooms.find(r => r.id === (roomId || DEFAULT_ROOM_ID));
+
+export const getStaffMember = (staff: StaffMember[], staffId?: string): StaffMember | undefined =>
+  staffId ? staff.find(s => s.id === staffId) : undefined;
+
+// Date strings are handled in UTC so adding days never trips over DST or timezones
+export const addDays = (date: string, days: number): string => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+};
+
+export const toMinutes = (time: string): number => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + (m || 0);
+};
+
+export const minutesToTime = (minutes: number): string => {
+  const m = ((Math.round(minutes) % 1440) + 1440) % 1440;
+  return `${Math.floor(m / 60).toString().padStart(2, '0')}:${(m % 60).toString().padStart(2, '0')}`;
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const dayNumber = (date: string): number =>
+  Math.round(new Date(`${date}T00:00:00Z`).getTime() / (MINUTES_PER_DAY * 60000));
+
+// Absolute minutes so sessions that cross midnight compare correctly with the next day
+export const toAbsoluteMinutes = (date: string, time: string): number =>
+  dayNumber(date) * MINUTES_PER_DAY + toMinutes(time);
+
+export const fromAbsoluteMinutes = (minutes: number): { date: string; time: string } => {
+  const day = Math.floor(minutes / MINUTES_PER_DAY);
+  return {
+    date: new Date(day * MINUTES_PER_DAY * 60000).toISOString().split('T')[0],
+    time: minutesToTime(minutes - day * MINUTES_PER_DAY)
+  };
+};
+
+export const getBookingInterval = (booking: Pick<Booking, 'date' | 'startTime' | 'durationHours'>): { start: number; end: number } => {
+  const start = toAbsoluteMinutes(booking.date, booking.startTime);
+  return { start, end: start + Math.round(Number(booking.durationHours) * 60) };
+};
+
+export const getBookingEnd = (booking: Pick<Booking, 'date' | 'startTime' | 'durationHours'>): { date: string; time: string } =>
+  fromAbsoluteMinutes(getBookingInterval(booking).end);
+
+/**
+ * Works out the actual end date for a completion time. An end time earlier than
+ * the start time means the session ran past midnight.
+ */
+export const resolveActualEndDate = (booking: Pick<Booking, 'date' | 'startTime'>, endTime: string): string =>
+  toMinutes(endTime) <= toMinutes(booking.startTime) ? addDays(booking.date, 1) : booking.date;
+
+// Durations are booked in 15 minute steps
+export const DURATION_STEP_HOURS = 0.25;
+
+export const isValidDuration = (hours: number): boolean =>
+  hours > 0 && hours <= 24 && Number.isInteger(Math.round(hours * 60) / 15);
+
+// datetime-local inputs work in local time, without seconds
+export const toDateTimeInput = (time: number): string => {
+  const d = new Date(time);
+  return new Date(time - d.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+export const formatDuration = (hours: number): string => {
+  const totalMinutes = Math.round(hours * 60);
+  const h = Math.floor(totalMinutes / 60);
+  const m = totalMinutes % 60;
+  if (h === 0) return `${m}m`;
+  return m === 0 ? `${h}h` : `${h}h ${m}m`;
+};
+
+/**
+ * Bookings that occupy any part of the given day, including overnight sessions
+ * that started the evening before.
+ */
+export const getBookingsOnDate = (bookings: Booking[], date: string): Booking[] => {
+  const dayStart = toAbsoluteMinutes(date, '00:00');
+  const dayEnd = dayStart + MINUTES_PER_DAY;
+  return bookings.filter(b => {
+    const { start, end } = getBookingInterval(b);
+    return start < dayEnd && end > dayStart;
+  });
+};
+
+// Only bookings that hold the slot can clash, on either side; lapsed holds don't
+const overlapsInTime = (candidate: Partial<Booking>, b: Booking): boolean => {
+  if (!holdsSlot(candidate) || !holdsSlot(b)) return false;
+
+  const a = getBookingInterval(candidate as Booking);
+  const other = getBookingInterval(b);
+
+  // Check if ranges overlap
+  return a.start < other.end && a.end > other.start;
+};
+
+const getAssignedStaffIds = (booking: Partial<Booking>): string[] =>
+  [booking.engineerId, booking.assistantId].filter((id): id is string => !!id);
+
+/**
+ * Returns the first active booking in the same room that overlaps the candidate slot,
+ * or undefined when the slot is free.
+ */
+export const findOverlap = (candidate: Partial<Booking>, existingBookings: Booking[]): Booking | undefined => {
+  if (!candidate.date || !candidate.startTime || !candidate.durationHours) return undefined;
+
+  const roomId = getBookingRoomId(candidate);
+  return existingBookings.find(b => getBookingRoomId(b) === roomId && overlapsInTime(candidate, b));
+};
+
+export interface StaffConflict {
+  staffId: string;
+  booking: Booking;
+}
+
+/**
+ * Finds a session that already has the candidate's engineer or assistant assigned at
+ * the same time. Staff can't be in two rooms at once, so this ignores rooms.
+ */
+export const findStaffConflict = (candidate: Partial<Booking>, existingBookings: Booking[]): StaffConflict | undefined => {
+  if (!candidate.date || !candidate.startTime || !candidate.durationHours) return undefined;
+
+  const staffIds = getAssignedStaffIds(candidate);
+  if (staffIds.length === 0) return undefined;
+
+  for (const b of existingBookings) {
+    const shared = getAssignedStaffIds(b).find(id => staffIds.includes(id));
+    if (shared && overlapsInTime(candidate, b)) {
+      return { staffId: shared, booking: b };
+    }
+  }
+  return undefined;
+};
+
+export const isSameSlot = (a: Partial<Booking>, b: Partial<Booking>): boolean =>
+  a.date === b.date &&
+  a.startTime === b.startTime &&
+  Number(a.durationHours) === Number(b.durationHours) &&
+  getBookingRoomId(a) === getBookingRoomId(b);
+
+/**
+ * Appends the original slot to the booking's reschedule history when an update
+ * moves it to a different date, time, length or room.
+ */
+export const recordReschedule = (original: Booking, updated: Booking): Booking => {
+  if (isSameSlot(original, updated)) return updated;
+
+  return {
+    ...updated,
+    rescheduleHistory: [
+      ...(original.rescheduleHistory || []),
+      {
+        date: original.date,
+        startTime: original.startTime,
+        durationHours: original.durationHours,
+        roomId: original.roomId,
+        changedAt: Date.now()
+      }
+    ]
+  };
+};
@@ -0,0 +1,90 @@
+import { Blackout, Booking, Holiday, RuleOverride, StudioCalendar, UserAccount } from "../types";
+import { getBookingInterval, getBookingRoomId, toAbsoluteMinutes } from "./schedulingService";
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const DEFAULT_STUDIO_CALENDAR: StudioCalendar = {
+  openingHours: WEEKDAY_NAMES.map((_, weekday) => ({ weekday, closed: false, open: '08:00', close: '23:00' })),
+  holidays: [],
+  blackouts: []
+};
+
+export const getWeekdayName = (weekday: number): string => WEEKDAY_NAMES[weekday];
+
+const getWeekday = (date: string): number => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+// Interval between a start and end time, where an end at or before the start is on the next day
+const toInterval = (date: string, startTime: string, endTime: string): { start: number; end: number } => {
+  const start = toAbsoluteMinutes(date, startTime);
+  let end = toAbsoluteMinutes(date, endTime);
+  if (end <= start) end += 24 * 60;
+  return { start, end };
+};
+
+export const getHoliday = (calendar: StudioCalendar, date: string): Holiday | undefined =>
+  calendar.holidays.find(h => h.date === date);
+
+/**
+ * The studio's open interval for a date in absolute minutes, or null when it's closed
+ * for the weekday or a holiday.
+ */
+export const getOpeningInterval = (calendar: StudioCalendar, date: string): { start: number; end: number } | null => {
+  if (getHoliday(calendar, date)) return null;
+  const hours = calendar.openingHours.find(h => h.weekday === getWeekday(date));
+  if (!hours) return toInterval(date, '00:00', '00:00');
+  if (hours.closed) return null;
+  return toInterval(date, hours.open, hours.close);
+};
+
+export const getBlackoutInterval = (blackout: Blackout): { start: number; end: number } =>
+  toInterval(blackout.date, blackout.startTime, blackout.endTime);
+
+// Blackouts that cover any part of the day, optionally only those affecting one room
+export const getBlackoutsOnDate = (calendar: StudioCalendar, date: string, roomId?: string): Blackout[] => {
+  const dayStart = toAbsoluteMinutes(date, '00:00');
+  const dayEnd = dayStart + 24 * 60;
+  return calendar.blackouts.filter(b => {
+    if (roomId && b.roomId && b.roomId !== roomId) return false;
+    const { start, end } = getBlackoutInterval(b);
+    return start < dayEnd && end > dayStart;
+  });
+};
+
+/**
+ * Lists every opening-hours, holiday and blackout rule the candidate breaks.
+ * An empty list means the slot is bookable without an override.
+ */
+export const findRuleViolations = (candidate: Partial<Booking>, calendar: StudioCalendar): string[] => {
+  if (!candidate.date || !candidate.startTime || !candidate.durationHours) return [];
+
+  const violations: string[] = [];
+  const session = getBookingInterval(candidate as Booking);
+
+  const holiday = getHoliday(calendar, candidate.date);
+  const opening = getOpeningInterval(calendar, candidate.date);
+  if (holiday) {
+    violations.push(`${candidate.date} is a holiday (${holiday.name})`);
+  } else if (!opening) {
+    violations.push(`The studio is closed on ${getWeekdayName(getWeekday(candidate.date))}s`);
+  } else if (session.start < opening.start || session.end > opening.end) {
+    const hours = calendar.openingHours.find(h => h.weekday === getWeekday(candidate.date!));
+    violations.push(`Outside opening hours (${hours?.open}–${hours?.close})`);
+  }
+
+  const roomId = getBookingRoomId(candidate);
+  calendar.blackouts
+    .filter(b => !b.roomId || b.roomId === roomId)
+    .forEach(b => {
+      const blocked = getBlackoutInterval(b);
+      if (session.start < blocked.end && session.end > blocked.start) {
+        violations.push(`Blocked for ${b.reason} (${b.date} ${b.startTime}–${b.endTime})`);
+      }
+    });
+
+  return violations;
+};
+
+export const addOverride = (booking: Booking, violations: string[], reason: string, user: UserAccount | null): Booking => {
+  const override: RuleOverride = { violations, reason, overriddenAt: Date.now(), overriddenBy: user?.id, overriddenByName: user?.name };
+  return { ...booking, overrides: [...(booking.overrides || []), override] };
+};
@@ -0,0 +1,210 @@
+import {
+  Booking, BookingStatus, InvoiceRecord, Payment, SyncChange, SyncChangeResult, SyncCollection, SyncNumberResponse, SyncPullResponse, SyncPushResponse,
+  SyncRecord, SyncedRecord
+} from "../types";
+import { StudioData } from "./repository";
+
+export const SYNC_COLLECTIONS: SyncCollection[] = ['bookings', 'clients', 'rooms', 'staff', 'invoices', 'payments'];
+
+// Everything that is synced; the invoice register and payment ledger live outside StudioData
+export type SyncData = Pick<StudioData, Exclude<SyncCollection, 'invoices' | 'payments'>> & { invoices: InvoiceRecord[]; payments: Payment[] };
+
+export const SYNC_CONNECTION_KEY = 'syncConnection';
+export const SYNC_STATE_KEY = 'syncState';
+
+export interface SyncConnection {
+  serverUrl: string;
+  token: string;
+  deviceId: string;
+}
+
+// An edit that lost to, replaced, or was refused because of another device's copy
+export interface SyncConflict {
+  id: string;
+  collection: SyncCollection;
+  recordId: string;
+  outcome: Exclude<SyncChangeResult['outcome'], 'APPLIED'>;
+  local: SyncedRecord | null; // What this device had
+  other: SyncedRecord | null; // The other device's copy
+  reason?: string;
+  at: number;
+}
+
+export interface SyncState {
+  cursor: number; // Position in the server's change feed
+  versions: Record<string, number>; // Server version last seen, per record key
+  outbox: Record<string, number>; // Records changed here since the last push, with when
+  conflicts: SyncConflict[];
+  lastSyncedAt?: number;
+}
+
+// A record to put into (or remove from) local data because of the server
+export interface RemoteUpdate {
+  collection: SyncCollection;
+  id: string;
+  record: SyncedRecord | null;
+  requeue?: boolean; // Changed on this device in answer to the server, so it's pushed again
+}
+
+export interface SyncRoundResult {
+  pushed: Record<string, number>; // Outbox entries the server answered
+  versions: Record<string, number>;
+  cursor: number;
+  remote: RemoteUpdate[];
+  conflicts: SyncConflict[];
+}
+
+export const recordKey = (collection: SyncCollection, id: string): string => `${collection}:${id}`;
+
+export const createSyncState = (): SyncState => ({ cursor: 0, versions: {}, outbox: {}, conflicts: [] });
+
+export const markChanged = (state: SyncState, collection: SyncCollection, ids: string[], at = Date.now()): SyncState => {
+  if (ids.length === 0) return state;
+  const outbox = { ...state.outbox };
+  ids.forEach(id => { outbox[recordKey(collection, id)] = at; });
+  return { ...state, outbox };
+};
+
+// Used when a device first connects, so everything it already has is uploaded
+export const markAllChanged = (state: SyncState, data: SyncData): SyncState =>
+  SYNC_COLLECTIONS.reduce((s, c) => markChanged(s, c, data[c].map(r => r.id)), state);
+
+const request = async <T>(connection: SyncConnection, path: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(`${connection.serverUrl.replace(/\/+$/, '')}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(connection.token ? { Authorization: `Bearer ${connection.token}` } : {})
+    }
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Sync server returned ${response.status}`);
+  }
+  return response.json() as Promise<T>;
+};
+
+// The next number in a document series such as SCS/2026-27, past `after`
+export const reserveNumber = async (connection: SyncConnection, series: string, after: number): Promise<number> => {
+  const { sequence } = await request<SyncNumberResponse>(connection, '/numbers', {
+    method: 'POST',
+    body: JSON.stringify({ series, after })
+  });
+  return sequence;
+};
+
+const findRecord = (data: SyncData, collection: SyncCollection, id: string): SyncedRecord | null =>
+  (data[collection] as SyncedRecord[]).find(r => r.id === id) || null;
+
+/**
+ * One sync round: pushes local changes, then pulls everything other devices
+ * wrote since the last round. Nothing is changed here; the caller applies the
+ * result, since the user may keep editing while requests are in flight.
+ */
+export const runSyncRound = async (connection: SyncConnection, data: SyncData, state: SyncState): Promise<SyncRoundResult> => {
+  const versions = { ...state.versions };
+  const remote: RemoteUpdate[] = [];
+  const conflicts: SyncConflict[] = [];
+  const pushed: Record<string, number> = {};
+
+  const changes: SyncChange[] = Object.entries(state.outbox).map(([key, changedAt]) => {
+    const [collection, id] = key.split(/:(.*)/s) as [SyncCollection, string];
+    return { collection, id, baseVersion: versions[key] || 0, changedAt, record: findRecord(data, collection, id) };
+  });
+
+  if (changes.length > 0) {
+    const { results } = await request<SyncPushResponse>(connection, '/push', {
+      method: 'POST',
+      body: JSON.stringify({ deviceId: connection.deviceId, changes })
+    });
+
+    results.forEach((result, i) => {
+      const change = changes[i];
+      const key = recordKey(result.collection, result.id);
+      pushed[key] = change.changedAt;
+      versions[key] = result.version;
+      if (result.outcome === 'APPLIED') return;
+
+      conflicts.push({
+        id: crypto.randomUUID(),
+        collection: result.collection,
+        recordId: result.id,
+        outcome: result.outcome,
+        local: change.record,
+        other: result.other?.record || null,
+        reason: result.reason,
+        at: Date.now()
+      });
+      if (result.outcome === 'OVERWROTE') return;
+      // A refused record the server has no copy of stays here. A booking is freed up until it gets a new
+      // slot; an issued invoice or a payment is kept as it is and listed under conflicts
+      if (result.outcome === 'REJECTED' && change.record && !result.other?.record) {
+        // A booking already waiting for a slot can't clash, so it was refused for something else
+        if (result.collection !== 'bookings' || (change.record as Booking).status === BookingStatus.RESCHEDULED) return;
+        const kept: Booking = { ...(change.record as Booking), status: BookingStatus.RESCHEDULED };
+        remote.push({ collection: result.collection, id: result.id, record: kept, requeue: true });
+        return;
+      }
+      // The server kept its own copy, so this device takes it too
+      remote.push({ collection: result.collection, id: result.id, record: result.other?.record || null });
+    });
+  }
+
+  let cursor = state.cursor;
+  let page: SyncPullResponse;
+  do {
+    page = await request<SyncPullResponse>(connection, `/changes?since=${cursor}`);
+    page.records.forEach((r: SyncRecord) => {
+      const key = recordKey(r.collection, r.id);
+      if (r.version <= (versions[key] || 0)) return;
+      versions[key] = r.version;
+      remote.push({ collection: r.collection, id: r.id, record: r.record });
+    });
+    cursor = page.cursor;
+  } while (page.hasMore);
+
+  return { pushed, versions, cursor, remote, conflicts };
+};
+
+/**
+ * Folds a finished round into the current state. Records edited again while the
+ * round was running stay in the outbox, and keep their old version so the next
+ * push is checked against the right copy.
+ */
+export const completeSyncRound = (state: SyncState, result: SyncRoundResult): SyncState => {
+  const outbox = { ...state.outbox };
+  const versions = { ...state.versions };
+  Object.entries(result.versions).forEach(([key, version]) => {
+    if (outbox[key] === undefined || outbox[key] === result.pushed[key]) versions[key] = version;
+  });
+  Object.entries(result.pushed).forEach(([key, changedAt]) => {
+    if (outbox[key] === changedAt) delete outbox[key];
+  });
+  return {
+    cursor: result.cursor,
+    versions,
+    outbox,
+    conflicts: [...state.conflicts, ...result.conflicts],
+    lastSyncedAt: Date.now()
+  };
+};
+
+// Remote updates for records that are waiting to be pushed are left for the next round
+export const getApplicableUpdates = (state: SyncState, result: SyncRoundResult): RemoteUpdate[] =>
+  result.remote.filter(u => {
+    const key = recordKey(u.collection, u.id);
+    return state.outbox[key] === undefined || state.outbox[key] === result.pushed[key];
+  });
+
+export const applyRemoteUpdates = <T extends { id: string }>(items: T[], updates: RemoteUpdate[]): T[] => {
+  if (updates.length === 0) return items;
+  const byId = new Map(updates.map(u => [u.id, u.record as T | null]));
+  const next = items
+    .filter(item => !byId.has(item.id) || byId.get(item.id) !== null)
+    .map(item => (byId.has(item.id) ? byId.get(item.id)! : item));
+  const present = new Set(items.map(item => item.id));
+  updates.forEach(u => {
+    if (u.record && !present.has(u.id)) next.push(u.record as unknown as T);
+  });
+  return next;
+};
@@ -0,0 +1,87 @@
+import { Booking, WaitlistEntry } from "../types";
+import { blocksSlot, holdsSlot } from "./bookingStatusService";
+import { DURATION_STEP_HOURS, findOverlap, formatDuration, fromAbsoluteMinutes, getBookingEnd, getBookingInterval, getBookingRoomId, toAbsoluteMinutes } from "./schedulingService";
+
+export const WAITLIST_KEY = 'waitlist';
+
+// The slot a waiting client could take
+export interface WaitlistMatch {
+  entry: WaitlistEntry;
+  slot: Pick<Booking, 'date' | 'startTime' | 'durationHours' | 'roomId'>;
+}
+
+// Waits for the slot the booking asked for; the window defaults to exactly that slot
+export const createWaitlistEntry = (booking: Booking, earliest: string, latest: string): WaitlistEntry => ({
+  id: crypto.randomUUID(),
+  clientId: booking.clientId,
+  clientName: booking.clientName,
+  phoneNumber: booking.phoneNumber || undefined,
+  date: booking.date,
+  earliest,
+  latest,
+  durationHours: booking.durationHours,
+  roomId: booking.roomId,
+  type: booking.type,
+  createdAt: Date.now()
+});
+
+export const getWindowInterval = (entry: WaitlistEntry): { start: number; end: number } => {
+  const start = toAbsoluteMinutes(entry.date, entry.earliest);
+  let end = toAbsoluteMinutes(entry.date, entry.latest);
+  if (end <= start) end += 24 * 60;
+  return { start, end };
+};
+
+// Entries whose window hasn't passed yet
+export const getActiveWaitlist = (waitlist: WaitlistEntry[], today: string): WaitlistEntry[] =>
+  waitlist
+    .filter(e => e.date >= today)
+    .sort((a, b) => (a.date + a.earliest).localeCompare(b.date + b.earliest) || a.createdAt - b.createdAt);
+
+/**
+ * Finds waiting clients who fit into the time a booking just gave up. Each gets the
+ * earliest start in their window that uses the freed time and clashes with nothing
+ * left in the room. Clients who asked first come first.
+ */
+export const findWaitlistMatches = (waitlist: WaitlistEntry[], freed: Booking, bookings: Booking[]): WaitlistMatch[] => {
+  const freedInterval = getBookingInterval(freed);
+  const roomId = getBookingRoomId(freed);
+  const step = DURATION_STEP_HOURS * 60;
+
+  return [...waitlist]
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .flatMap(entry => {
+      if (entry.roomId && entry.roomId !== roomId) return [];
+      const window = getWindowInterval(entry);
+      const duration = entry.durationHours * 60;
+      const first = Math.max(window.start, freedInterval.start - duration + step);
+      for (let start = first; start + duration <= window.end && start < freedInterval.end; start += step) {
+        const { date, time } = fromAbsoluteMinutes(start);
+        const slot = { date, startTime: time, durationHours: entry.durationHours, roomId };
+        if (!findOverlap(slot, bookings)) return [{ entry, slot }];
+      }
+      return [];
+    });
+};
+
+/**
+ * Waiting clients who fit any slot freed between two versions of the bookings, such
+ * as by cancelling a series or a hold running out. Each client is offered one slot.
+ */
+export const findFreedSlotMatches = (waitlist: WaitlistEntry[], before: Booking[], after: Booking[]): WaitlistMatch[] => {
+  const afterById = new Map(after.map(b => [b.id, b]));
+  const offered = new Set<string>();
+  return before
+    .filter(b => blocksSlot(b.status) && afterById.has(b.id) && !holdsSlot(afterById.get(b.id)!))
+    .flatMap(b => findWaitlistMatches(waitlist, afterById.get(b.id)!, after))
+    .filter(m => !offered.has(m.entry.id) && !!offered.add(m.entry.id));
+};
+
+export const buildWaitlistOffer = (match: WaitlistMatch, roomName: string): string => {
+  const { entry, slot } = match;
+  const end = getBookingEnd(slot);
+  return `Hello ${entry.clientName},\nA slot you were waiting for has opened up at S CUBE STUDIOZ.\n\nDate: ${slot.date}\nTime: ${slot.startTime}–${end.time} (${formatDuration(slot.durationHours)})\nRoom: ${roomName}\n\nReply to confirm and we'll book it for you. The slot goes to whoever confirms first.`;
+};
+
+export const getWhatsAppUrl = (phoneNumber: string, message: string): string =>
+  `https://wa.me/${phoneNumber.replace(/[^0-9]/g, '')}?text=${encodeURIComponent(message)}`;
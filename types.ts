@@ -1,28 +1,302 @@
+// Allowed moves between statuses are defined in services/bookingStatusService.ts
 export enum BookingStatus {
+  TENTATIVE = 'TENTATIVE', // Pencilled in; holds the slot until confirmed
   CONFIRMED = 'CONFIRMED',
+  IN_PROGRESS = 'IN_PROGRESS', // Checked in
   COMPLETED = 'COMPLETED',
+  NO_SHOW = 'NO_SHOW',
+  RESCHEDULED = 'RESCHEDULED', // Client asked to move; waiting for a new slot
   CANCELLED = 'CANCELLED'
 }
 
+export interface Room {
+  id: string;
+  name: string;
+  color: string; // Hex colour used for calendar dots and lanes
+}
+
+export enum StaffRole {
+  ENGINEER = 'ENGINEER',
+  ASSISTANT = 'ASSISTANT'
+}
+
+export interface StaffMember {
+  id: string;
+  name: string;
+  role: StaffRole;
+  phoneNumber?: string;
+  active: boolean; // Inactive staff keep their history but can't be assigned
+}
+
+export enum UserRole {
+  OWNER = 'OWNER',
+  FRONT_DESK = 'FRONT_DESK',
+  ENGINEER = 'ENGINEER'
+}
+
+// A login on this device. What each role may do is defined in services/permissions.ts
+export interface UserAccount {
+  id: string;
+  name: string;
+  role: UserRole;
+  staffId?: string; // Engineers see the sessions of this staff member
+  pinHash: string;
+  pinSalt: string;
+  active: boolean;
+  createdAt: number;
+}
+
+export interface Client {
+  id: string;
+  name: string;
+  phoneNumbers: string[];
+  email?: string;
+  gstin?: string;
+  notes?: string;
+  createdAt: number;
+}
+
+export enum RecurrenceFrequency {
+  DAILY = 'DAILY',
+  WEEKLY = 'WEEKLY',
+  MONTHLY = 'MONTHLY'
+}
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  count?: number; // Ends after N occurrences
+  until?: string; // ...or on this date (YYYY-MM-DD), inclusive
+}
+
+// Which occurrences of a series an edit or cancellation applies to
+export enum SeriesScope {
+  THIS = 'THIS',
+  FOLLOWING = 'FOLLOWING',
+  ALL = 'ALL'
+}
+
+// The slot a booking occupied before it was moved
+export interface RescheduleRecord {
+  date: string;
+  startTime: string;
+  durationHours: number;
+  roomId?: string;
+  changedAt: number;
+}
+
+export interface OpeningHours {
+  weekday: number; // 0 = Sunday
+  closed: boolean;
+  open: string; // HH:mm
+  close: string; // HH:mm, at or before open means after midnight
+}
+
+export interface Holiday {
+  id: string;
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+// A one-off block when a room (or the whole studio) can't be booked
+export interface Blackout {
+  id: string;
+  date: string; // YYYY-MM-DD
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm, at or before start means the next day
+  roomId?: string; // Whole studio when omitted
+  reason: string;
+}
+
+export interface StudioCalendar {
+  openingHours: OpeningHours[];
+  holidays: Holiday[];
+  blackouts: Blackout[];
+}
+
+// A price agreed with one client; multipliers don't apply to it
+export interface ClientRate {
+  id: string;
+  clientId: string;
+  sessionType?: string; // Every session type when omitted
+  ratePerHour: number;
+  note?: string;
+}
+
+// What sessions cost. Invoices are priced from it in services/pricingService.ts
+export interface RateCard {
+  defaultRate: number; // Per hour, for session types without a rate of their own
+  sessionRates: Record<string, number>; // Per hour, by session type
+  peakStart: string; // HH:mm
+  peakEnd: string; // HH:mm, at or before start means after midnight
+  peakMultiplier: number;
+  offPeakMultiplier: number;
+  weekendMultiplier: number; // Saturdays and Sundays, in place of peak and off-peak
+  clientRates: ClientRate[];
+  overtimeRate: number; // Per hour, for time past the booked length
+  gracePeriodMinutes: number; // Overtime up to this long isn't charged
+  billingIncrementMinutes: number; // Charged overtime is rounded up to this step
+  gstRate: number; // Percent, charged only once the studio has a GSTIN
+  studioGstin?: string;
+  sacCodes: Record<InvoiceItemKind, string>; // HSN/SAC code printed for each kind of line
+  extraRates: Record<Exclude<InvoiceItemKind, 'STUDIO_TIME'>, number>; // Default price per unit of each extra
+}
+
+export type InvoiceItemKind = 'STUDIO_TIME' | 'MUSICIAN' | 'INSTRUMENT_RENTAL' | 'MASTERING' | 'TRAVEL' | 'OTHER';
+
+export interface InvoiceLineItem {
+  id: string;
+  kind: InvoiceItemKind;
+  description: string;
+  quantity: number; // Hours, musicians, days, tracks or trips, by kind
+  unitPrice: number;
+  sacCode: string;
+  amount: number;
+}
+
+export interface InvoiceDiscount {
+  type: 'PERCENT' | 'FLAT';
+  value: number; // A percentage, or rupees off the subtotal
+}
+
+// Intra-state supplies split GST into central and state halves; inter-state ones charge IGST
+export type GstSplit = 'CGST_SGST' | 'IGST';
+
+export interface InvoiceTax {
+  split: GstSplit;
+  rate: number; // Percent, in total
+  placeOfSupply: string; // Two digit GST state code
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+// Recorded on a booking the owner made despite the studio calendar rules
+export interface RuleOverride {
+  violations: string[];
+  reason: string;
+  overriddenAt: number;
+  overriddenBy?: string; // User id
+  overriddenByName?: string; // Kept so the log still reads after the account is removed
+}
+
 export interface Booking {
   id: string;
-  clientName: string;
+  clientId?: string;
+  clientName: string; // Copy of the client's name at booking time
   phoneNumber?: string;
+  roomId?: string; // Older bookings without a room belong to the main room
+  engineerId?: string;
+  assistantId?: string;
   date: string; // YYYY-MM-DD
   startTime: string; // HH:mm (24h format)
-  durationHours: number;
+  durationHours: number; // In 15 minute steps, may run past midnight
+  actualStartTime?: string; // Set at check-in, on the booking date
   actualEndTime?: string; // The time the session actually ended
+  actualEndDate?: string; // Set when the session ended on a later day
   type: string; // e.g., Vocal, Mixing, Jamming, Dubbing
   status: BookingStatus;
+  holdExpiresAt?: number; // Tentative holds are released at this time unless confirmed
   createdAt: number;
+  updatedAt?: number; // Set on every saved change
   notes?: string;
+  seriesId?: string; // Shared by all occurrences of a recurring booking
+  recurrence?: RecurrenceRule;
+  rescheduleHistory?: RescheduleRecord[];
+  overrides?: RuleOverride[];
   invoiceDetails?: {
-    ratePerHour: number;
-    totalAmount: number;
+    ratePerHour: number; // Studio time, averaged when peak and off-peak hours differ
+    totalAmount: number; // Including GST
+    billedHours?: number; // Booked time plus charged overtime
     generatedAt: number;
+    quotedAmount?: number; // The rate card price, kept when it was overridden
+    overrideReason?: string;
+    // Older invoices have only the studio time rate and total
+    lineItems?: InvoiceLineItem[];
+    subtotal?: number;
+    discount?: InvoiceDiscount;
+    discountAmount?: number;
+    taxableAmount?: number; // Subtotal less the discount
+    tax?: InvoiceTax; // Left out when the studio isn't registered for GST
+    clientGstin?: string;
+    invoiceId?: string; // The registry entry; older invoices were never numbered
+    invoiceNumber?: string;
   };
 }
 
+export type InvoiceDocumentType = 'INVOICE' | 'CREDIT_NOTE';
+
+// An issued invoice or credit note. Never edited or removed; invoices are cancelled by credit notes
+export interface InvoiceRecord {
+  id: string;
+  type: InvoiceDocumentType;
+  number: string; // e.g. SCS/2026-27/0042, numbered without gaps per financial year
+  financialYear: string; // e.g. 2026-27, running April to March
+  sequence: number;
+  bookingId: string;
+  clientId?: string;
+  clientName: string;
+  issuedAt: number;
+  issuedBy?: string; // User id
+  details: NonNullable<Booking['invoiceDetails']>; // Credit notes carry the invoice they cancel
+  cancelsId?: string; // Credit notes: the invoice they cancel
+  reason?: string; // Credit notes: why the invoice was cancelled
+  pdf: string; // Data URI of the PDF exactly as issued
+}
+
+export type PaymentKind = 'ADVANCE' | 'PAYMENT' | 'REFUND';
+
+export type PaymentMode = 'CASH' | 'UPI' | 'BANK_TRANSFER';
+
+// One entry in the payment ledger. Never edited or removed; money given back is a refund entry
+export interface Payment {
+  id: string;
+  kind: PaymentKind;
+  bookingId: string;
+  invoiceId?: string; // The booking's invoice when the payment was recorded
+  clientId?: string;
+  clientName: string;
+  amount: number; // Always positive; refunds count against what was paid
+  mode: PaymentMode;
+  reference?: string; // UPI transaction ID, bank reference and so on
+  notes?: string;
+  receivedAt: number;
+  recordedBy?: string; // User id
+  receiptNumber: string; // e.g. SCS/RC/2026-27/0007, numbered like invoices
+  financialYear: string;
+  sequence: number;
+}
+
+// A client waiting for a slot that was taken when they asked
+export interface WaitlistEntry {
+  id: string;
+  clientId?: string;
+  clientName: string;
+  phoneNumber?: string;
+  date: string; // YYYY-MM-DD
+  earliest: string; // HH:mm, the window the session may start and end in
+  latest: string; // HH:mm, at or before earliest means after midnight
+  durationHours: number;
+  roomId?: string; // Any room when omitted
+  type: string;
+  createdAt: number;
+  offeredAt?: number; // When a freed slot was last offered to them
+}
+
+export type ActivityAction = 'CREATED' | 'UPDATED' | 'RESCHEDULED' | 'STATUS_CHANGED' | 'COMPLETED' | 'INVOICED' | 'EXPIRED' | 'UNDONE';
+
+// One saved change to a booking. Entries are only ever added, never edited or removed
+export interface ActivityEntry {
+  id: string;
+  bookingId: string;
+  action: ActivityAction;
+  at: number;
+  userId?: string;
+  userName?: string; // Kept so the log still reads after the account is removed
+  before: Booking | null; // Full copies, so any change can be inspected or reverted
+  after: Booking;
+  undoneId?: string; // The entry an UNDONE entry reverted
+}
+
 export interface BookingStats {
   totalBookings: number;
   completedBookings: number;
@@ -30,8 +304,66 @@ export interface BookingStats {
   totalHours: number;
 }
 
+// Multi-device sync: the protocol shared with the server in server/
+export type SyncCollection = 'bookings' | 'clients' | 'rooms' | 'staff' | 'invoices' | 'payments';
+
+export type SyncedRecord = Booking | Client | Room | StaffMember | InvoiceRecord | Payment;
+
+export interface SyncChange {
+  collection: SyncCollection;
+  id: string;
+  baseVersion: number; // Server version this device last saw, 0 if never synced
+  changedAt: number;
+  record: SyncedRecord | null; // null when deleted
+}
+
+export interface SyncRecord {
+  collection: SyncCollection;
+  id: string;
+  version: number;
+  changedAt: number;
+  deviceId: string;
+  record: SyncedRecord | null;
+}
+
+// APPLIED: stored as sent. OVERWROTE: a concurrent edit was replaced by this newer one.
+// SUPERSEDED: a newer concurrent edit was kept instead. REJECTED: refused, e.g. an overlap.
+export type SyncOutcome = 'APPLIED' | 'OVERWROTE' | 'SUPERSEDED' | 'REJECTED';
+
+export interface SyncChangeResult {
+  collection: SyncCollection;
+  id: string;
+  outcome: SyncOutcome;
+  version: number; // Server version after the push
+  other?: SyncRecord; // The overwritten copy, or the server copy that was kept
+  reason?: string;
+}
+
+export interface SyncPushResponse {
+  results: SyncChangeResult[];
+}
+
+export interface SyncPullResponse {
+  records: SyncRecord[];
+  cursor: number;
+  hasMore: boolean;
+}
+
+// Asks for the next number in a document series, such as SCS/2026-27 or SCS/RC/2026-27
+export interface SyncNumberRequest {
+  series: string;
+  after: number; // The highest number in the series this device already holds
+}
+
+export interface SyncNumberResponse {
+  sequence: number;
+}
+
 export enum ViewMode {
   DASHBOARD = 'DASHBOARD',
   CALENDAR = 'CALENDAR',
-  REPORTS = 'REPORTS'
+  REPORTS = 'REPORTS',
+  CLIENTS = 'CLIENTS',
+  STAFF = 'STAFF',
+  SETTINGS = 'SETTINGS'
 }
\ No newline at end of file
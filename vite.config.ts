@@ -1,11 +1,21 @@
-import { defineConfig, loadEnv } from 'vite'
+import { Plugin, defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Lists every file the build emits, including lazily loaded chunks, for public/sw.js to cache on install
+const precacheManifest = (): Plugin => ({
+  name: 'precache-manifest',
+  apply: 'build',
+  generateBundle(_, bundle) {
+    const files = Object.keys(bundle).filter(name => name.startsWith('assets/')).map(name => `/${name}`);
+    this.emitFile({ type: 'asset', fileName: 'precache-manifest.json', source: JSON.stringify(files) });
+  }
+})
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, '.', '');
   return {
-    plugins: [react()],
+    plugins: [react(), precacheManifest()],
     define: {
       // Maps process.env.API_KEY to the actual environment variable for the browser
       'process.env.API_KEY': JSON.stringify(env.API_KEY)